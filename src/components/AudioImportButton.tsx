@@ -0,0 +1,44 @@
+import { useRef } from "react";
+
+interface AudioImportButtonProps {
+  /** Called with the chosen audio file */
+  onImport: (file: File) => void;
+  /** Whether an import is being transcribed */
+  isImporting: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Button that opens a file picker for existing recordings (e.g. triage calls)
+ */
+export function AudioImportButton({
+  onImport,
+  isImporting,
+  disabled = false,
+}: AudioImportButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="audio/*,.m4a,.mp3,.wav,.ogg,.webm,.flac"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Allow picking the same file again later
+          e.target.value = "";
+          if (file) onImport(file);
+        }}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isImporting}
+        className="px-4 py-2.5 text-sm font-semibold text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-900/30 hover:bg-teal-100 dark:hover:bg-teal-900/50 border border-teal-200 dark:border-teal-700/50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isImporting ? "Transcribing Audio..." : "Import Audio File"}
+      </button>
+    </>
+  );
+}
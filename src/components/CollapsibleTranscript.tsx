@@ -1,19 +1,81 @@
-import { useState } from "react";
-import type { TranscriptSegment } from "../types/transcript";
+import { useEffect, useRef, useState } from "react";
+import type { TranscriptSegment, Participant } from "../types/transcript";
+import { DEFAULT_PARTICIPANTS, getParticipant } from "../types/transcript";
+import {
+  SpeakerBadge,
+  SpeakerLegend,
+  getSpeakerTextClass,
+} from "./SpeakerBadge";
+import { CorrectedText } from "./CorrectedText";
+import { SegmentEditor } from "./SegmentEditor";
+import {
+  mergeWithNext,
+  setSegmentSpeaker,
+  splitSegment,
+  updateSegmentText,
+} from "../utils/transcriptEditing";
 import { getHighlightType, type HighlightType } from "../utils/highlightDetection";
 
+// Matches the expand/collapse transition below
+const EXPAND_TRANSITION_MS = 300;
+
+/**
+ * Request to reveal a segment, e.g. the evidence behind a report field
+ */
+export interface TranscriptFocusRequest {
+  segmentIndex: number;
+  /** Changes on every request so clicking the same link again re-scrolls */
+  requestId: number;
+}
+
 interface CollapsibleTranscriptProps {
   segments: TranscriptSegment[];
+  /** Visit participants (speaker ids resolve against this list) */
+  participants?: Participant[];
   onSegmentClick?: (index: number, relativeTime: number) => void;
   activeSegmentIndex?: number;
+  /** Undo a vocabulary correction in a segment */
+  onRevertCorrection?: (segmentIndex: number, correctionIndex: number) => void;
+  /**
+   * Apply an edit to the stored segments (omit to make the transcript
+   * read-only). Edits are passed as updaters so consecutive edits from
+   * one interaction (blur, then split) don't overwrite each other.
+   */
+  onEditSegments?: (
+    edit: (segments: TranscriptSegment[]) => TranscriptSegment[]
+  ) => void;
+  /** Expand, scroll to and highlight a segment */
+  focusRequest?: TranscriptFocusRequest | null;
 }
 
 export function CollapsibleTranscript({
   segments,
+  participants = DEFAULT_PARTICIPANTS,
   onSegmentClick,
   activeSegmentIndex = -1,
+  onRevertCorrection,
+  onEditSegments,
+  focusRequest,
 }: CollapsibleTranscriptProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    setIsExpanded(true);
+    setIsEditing(false);
+    setFocusedIndex(focusRequest.segmentIndex);
+
+    // Scroll once the expand transition has made the segment visible
+    const timer = window.setTimeout(() => {
+      contentRef.current
+        ?.querySelector(`[data-segment-index="${focusRequest.segmentIndex}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, EXPAND_TRANSITION_MS);
+    return () => window.clearTimeout(timer);
+  }, [focusRequest]);
 
   if (segments.length === 0) return null;
 
@@ -51,11 +113,60 @@ export function CollapsibleTranscript({
               <span className="w-3 h-3 rounded bg-emerald-100 border border-emerald-300" />
               <span className="text-slate-600">Recommendation</span>
             </div>
+            {onEditSegments && (
+              <button
+                type="button"
+                onClick={() => setIsEditing(!isEditing)}
+                className={`ml-auto px-2.5 py-1 rounded-md font-medium transition-colors ${
+                  isEditing
+                    ? "bg-teal-600 text-white hover:bg-teal-500"
+                    : "text-teal-600 hover:bg-teal-50"
+                }`}
+              >
+                {isEditing ? "Done Editing" : "Edit Transcript"}
+              </button>
+            )}
           </div>
 
           {/* Transcript content */}
-          <div className="p-4 max-h-[50vh] overflow-y-auto space-y-3">
+          <div
+            ref={contentRef}
+            className="p-4 max-h-[50vh] overflow-y-auto space-y-3"
+          >
             {segments.map((segment, index) => {
+              if (isEditing && onEditSegments) {
+                return (
+                  <SegmentEditor
+                    key={`${index}-${segment.timestamp}`}
+                    segment={segment}
+                    participants={participants}
+                    canMerge={index < segments.length - 1}
+                    onTextChange={(text) =>
+                      onEditSegments((prev) =>
+                        updateSegmentText(prev, index, text)
+                      )
+                    }
+                    onSpeakerChange={(speaker) =>
+                      onEditSegments((prev) =>
+                        setSegmentSpeaker(prev, index, speaker)
+                      )
+                    }
+                    onSplit={(offset, text) =>
+                      onEditSegments((prev) =>
+                        splitSegment(
+                          updateSegmentText(prev, index, text),
+                          index,
+                          offset
+                        )
+                      )
+                    }
+                    onMergeWithNext={() =>
+                      onEditSegments((prev) => mergeWithNext(prev, index))
+                    }
+                  />
+                );
+              }
+
               const highlightType = getHighlightType(segment.text);
               const isActive = index === activeSegmentIndex;
               const isClickable = onSegmentClick && segment.relativeTime !== undefined;
@@ -63,15 +174,24 @@ export function CollapsibleTranscript({
               return (
                 <TranscriptSegmentItem
                   key={index}
+                  index={index}
                   segment={segment}
+                  participant={getParticipant(participants, segment.speaker)}
                   highlightType={highlightType}
                   isActive={isActive}
+                  isFocused={index === focusedIndex}
                   isClickable={!!isClickable}
                   onClick={() => {
                     if (isClickable && segment.relativeTime !== undefined) {
                       onSegmentClick(index, segment.relativeTime);
                     }
                   }}
+                  onRevertCorrection={
+                    onRevertCorrection
+                      ? (correctionIndex) =>
+                          onRevertCorrection(index, correctionIndex)
+                      : undefined
+                  }
                 />
               );
             })}
@@ -80,14 +200,7 @@ export function CollapsibleTranscript({
           {/* Speaker legend */}
           <div className="px-4 py-2 bg-slate-50 border-t border-slate-200 flex items-center gap-4 text-xs">
             <span className="text-slate-500">Speakers:</span>
-            <div className="flex items-center gap-1">
-              <span className="w-3 h-3 rounded-full bg-teal-500" />
-              <span className="text-slate-600">Vet</span>
-            </div>
-            <div className="flex items-center gap-1">
-              <span className="w-3 h-3 rounded-full bg-amber-500" />
-              <span className="text-slate-600">Owner</span>
-            </div>
+            <SpeakerLegend participants={participants} />
           </div>
         </div>
       </div>
@@ -96,22 +209,29 @@ export function CollapsibleTranscript({
 }
 
 interface TranscriptSegmentItemProps {
+  index: number;
   segment: TranscriptSegment;
+  participant: Participant;
   highlightType: HighlightType;
   isActive: boolean;
+  /** Segment revealed from a report field's evidence link */
+  isFocused: boolean;
   isClickable: boolean;
   onClick: () => void;
+  onRevertCorrection?: (correctionIndex: number) => void;
 }
 
 function TranscriptSegmentItem({
+  index,
   segment,
+  participant,
   highlightType,
   isActive,
+  isFocused,
   isClickable,
   onClick,
+  onRevertCorrection,
 }: TranscriptSegmentItemProps) {
-  const isVet = segment.speaker === "vet";
-
   // Background colors based on highlight type
   let bgClass = "";
   let borderClass = "";
@@ -126,11 +246,13 @@ function TranscriptSegmentItem({
   return (
     <div
       onClick={onClick}
+      data-segment-index={index}
       className={`
         flex gap-3 p-3 rounded-lg transition-all
         ${bgClass || "bg-slate-50"}
         ${borderClass}
         ${isActive ? "ring-2 ring-teal-400 bg-teal-50" : ""}
+        ${isFocused && !isActive ? "ring-2 ring-sky-400 bg-sky-50" : ""}
         ${isClickable ? "cursor-pointer hover:shadow-sm" : ""}
       `}
     >
@@ -142,26 +264,22 @@ function TranscriptSegmentItem({
       )}
 
       {/* Speaker badge */}
-      <span
-        className={`
-          shrink-0 w-6 h-6 rounded-full flex items-center justify-center
-          text-[10px] font-bold text-white
-          ${isVet ? "bg-teal-500" : "bg-amber-500"}
-        `}
-      >
-        {isVet ? "V" : "O"}
-      </span>
+      <SpeakerBadge participant={participant} compact />
 
       {/* Text content */}
       <div className="flex-1 min-w-0">
         <p
           className={`
             text-sm leading-relaxed
-            ${isVet ? "text-teal-800" : "text-amber-800"}
+            ${getSpeakerTextClass(participant)}
             ${isActive ? "font-medium" : ""}
           `}
         >
-          {segment.text}
+          <CorrectedText
+            text={segment.text}
+            corrections={segment.corrections}
+            onRevert={onRevertCorrection}
+          />
         </p>
 
         {/* Highlight badge */}
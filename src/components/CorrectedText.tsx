@@ -0,0 +1,56 @@
+import type { TranscriptCorrection } from "../types/vocabulary";
+
+interface CorrectedTextProps {
+  text: string;
+  corrections?: TranscriptCorrection[];
+  /** Revert a correction (omit to make corrections read-only) */
+  onRevert?: (correctionIndex: number) => void;
+}
+
+/**
+ * Segment text with vocabulary corrections underlined. Hovering shows
+ * what was originally heard; clicking reverts the correction.
+ */
+export function CorrectedText({ text, corrections, onRevert }: CorrectedTextProps) {
+  if (!corrections || corrections.length === 0) return <>{text}</>;
+
+  const ordered = corrections
+    .map((c, index) => ({ ...c, index }))
+    .sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const c of ordered) {
+    if (c.start < cursor) continue;
+    parts.push(text.slice(cursor, c.start));
+    const title = `Heard "${c.original}"${onRevert ? " — click to revert" : ""}`;
+    parts.push(
+      onRevert ? (
+        <button
+          key={c.index}
+          type="button"
+          title={title}
+          onClick={(e) => {
+            e.stopPropagation();
+            onRevert(c.index);
+          }}
+          className="underline decoration-dotted decoration-sky-500 underline-offset-2 hover:bg-sky-100 dark:hover:bg-sky-900/40 rounded-sm"
+        >
+          {text.slice(c.start, c.end)}
+        </button>
+      ) : (
+        <span
+          key={c.index}
+          title={title}
+          className="underline decoration-dotted decoration-sky-500 underline-offset-2"
+        >
+          {text.slice(c.start, c.end)}
+        </span>
+      )
+    );
+    cursor = c.end;
+  }
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
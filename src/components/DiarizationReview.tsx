@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import type {
+  Participant,
+  Speaker,
+  TranscriptSegment,
+} from "../types/transcript";
+import { getParticipant } from "../types/transcript";
+import {
+  diarizeRecording,
+  applyDiarization,
+  guessClusterSpeakers,
+  type DiarizationResult,
+} from "../services/diarization";
+import { SpeakerBadge } from "./SpeakerBadge";
+
+interface DiarizationReviewProps {
+  /** Full recording */
+  audioBlob: Blob;
+  /** Transcript segments with relativeTime set */
+  segments: TranscriptSegment[];
+  /** Visit participants voices can be assigned to */
+  participants: Participant[];
+  /** Called with relabeled segments once the vet confirms */
+  onApply: (segments: TranscriptSegment[]) => void;
+  /** Close without applying */
+  onCancel: () => void;
+  /** Play a segment so the vet can hear the voice */
+  onPlaySegment?: (index: number, relativeTime: number) => void;
+}
+
+// Sample lines shown per voice
+const SAMPLES_PER_CLUSTER = 3;
+
+export function DiarizationReview({
+  audioBlob,
+  segments,
+  participants,
+  onApply,
+  onCancel,
+  onPlaySegment,
+}: DiarizationReviewProps) {
+  const [result, setResult] = useState<DiarizationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [clusterSpeakers, setClusterSpeakers] = useState<
+    Record<number, Speaker>
+  >({});
+
+  // Re-run when the transcript or participants change: assignments index
+  // into the segments and the cluster count follows the participants
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setError(null);
+    setClusterSpeakers({});
+
+    diarizeRecording(audioBlob, segments, participants.length).then((response) => {
+      if (cancelled) return;
+      if (response.success) {
+        setResult(response);
+        setClusterSpeakers(guessClusterSpeakers(segments, response.clusters));
+      } else {
+        setError(response.error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob, segments, participants.length]);
+
+  const hasVet = Object.values(clusterSpeakers).some(
+    (id) => getParticipant(participants, id).role === "vet"
+  );
+  const changedCount = result
+    ? applyDiarization(segments, result.assignments, clusterSpeakers).filter(
+        (seg, i) => seg.speaker !== segments[i]?.speaker
+      ).length
+    : 0;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700 p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-200">
+          Detect Speakers from Audio
+        </h3>
+        <button
+          onClick={onCancel}
+          className="text-xs px-2.5 py-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md font-medium transition-colors"
+        >
+          Close
+        </button>
+      </div>
+
+      {!result && !error && (
+        <div className="flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-teal-600" />
+          Analyzing voices in the recording...
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {result && (
+        <>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            We found {result.clusters.length} distinct voices. Listen to the
+            samples and confirm who each voice belongs to, starting with the
+            vet.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {result.clusters.map((cluster, i) => {
+              const speakerId = clusterSpeakers[cluster.id];
+              const participant = speakerId
+                ? getParticipant(participants, speakerId)
+                : null;
+              const isVet = participant?.role === "vet";
+              return (
+                <div
+                  key={cluster.id}
+                  className={`
+                    rounded-lg border-2 p-3 transition-colors
+                    ${isVet ? "border-teal-400 bg-teal-50 dark:bg-teal-900/20 dark:border-teal-500/50" : "border-slate-200 dark:border-slate-700"}
+                  `}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+                      Voice {i + 1}
+                    </span>
+                    <span className="text-xs text-slate-500 dark:text-slate-400">
+                      {cluster.segmentIndices.length} segments · ~
+                      {Math.round(cluster.meanPitch)} Hz
+                    </span>
+                  </div>
+                  <ul className="space-y-1">
+                    {cluster.segmentIndices
+                      .slice(0, SAMPLES_PER_CLUSTER)
+                      .map((segIndex) => {
+                        const seg = segments[segIndex];
+                        if (!seg) return null;
+                        return (
+                          <li
+                            key={segIndex}
+                            className="text-xs text-slate-600 dark:text-slate-300 flex gap-1.5"
+                          >
+                            {onPlaySegment && seg.relativeTime !== undefined && (
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  onPlaySegment(segIndex, seg.relativeTime!)
+                                }
+                                className="shrink-0 text-teal-600 dark:text-teal-400 hover:underline"
+                              >
+                                ▶
+                              </button>
+                            )}
+                            <span className="line-clamp-2">{seg.text}</span>
+                          </li>
+                        );
+                      })}
+                  </ul>
+                  <div className="mt-3 flex items-center gap-2">
+                    {participant && <SpeakerBadge participant={participant} compact />}
+                    <select
+                      value={speakerId ?? ""}
+                      onChange={(e) =>
+                        setClusterSpeakers((prev) => ({
+                          ...prev,
+                          [cluster.id]: e.target.value,
+                        }))
+                      }
+                      className="flex-1 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                    >
+                      <option value="" disabled>
+                        Who is this?
+                      </option>
+                      {participants.map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {hasVet
+                ? `${changedCount} segment${changedCount === 1 ? "" : "s"} will be relabeled`
+                : "Pick which voice is the vet"}
+            </span>
+            <button
+              onClick={() =>
+                onApply(
+                  applyDiarization(segments, result.assignments, clusterSpeakers)
+                )
+              }
+              disabled={!hasVet}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors ${
+                hasVet
+                  ? "text-white bg-teal-600 hover:bg-teal-500"
+                  : "bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-500"
+              }`}
+            >
+              Apply Speaker Labels
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
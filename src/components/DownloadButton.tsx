@@ -1,13 +1,21 @@
-import type { IntakeReport } from "../types/report";
-import { generateIntakeReportPDF } from "../services/pdfGenerator";
+import type { IntakeReport, WeightUnit } from "../types/report";
+import type { SoapNote } from "../types/soap";
+import {
+  generateIntakeReportPDF,
+  generateSoapNotePDF,
+} from "../services/pdfGenerator";
 
-interface DownloadButtonProps {
-  report: IntakeReport;
-}
+type DownloadButtonProps =
+  | { report: IntakeReport; weightUnit?: WeightUnit }
+  | { soapNote: SoapNote };
 
-export function DownloadButton({ report }: DownloadButtonProps) {
+export function DownloadButton(props: DownloadButtonProps) {
   const handleDownload = () => {
-    generateIntakeReportPDF(report);
+    if ("soapNote" in props) {
+      generateSoapNotePDF(props.soapNote);
+    } else {
+      generateIntakeReportPDF(props.report, props.weightUnit);
+    }
   };
 
   return (
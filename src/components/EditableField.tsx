@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from "react";
+import { SuggestionInput } from "./SuggestionInput";
 
 interface EditableFieldProps {
   value: string;
@@ -7,6 +8,8 @@ interface EditableFieldProps {
   multiline?: boolean;
   className?: string;
   placeholder?: string;
+  /** Values offered while typing (single-line only), best first */
+  suggestions?: (query: string) => string[];
 }
 
 export function EditableField({
@@ -16,6 +19,7 @@ export function EditableField({
   multiline = false,
   className = "",
   placeholder = "Click to edit",
+  suggestions,
 }: EditableFieldProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(value);
@@ -32,10 +36,11 @@ export function EditableField({
     setEditValue(value);
   }, [value]);
 
-  const handleSave = () => {
+  const handleSave = (next = editValue) => {
     setIsEditing(false);
-    if (editValue !== value) {
-      onSave(editValue);
+    setEditValue(next);
+    if (next !== value) {
+      onSave(next);
     }
   };
 
@@ -56,7 +61,7 @@ export function EditableField({
       onChange: (
         e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
       ) => setEditValue(e.target.value),
-      onBlur: handleSave,
+      onBlur: () => handleSave(),
       onKeyDown: handleKeyDown,
       className: `w-full px-2 py-1.5 border border-teal-400 dark:border-teal-500 rounded-md bg-white dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-2 focus:ring-teal-500 ${className}`,
       placeholder,
@@ -72,6 +77,22 @@ export function EditableField({
       );
     }
 
+    if (suggestions) {
+      return (
+        <SuggestionInput
+          inputRef={inputRef as React.RefObject<HTMLInputElement>}
+          value={editValue}
+          onChange={setEditValue}
+          suggestions={suggestions}
+          onPick={handleSave}
+          onBlur={() => handleSave()}
+          onKeyDown={handleKeyDown}
+          className={commonProps.className}
+          placeholder={placeholder}
+        />
+      );
+    }
+
     return (
       <input
         {...commonProps}
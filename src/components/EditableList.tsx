@@ -1,20 +1,66 @@
-import { useState } from "react";
+import { useState, type ReactNode } from "react";
 
-interface EditableListProps {
-  items: string[];
-  onSave: (items: string[]) => void;
+/**
+ * How the items of a structured list are shown and edited, one row each
+ */
+export interface ListRowEditor<T> {
+  /** Read-only view of an item */
+  render: (item: T) => ReactNode;
+  /** Inputs for an item; onChange receives the updated item */
+  edit: (item: T, onChange: (item: T) => void, index: number) => ReactNode;
+  /** A blank item for "+ Add item" */
+  create: () => T;
+  /** Blank items are dropped on save */
+  isEmpty: (item: T) => boolean;
+}
+
+const TEXT_ROW: ListRowEditor<string> = {
+  render: (item) => item,
+  edit: (item, onChange, index) => (
+    <input
+      type="text"
+      value={item}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 px-2 py-1 border border-teal-400 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm"
+      placeholder={`Item ${index + 1}`}
+    />
+  ),
+  create: () => "",
+  isEmpty: (item) => !item.trim(),
+};
+
+interface EditableListProps<T> {
+  items: T[];
+  onSave: (items: T[]) => void;
   isEdited?: boolean;
   ordered?: boolean;
   placeholder?: string;
 }
 
-export function EditableList({
+/** A list of plain text items */
+type TextListProps = EditableListProps<string> & { row?: undefined };
+
+/** A list of structured items, shown and edited by the row editor */
+type RowListProps<T> = EditableListProps<T> & { row: ListRowEditor<T> };
+
+export function EditableList(props: TextListProps): JSX.Element;
+export function EditableList<T>(props: RowListProps<T>): JSX.Element;
+export function EditableList(props: TextListProps | RowListProps<unknown>) {
+  return props.row ? (
+    <RowList {...props} row={props.row} />
+  ) : (
+    <RowList {...props} row={TEXT_ROW} />
+  );
+}
+
+function RowList<T>({
   items,
   onSave,
   isEdited = false,
   ordered = false,
   placeholder = "No items",
-}: EditableListProps) {
+  row: rowEditor,
+}: RowListProps<T>) {
   // Defensive: ensure items is always an array
   const safeItems = Array.isArray(items) ? items : [];
   
@@ -23,20 +69,20 @@ export function EditableList({
 
   const handleSave = () => {
     setIsEditing(false);
-    const filtered = editItems.filter((item) => item.trim());
+    const filtered = editItems.filter((item) => !rowEditor.isEmpty(item));
     if (JSON.stringify(filtered) !== JSON.stringify(safeItems)) {
       onSave(filtered);
     }
   };
 
-  const handleItemChange = (index: number, value: string) => {
+  const handleItemChange = (index: number, value: T) => {
     const newItems = [...editItems];
     newItems[index] = value;
     setEditItems(newItems);
   };
 
   const handleAddItem = () => {
-    setEditItems([...editItems, ""]);
+    setEditItems([...editItems, rowEditor.create()]);
   };
 
   const handleRemoveItem = (index: number) => {
@@ -48,13 +94,7 @@ export function EditableList({
       <div className="space-y-2">
         {editItems.map((item, i) => (
           <div key={i} className="flex gap-2">
-            <input
-              type="text"
-              value={item}
-              onChange={(e) => handleItemChange(i, e.target.value)}
-              className="flex-1 px-2 py-1 border border-teal-400 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm"
-              placeholder={`Item ${i + 1}`}
-            />
+            {rowEditor.edit(item, (value) => handleItemChange(i, value), i)}
             <button
               onClick={() => handleRemoveItem(i)}
               className="px-2 text-red-500 hover:bg-red-50 rounded"
@@ -89,7 +129,7 @@ export function EditableList({
   return (
     <div
       onClick={() => {
-        setEditItems(safeItems.length > 0 ? safeItems : [""]);
+        setEditItems(safeItems.length > 0 ? safeItems : [rowEditor.create()]);
         setIsEditing(true);
       }}
       className="cursor-pointer px-2 py-1 -mx-2 -my-1 rounded hover:bg-slate-100 transition-colors group"
@@ -99,7 +139,7 @@ export function EditableList({
           className={`${ordered ? "list-decimal" : "list-disc"} list-inside text-slate-700 space-y-1`}
         >
           {safeItems.map((item, i) => (
-            <li key={i}>{item}</li>
+            <li key={i}>{rowEditor.render(item)}</li>
           ))}
         </ListTag>
       ) : (
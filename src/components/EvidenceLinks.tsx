@@ -0,0 +1,45 @@
+import type { FieldEvidence } from "../types/report";
+
+interface EvidenceLinksProps {
+  evidence?: FieldEvidence[];
+  /** Jump to the supporting transcript segment */
+  onSelect?: (evidence: FieldEvidence) => void;
+}
+
+// Longest quote shown in a link's tooltip
+const MAX_QUOTE_LENGTH = 120;
+
+/**
+ * Small links from a report field to the transcript segments it was
+ * extracted from. Hovering shows the quoted words.
+ */
+export function EvidenceLinks({ evidence, onSelect }: EvidenceLinksProps) {
+  if (!onSelect || !evidence || evidence.length === 0) return null;
+
+  return (
+    <span className="inline-flex items-center gap-0.5">
+      {evidence.map((item, i) => (
+        <button
+          key={`${item.segmentIndex}-${i}`}
+          type="button"
+          onClick={(e) => {
+            // Don't start editing the field the link sits in
+            e.stopPropagation();
+            onSelect(item);
+          }}
+          title={`“${truncate(item.quote)}”`}
+          aria-label={`Show source ${i + 1} in transcript`}
+          className="px-1 min-w-4 h-4 rounded text-[9px] font-bold leading-4 text-sky-700 bg-sky-100 hover:bg-sky-200 dark:text-sky-300 dark:bg-sky-900/50 dark:hover:bg-sky-900 transition-colors"
+        >
+          {evidence.length === 1 ? "src" : i + 1}
+        </button>
+      ))}
+    </span>
+  );
+}
+
+function truncate(quote: string): string {
+  return quote.length > MAX_QUOTE_LENGTH
+    ? `${quote.slice(0, MAX_QUOTE_LENGTH - 1)}…`
+    : quote;
+}
@@ -0,0 +1,68 @@
+import type { ExtractionRepairSummary, PatientReport } from "../types/report";
+import { getReportFieldLabel } from "../utils/reportSchema";
+import type { ReportFieldSchema } from "../utils/reportSchema";
+
+interface ExtractionRepairNoticeProps {
+  repairs: ExtractionRepairSummary;
+  /** Pets in the report, to name them in field labels */
+  patients?: PatientReport[];
+  /** Schema the field paths belong to (the intake report by default) */
+  fields?: ReportFieldSchema[];
+}
+
+/**
+ * Tells the vet which report fields the AI had to repair or could not
+ * fill in (defaults were used), and which were stated differently in
+ * different parts of a long visit
+ */
+export function ExtractionRepairNotice({
+  repairs,
+  patients,
+  fields,
+}: ExtractionRepairNoticeProps) {
+  const { repairedFields, defaultedFields, conflictingFields = [] } = repairs;
+  if (
+    repairedFields.length === 0 &&
+    defaultedFields.length === 0 &&
+    conflictingFields.length === 0
+  ) {
+    return null;
+  }
+
+  const formatFields = (paths: string[]) =>
+    paths
+      .map(
+        (path) =>
+          fields?.find((field) => field.path === path)?.label ??
+          getReportFieldLabel(path, patients)
+      )
+      .join(", ");
+  const retries = `${repairs.repairAttempts} ${
+    repairs.repairAttempts === 1 ? "retry" : "retries"
+  }`;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto px-4 py-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-xl space-y-1">
+      {defaultedFields.length > 0 && (
+        <p className="text-sm text-amber-800 dark:text-amber-300">
+          <span className="font-semibold">Please review:</span> the AI could
+          not produce valid values for {formatFields(defaultedFields)}, so
+          defaults were used.
+        </p>
+      )}
+      {conflictingFields.length > 0 && (
+        <p className="text-sm text-amber-800 dark:text-amber-300">
+          <span className="font-semibold">Conflicting statements:</span>{" "}
+          {formatFields(conflictingFields)} were stated differently during the
+          visit. Hover over their confidence indicators to compare.
+        </p>
+      )}
+      {repairedFields.length > 0 && (
+        <p className="text-xs text-amber-700 dark:text-amber-400">
+          Automatically repaired after {retries}:{" "}
+          {formatFields(repairedFields)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { LanguageCode } from "../types/language";
+import { LANGUAGES } from "../types/language";
+
+interface LanguagePickerProps {
+  /** Language spoken in this session's conversation */
+  language: LanguageCode;
+  onLanguageChange: (language: LanguageCode) => void;
+  /** Clinic working language the report is written in */
+  reportLanguage: LanguageCode;
+  onReportLanguageChange: (language: LanguageCode) => void;
+  disabled?: boolean;
+}
+
+const LANGUAGE_OPTIONS = Object.values(LANGUAGES);
+
+const selectClass =
+  "px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50";
+
+export function LanguagePicker({
+  language,
+  onLanguageChange,
+  reportLanguage,
+  onReportLanguageChange,
+  disabled = false,
+}: LanguagePickerProps) {
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-wrap items-center justify-between gap-3 bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700 px-4 py-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-200">
+        Conversation
+        <select
+          value={language}
+          disabled={disabled}
+          onChange={(e) => onLanguageChange(e.target.value as LanguageCode)}
+          className={selectClass}
+        >
+          {LANGUAGE_OPTIONS.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.nativeName}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400">
+        Report in
+        <select
+          value={reportLanguage}
+          disabled={disabled}
+          onChange={(e) =>
+            onReportLanguageChange(e.target.value as LanguageCode)
+          }
+          className={selectClass}
+        >
+          {LANGUAGE_OPTIONS.map((l) => (
+            <option key={l.code} value={l.code}>
+              {l.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
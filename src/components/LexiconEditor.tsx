@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { LexiconCategory, LexiconEntry } from "../types/vocabulary";
+import { LEXICON_CATEGORY_LABELS } from "../types/vocabulary";
+
+interface LexiconEditorProps {
+  lexicon: LexiconEntry[];
+  onChange: (lexicon: LexiconEntry[]) => void;
+  /** Restore the built-in terms */
+  onReset: () => void;
+}
+
+const CATEGORIES = Object.keys(LEXICON_CATEGORY_LABELS) as LexiconCategory[];
+
+export function LexiconEditor({ lexicon, onChange, onReset }: LexiconEditorProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [category, setCategory] = useState<LexiconCategory>("drug");
+  const [newTerm, setNewTerm] = useState("");
+
+  const terms = lexicon
+    .filter((e) => e.category === category)
+    .sort((a, b) => a.term.localeCompare(b.term));
+
+  const handleAdd = () => {
+    const term = newTerm.trim();
+    if (!term) return;
+    const exists = lexicon.some(
+      (e) => e.term.toLowerCase() === term.toLowerCase()
+    );
+    if (!exists) {
+      onChange([...lexicon, { term, category }]);
+    }
+    setNewTerm("");
+  };
+
+  const handleRemove = (entry: LexiconEntry) => {
+    onChange(lexicon.filter((e) => e !== entry));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3"
+        aria-expanded={isExpanded}
+      >
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+          Vocabulary ({lexicon.length} terms)
+        </span>
+        <span className="text-xs text-slate-400 dark:text-slate-500">
+          Fixes misheard drug, breed and condition names
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 pt-3 space-y-3 border-t border-slate-200 dark:border-slate-700">
+          <div className="flex gap-1.5">
+            {CATEGORIES.map((c) => (
+              <button
+                key={c}
+                type="button"
+                onClick={() => setCategory(c)}
+                className={`text-xs px-2.5 py-1 rounded-lg font-medium transition-colors ${
+                  c === category
+                    ? "bg-teal-600 text-white"
+                    : "bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-600 dark:text-slate-200"
+                }`}
+              >
+                {LEXICON_CATEGORY_LABELS[c]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+            {terms.map((entry) => (
+              <span
+                key={entry.term}
+                className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200"
+              >
+                {entry.term}
+                <button
+                  type="button"
+                  onClick={() => handleRemove(entry)}
+                  className="text-slate-400 hover:text-red-500"
+                  aria-label={`Remove ${entry.term}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newTerm}
+              onChange={(e) => setNewTerm(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleAdd();
+              }}
+              placeholder={`Add to ${LEXICON_CATEGORY_LABELS[category].toLowerCase()}...`}
+              className="flex-1 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+            />
+            <button
+              type="button"
+              onClick={handleAdd}
+              className="text-xs px-2.5 py-1.5 text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-teal-900/30 rounded font-medium"
+            >
+              Add
+            </button>
+            <button
+              type="button"
+              onClick={onReset}
+              className="text-xs px-2.5 py-1.5 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
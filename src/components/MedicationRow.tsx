@@ -0,0 +1,155 @@
+import type { MedicationCheck } from "../types/formulary";
+import type { Medication, PatientReport } from "../types/report";
+import {
+  MEDICATION_FIELDS,
+  createConfidentField,
+  createMedication,
+} from "../types/report";
+import type { ListRowEditor } from "./EditableList";
+import { ConfidenceIndicator } from "./ConfidenceIndicator";
+import { isMentioned } from "../utils/reportMerge";
+import { suggestDrugs } from "../utils/formulary";
+import { SuggestionInput } from "./SuggestionInput";
+import { checkMedication } from "../utils/dosageCheck";
+
+// Details typed by staff are certain
+const STAFF_SCORE = 1;
+
+const INPUT_CLASS =
+  "w-full px-2 py-1 border border-teal-400 rounded focus:outline-none focus:ring-2 focus:ring-teal-500 text-sm bg-white dark:bg-slate-700 dark:text-slate-100";
+
+/**
+ * One medication: the drug name, then each detail that was mentioned
+ * with its own confidence, and any dose or contraindication warnings
+ */
+export function MedicationSummary({
+  medication,
+  check,
+}: {
+  medication: Medication;
+  check?: MedicationCheck;
+}) {
+  const details = MEDICATION_FIELDS.filter(
+    ({ key }) => key !== "name" && isMentioned(medication[key])
+  );
+
+  return (
+    <span className="text-slate-700 dark:text-slate-200">
+      <span className="font-medium">{medication.name.value}</span>
+      <Confidence medication={medication} detail="name" />
+      {details.length > 0 && (
+        <span className="block ml-5 text-xs text-slate-500 dark:text-slate-400">
+          {details.map(({ key, label }, i) => (
+            <span key={key} className="inline-flex items-center gap-0.5">
+              {i > 0 && <span className="mx-1">·</span>}
+              <span className="text-slate-400 dark:text-slate-500">{label}</span>{" "}
+              {medication[key].value}
+              <Confidence medication={medication} detail={key} />
+            </span>
+          ))}
+          {check?.dosePerKg != null && (
+            <span className="ml-1" title="Dose for the patient's weight">
+              (≈ {Number(check.dosePerKg.toPrecision(2))} mg/kg)
+            </span>
+          )}
+        </span>
+      )}
+      {check?.warnings.map((warning) => (
+        <span
+          key={warning.message}
+          className={`flex items-start gap-1 ml-5 mt-0.5 text-xs ${
+            warning.severity === "danger"
+              ? "text-red-700 dark:text-red-400"
+              : "text-amber-700 dark:text-amber-300"
+          }`}
+        >
+          <span aria-label={warning.severity}>⚠</span>
+          {warning.message}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function Confidence({
+  medication,
+  detail,
+}: {
+  medication: Medication;
+  detail: keyof Medication;
+}) {
+  // Don't open the list editor when showing the confidence note
+  return (
+    <span className="ml-1 inline-flex" onClick={(e) => e.stopPropagation()}>
+      <ConfidenceIndicator confidence={medication[detail].confidence} />
+    </span>
+  );
+}
+
+/**
+ * Inputs for every detail of a medication; drug names are suggested
+ * from the formulary
+ */
+export function MedicationEditor({
+  medication,
+  onChange,
+}: {
+  medication: Medication;
+  onChange: (medication: Medication) => void;
+}) {
+  const setDetail = (key: keyof Medication, value: string) =>
+    onChange({
+      ...medication,
+      [key]: createConfidentField(value || "Not mentioned", value ? STAFF_SCORE : 0),
+    });
+
+  return (
+    <div className="flex-1 grid grid-cols-2 sm:grid-cols-3 gap-1.5">
+      {MEDICATION_FIELDS.map(({ key, label }) => {
+        const value = isMentioned(medication[key]) ? medication[key].value : "";
+        return key === "name" ? (
+          <SuggestionInput
+            key={key}
+            aria-label={label}
+            placeholder={label}
+            value={value}
+            onChange={(next) => setDetail(key, next)}
+            suggestions={suggestDrugs}
+            className={INPUT_CLASS}
+          />
+        ) : (
+          <input
+            key={key}
+            type="text"
+            aria-label={label}
+            placeholder={label}
+            value={value}
+            onChange={(e) => setDetail(key, e.target.value)}
+            className={INPUT_CLASS}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Row editor for a patient's structured current medications list; rows
+ * are checked against the patient's species, weight and history
+ */
+export function createMedicationRow(patient: PatientReport): ListRowEditor<Medication> {
+  return {
+    render: (medication) => (
+      <MedicationSummary
+        medication={medication}
+        check={checkMedication(medication, patient)}
+      />
+    ),
+    edit: (medication, onChange) => (
+      <MedicationEditor medication={medication} onChange={onChange} />
+    ),
+    create: () =>
+      createMedication("", createConfidentField("", STAFF_SCORE).confidence),
+    isEmpty: (medication) => !isMentioned(medication.name),
+  };
+}
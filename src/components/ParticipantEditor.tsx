@@ -0,0 +1,110 @@
+import { useState } from "react";
+import type { Participant, ParticipantRole } from "../types/transcript";
+import { ROLE_LABELS, isClinicalStaff } from "../types/transcript";
+import { SpeakerBadge } from "./SpeakerBadge";
+
+interface ParticipantEditorProps {
+  participants: Participant[];
+  onChange: (participants: Participant[]) => void;
+  /** Disable editing (e.g. while recording) */
+  disabled?: boolean;
+}
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as ParticipantRole[];
+
+export function ParticipantEditor({
+  participants,
+  onChange,
+  disabled = false,
+}: ParticipantEditorProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const updateParticipant = (id: string, changes: Partial<Participant>) => {
+    onChange(participants.map((p) => (p.id === id ? { ...p, ...changes } : p)));
+  };
+
+  const addParticipant = () => {
+    onChange([
+      ...participants,
+      {
+        id: `p-${Date.now().toString(36)}`,
+        name: ROLE_LABELS.family,
+        role: "family",
+      },
+    ]);
+  };
+
+  const removeParticipant = (id: string) => {
+    onChange(participants.filter((p) => p.id !== id));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3"
+        aria-expanded={isExpanded}
+      >
+        <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+          Participants ({participants.length})
+        </span>
+        <span className="flex items-center -space-x-1">
+          {participants.map((p) => (
+            <SpeakerBadge key={p.id} participant={p} compact />
+          ))}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-2 border-t border-slate-200 dark:border-slate-700 pt-3">
+          {participants.map((p) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={p.name}
+                disabled={disabled}
+                onChange={(e) => updateParticipant(p.id, { name: e.target.value })}
+                className="flex-1 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                placeholder="Name"
+              />
+              <select
+                value={p.role}
+                disabled={disabled}
+                onChange={(e) =>
+                  updateParticipant(p.id, {
+                    role: e.target.value as ParticipantRole,
+                  })
+                }
+                className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                {ROLE_OPTIONS.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                    {isClinicalStaff(role) ? " (staff)" : ""}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => removeParticipant(p.id)}
+                disabled={disabled || participants.length <= 2}
+                className="px-2 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/30 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+                type="button"
+                aria-label={`Remove ${p.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addParticipant}
+            disabled={disabled}
+            className="text-xs px-2 py-1 text-teal-600 dark:text-teal-400 hover:bg-teal-50 dark:hover:bg-teal-900/30 rounded"
+            type="button"
+          >
+            + Add participant
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ interface RecordButtonProps {
   onStart: () => void;
   onStop: () => void;
   onReset?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
 export function RecordButton({
@@ -12,8 +14,11 @@ export function RecordButton({
   onStart,
   onStop,
   onReset,
+  onPause,
+  onResume,
 }: RecordButtonProps) {
   const isRecording = state === "recording";
+  const isPaused = state === "paused";
   const isProcessing = state === "processing";
   const isComplete = state === "complete";
   const isDisabled = isProcessing;
@@ -24,7 +29,7 @@ export function RecordButton({
       onReset();
       return;
     }
-    if (isRecording) {
+    if (isRecording || isPaused) {
       onStop();
     } else {
       onStart();
@@ -50,7 +55,7 @@ export function RecordButton({
           aria-label={
             isComplete
               ? "Start new recording"
-              : isRecording
+              : isRecording || isPaused
               ? "Stop recording"
               : "Start recording"
           }
@@ -67,6 +72,8 @@ export function RecordButton({
             ${
               isRecording
                 ? "bg-red-500 hover:bg-red-600 focus:ring-red-300 dark:focus:ring-red-500/50"
+                : isPaused
+                ? "bg-red-400 hover:bg-red-500 focus:ring-red-300 dark:focus:ring-red-500/50"
                 : isProcessing
                 ? "bg-amber-500 cursor-not-allowed"
                 : isComplete
@@ -77,7 +84,7 @@ export function RecordButton({
         >
           {isProcessing ? (
             <ProcessingSpinner />
-          ) : isRecording ? (
+          ) : isRecording || isPaused ? (
             <StopIcon />
           ) : isComplete ? (
             <RestartIcon />
@@ -87,10 +94,30 @@ export function RecordButton({
         </button>
       </div>
 
+      {/* Pause / resume within the same visit */}
+      {isRecording && onPause && (
+        <button
+          onClick={onPause}
+          className="px-4 py-1.5 text-sm font-medium rounded-lg bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 transition-colors"
+        >
+          Pause
+        </button>
+      )}
+      {isPaused && onResume && (
+        <button
+          onClick={onResume}
+          className="px-4 py-1.5 text-sm font-semibold rounded-lg bg-teal-600 hover:bg-teal-500 text-white shadow-sm transition-colors"
+        >
+          Resume
+        </button>
+      )}
+
       {/* Instruction text */}
       <p className="text-slate-500 dark:text-slate-400 text-sm font-medium">
         {isProcessing
           ? "Analyzing conversation..."
+          : isPaused
+          ? "Paused — resume to continue this visit, or tap to stop"
           : isRecording
           ? "Tap to stop recording"
           : isComplete
@@ -0,0 +1,63 @@
+import type { UnfinishedRecording } from "../services/sessionStorage";
+
+interface RecoveryBannerProps {
+  recording: UnfinishedRecording;
+  /** Whether recovery (and transcript rebuilding) is running */
+  isRecovering: boolean;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Offers to restore a recording that was interrupted by a crash or reload
+ */
+export function RecoveryBanner({
+  recording,
+  isRecovering,
+  onRecover,
+  onDiscard,
+}: RecoveryBannerProps) {
+  const { session, audioBlob } = recording;
+  const startedAt = session.recordingStartTime
+    ? new Date(session.recordingStartTime).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : null;
+  const details = [
+    audioBlob ? "audio" : null,
+    session.segments.length > 0
+      ? `${session.segments.length} transcript segment${session.segments.length === 1 ? "" : "s"}`
+      : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-xl shadow-sm p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-amber-800 dark:text-amber-300">
+          Unfinished recording found
+        </h3>
+        <p className="text-sm text-amber-700 dark:text-amber-400 mt-1">
+          A recording{startedAt ? ` started at ${startedAt}` : ""} was
+          interrupted before it was stopped. Recover its {details.join(" and ")}?
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={onRecover}
+          disabled={isRecovering}
+          className="px-3 py-1.5 text-sm font-semibold text-white bg-amber-600 hover:bg-amber-500 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRecovering ? "Recovering..." : "Recover Recording"}
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={isRecovering}
+          className="px-3 py-1.5 text-sm font-medium text-amber-700 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg transition-colors disabled:opacity-50"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import type { ReportMode } from "../types/soap";
+
+interface ReportModePickerProps {
+  /** What the AI writes from this session's transcript */
+  mode: ReportMode;
+  onChange: (mode: ReportMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_OPTIONS: { mode: ReportMode; label: string }[] = [
+  { mode: "intake", label: "Intake report" },
+  { mode: "soap", label: "SOAP note" },
+];
+
+export function ReportModePicker({
+  mode,
+  onChange,
+  disabled = false,
+}: ReportModePickerProps) {
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-wrap items-center justify-between gap-3 bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700 px-4 py-3">
+      <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+        Output
+      </span>
+      <div
+        role="radiogroup"
+        aria-label="Output"
+        className="inline-flex rounded-lg bg-slate-100 dark:bg-slate-700 p-0.5"
+      >
+        {MODE_OPTIONS.map((option) => (
+          <button
+            key={option.mode}
+            type="button"
+            role="radio"
+            aria-checked={mode === option.mode}
+            disabled={disabled}
+            onClick={() => onChange(option.mode)}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors disabled:opacity-50 ${
+              mode === option.mode
+                ? "bg-white text-teal-700 shadow-sm dark:bg-slate-800 dark:text-teal-400"
+                : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
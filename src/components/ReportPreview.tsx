@@ -1,19 +1,60 @@
-import { useEffect, useMemo } from "react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
 import type {
   IntakeReport,
+  PatientReport,
   ConfidentField,
   ConfidenceMetadata,
+  DifferentialDiagnosis,
+  DifferentialLikelihood,
+  FieldEvidence,
+  Measurement,
+  VitalSignKey,
+  VitalSigns,
+  WeightUnit,
+  FieldExtractionResponse,
 } from "../types/report";
 import type { Visit } from "../types/visit";
 import { DownloadButton } from "./DownloadButton";
 import { EditableField } from "./EditableField";
 import { EditableList } from "./EditableList";
+import { createMedicationRow } from "./MedicationRow";
 import {
   ConfidenceIndicator,
   ConfidenceLegend,
   ConfidenceBar,
 } from "./ConfidenceIndicator";
+import { EvidenceLinks } from "./EvidenceLinks";
+import { WeightUnitToggle } from "./WeightUnitToggle";
 import { useEditableReport } from "../hooks/useEditableReport";
+import {
+  DEFAULT_WEIGHT_UNIT,
+  getPatientLabel,
+  VITAL_SIGN_FIELDS,
+} from "../types/report";
+import {
+  getReportFieldLabel,
+  patientFieldPath,
+} from "../utils/reportSchema";
+import { isMentioned } from "../utils/reportMerge";
+import {
+  checkVitalSign,
+  formatMeasurement,
+  parseMeasurement,
+} from "../utils/vitalSigns";
+import {
+  formatAge,
+  formatWeight,
+  parseAge,
+  parseWeight,
+} from "../utils/normalization";
+import { suggestBreeds, suggestSpecies } from "../utils/taxonomy";
 
 interface ReportPreviewProps {
   report: IntakeReport;
@@ -23,30 +64,132 @@ interface ReportPreviewProps {
   visit?: Visit | null;
   /** Called when user wants to share summary with owner */
   onShareSummary?: () => void;
+  /** Show the transcript segment a field was extracted from */
+  onEvidenceClick?: (evidence: FieldEvidence) => void;
+  /** Extract one field again from the transcript (edited fields are kept) */
+  onRegenerateField?: (path: string) => Promise<FieldExtractionResponse>;
+  /** Called once a regenerated field has replaced the old one */
+  onFieldRegenerated?: (path: string, field: ConfidentField<unknown>) => void;
+  /**
+   * Set while the report is still streaming in: these fields show a
+   * skeleton, and editing, sharing and download are unavailable
+   */
+  pendingFields?: string[];
+  /** Unit weights are converted to (clinic preference) */
+  weightUnit?: WeightUnit;
+  onWeightUnitChange?: (unit: WeightUnit) => void;
 }
 
+interface FieldActions {
+  onEvidenceClick?: (evidence: FieldEvidence) => void;
+  onRegenerate?: (path: string) => void;
+  /** Field currently being regenerated (one at a time) */
+  regeneratingField: string | null;
+  isEdited: (path: string) => boolean;
+}
+
+// Gives every field's confidence indicator its evidence and regenerate actions
+const FieldActionsContext = createContext<FieldActions>({
+  regeneratingField: null,
+  isEdited: () => false,
+});
+
 export function ReportPreview({
   report: initialReport,
   onReportEdit,
   visit,
   onShareSummary,
+  onEvidenceClick,
+  onRegenerateField,
+  onFieldRegenerated,
+  pendingFields,
+  weightUnit = DEFAULT_WEIGHT_UNIT,
+  onWeightUnitChange,
 }: ReportPreviewProps) {
-  const { report, isEdited, updateField, hasEdits, resetEdits } =
-    useEditableReport(initialReport);
+  const {
+    report: editedReport,
+    isEdited,
+    updateField,
+    replaceGeneratedField,
+    hasEdits,
+    resetEdits,
+  } = useEditableReport(initialReport);
+  const [regeneratingField, setRegeneratingField] = useState<string | null>(
+    null
+  );
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
 
-  // Calculate overall confidence score
+  // Edits only start once the report is complete, so show each update as is
+  const isGenerating = pendingFields !== undefined;
+  const report = isGenerating ? initialReport : editedReport;
+  const isPending = (path: string) =>
+    !!pendingFields?.includes(path) || path === regeneratingField;
+
+  const handleRegenerate = useCallback(
+    async (path: string) => {
+      if (!onRegenerateField || regeneratingField) return;
+      setRegeneratingField(path);
+      setRegenerateError(null);
+      try {
+        const result = await onRegenerateField(path);
+        const label = getReportFieldLabel(path, report.patients);
+        if (!result.success) {
+          setRegenerateError(`Couldn't regenerate ${label}: ${result.error}`);
+        } else if (replaceGeneratedField(path, result.field)) {
+          onFieldRegenerated?.(path, result.field);
+        } else {
+          // Edited while the model was working: the vet's value wins
+          setRegenerateError(`Kept your edit to ${label}.`);
+        }
+      } finally {
+        setRegeneratingField(null);
+      }
+    },
+    [
+      onRegenerateField,
+      onFieldRegenerated,
+      regeneratingField,
+      replaceGeneratedField,
+      report,
+    ]
+  );
+
+  const fieldActions = useMemo<FieldActions>(
+    () => ({
+      onEvidenceClick,
+      onRegenerate:
+        onRegenerateField && !isGenerating ? handleRegenerate : undefined,
+      regeneratingField,
+      isEdited,
+    }),
+    [
+      onEvidenceClick,
+      onRegenerateField,
+      isGenerating,
+      handleRegenerate,
+      regeneratingField,
+      isEdited,
+    ]
+  );
+
+  // Calculate overall confidence score (across every pet)
   const overallConfidence = useMemo(() => {
-    const scores = [
-      report.patient.name.confidence.score,
-      report.patient.species.confidence.score,
-      report.chiefComplaint.confidence.score,
-      report.symptoms.confidence.score,
-      report.severity.confidence.score,
-      report.assessment.confidence.score,
-    ];
+    const scores = report.patients.flatMap((patient) => [
+      patient.patient.name.confidence.score,
+      patient.patient.species.confidence.score,
+      patient.chiefComplaint.confidence.score,
+      patient.symptoms.confidence.score,
+      patient.severity.confidence.score,
+      patient.assessment.confidence.score,
+    ]);
     return scores.reduce((a, b) => a + b, 0) / scores.length;
   }, [report]);
 
+  // With one pet its urgency sits in the header; otherwise on each pet
+  const singlePatient =
+    report.patients.length === 1 ? report.patients[0] : undefined;
+  const singleUrgencyPath = patientFieldPath(0, "urgencyLevel");
+
   // Notify parent when report is edited
   useEffect(() => {
     if (hasEdits && onReportEdit) {
@@ -55,125 +198,262 @@ export function ReportPreview({
   }, [report, hasEdits, onReportEdit]);
 
   return (
-    <div className="w-full max-w-2xl mx-auto space-y-4">
-      {/* Header with urgency and download */}
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
-        <div className="flex items-center gap-3">
-          <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">Intake Report</h2>
-          <UrgencyBadge
-            level={report.urgencyLevel.value}
-            confidence={report.urgencyLevel.confidence}
-          />
-          {hasEdits && (
-            <button
-              onClick={resetEdits}
-              className="text-xs px-2.5 py-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md font-medium transition-colors"
-            >
-              Reset edits
-            </button>
-          )}
-        </div>
-        <div className="flex items-center gap-2">
-          {visit && onShareSummary && visit.status !== "shared" && (
-            <button
-              onClick={onShareSummary}
-              disabled={!report}
-              className={`px-4 py-2 text-sm font-semibold rounded-lg transition-all shadow-sm ${
-                !report
-                  ? "bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-500"
-                  : "text-white bg-purple-600 hover:bg-purple-500 hover:shadow-md"
-              }`}
-              title={
-                !report
-                  ? "Generate report first to share"
-                  : "Share summary with owner"
-              }
-            >
-              Share with Owner
-            </button>
-          )}
-          {visit && visit.status === "shared" && (
-            <span className="px-4 py-2 text-sm font-semibold text-purple-700 bg-purple-100 dark:bg-purple-900/50 dark:text-purple-300 rounded-lg">
-              Shared
+    <FieldActionsContext.Provider value={fieldActions}>
+      <div
+        className={`w-full max-w-2xl mx-auto space-y-4 ${isGenerating ? "pointer-events-none" : ""}`}
+        aria-busy={isGenerating}
+      >
+        {/* Header with urgency and download */}
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">Intake Report</h2>
+            {singlePatient &&
+              (isPending(singleUrgencyPath) ? (
+                <InlineSkeleton className="h-8 w-28 rounded-full" />
+              ) : (
+                <UrgencyBadge
+                  level={singlePatient.urgencyLevel.value}
+                  confidence={singlePatient.urgencyLevel.confidence}
+                  path={singleUrgencyPath}
+                />
+              ))}
+            {hasEdits && !isGenerating && (
+              <button
+                onClick={resetEdits}
+                className="text-xs px-2.5 py-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md font-medium transition-colors"
+              >
+                Reset edits
+              </button>
+            )}
+          </div>
+          {isGenerating ? (
+            <span className="flex items-center gap-2 text-sm font-medium text-teal-700 dark:text-teal-400">
+              <span className="w-2 h-2 rounded-full bg-teal-500 animate-pulse" />
+              Generating report...
             </span>
+          ) : (
+            <div className="flex items-center gap-2">
+              {visit && onShareSummary && visit.status !== "shared" && (
+                <button
+                  onClick={onShareSummary}
+                  disabled={!report}
+                  className={`px-4 py-2 text-sm font-semibold rounded-lg transition-all shadow-sm ${
+                    !report
+                      ? "bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-500"
+                      : "text-white bg-purple-600 hover:bg-purple-500 hover:shadow-md"
+                  }`}
+                  title={
+                    !report
+                      ? "Generate report first to share"
+                      : "Share summary with owner"
+                  }
+                >
+                  Share with Owner
+                </button>
+              )}
+              {visit && visit.status === "shared" && (
+                <span className="px-4 py-2 text-sm font-semibold text-purple-700 bg-purple-100 dark:bg-purple-900/50 dark:text-purple-300 rounded-lg">
+                  Shared
+                </span>
+              )}
+              <DownloadButton report={report} weightUnit={weightUnit} />
+            </div>
           )}
-          <DownloadButton report={report} />
         </div>
-      </div>
 
-      {/* Confidence overview */}
-      <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl p-4 space-y-3 border border-slate-200 dark:border-slate-700">
-        <ConfidenceBar score={overallConfidence} label="Overall Confidence" />
-        <ConfidenceLegend />
+        {/* Confidence overview and edit instructions (once complete) */}
+        {!isGenerating && (
+          <>
+            <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl p-4 space-y-3 border border-slate-200 dark:border-slate-700">
+              <ConfidenceBar score={overallConfidence} label="Overall Confidence" />
+              <ConfidenceLegend />
+              {onWeightUnitChange && (
+                <WeightUnitToggle
+                  unit={weightUnit}
+                  onChange={onWeightUnitChange}
+                />
+              )}
+            </div>
+
+            <p className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800/50 px-4 py-2.5 rounded-lg border border-slate-200 dark:border-slate-700">
+              Click any field to edit. Hover over indicators to see AI confidence
+              notes{onEvidenceClick ? "; click a blue link to see where it was said" : ""}
+              {onRegenerateField ? "; click ↻ to extract a field again" : ""}.
+            </p>
+          </>
+        )}
+
+        {regenerateError && (
+          <p className="text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 px-4 py-2.5 rounded-lg border border-red-200 dark:border-red-700/50">
+            {regenerateError}
+          </p>
+        )}
+
+        {/* Owner Info Card */}
+        <Card title="Owner Information">
+          <InfoGrid>
+            <ConfidentInfoItem
+              label="Name"
+              field={report.owner.name}
+              isEdited={isEdited("owner.name")}
+              onSave={(v) => updateField("owner.name", v)}
+              pending={isPending("owner.name")}
+              path="owner.name"
+            />
+            <ConfidentInfoItem
+              label="Phone"
+              field={report.owner.phone}
+              isEdited={isEdited("owner.phone")}
+              onSave={(v) => updateField("owner.phone", v)}
+              pending={isPending("owner.phone")}
+              path="owner.phone"
+            />
+            <ConfidentInfoItem
+              label="Email"
+              field={report.owner.email}
+              isEdited={isEdited("owner.email")}
+              onSave={(v) => updateField("owner.email", v)}
+              pending={isPending("owner.email")}
+              path="owner.email"
+            />
+          </InfoGrid>
+        </Card>
+
+        {report.patients.map((patient, index) => (
+          <PatientSection
+            key={index}
+            patient={patient}
+            index={index}
+            showHeading={!singlePatient}
+            isEdited={isEdited}
+            updateField={updateField}
+            isPending={isPending}
+            hasEdits={hasEdits}
+            weightUnit={weightUnit}
+          />
+        ))}
+
+        {/* Bottom download button for mobile */}
+        {!isGenerating && (
+          <div className="pt-6 pb-2">
+            <DownloadButton report={report} weightUnit={weightUnit} />
+            {hasEdits && (
+              <p className="text-center text-xs text-slate-500 dark:text-slate-400 mt-3">
+                PDF will include your edits
+              </p>
+            )}
+          </div>
+        )}
       </div>
+    </FieldActionsContext.Provider>
+  );
+}
 
-      {/* Edit instructions */}
-      <p className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800/50 px-4 py-2.5 rounded-lg border border-slate-200 dark:border-slate-700">
-        Click any field to edit. Hover over indicators to see AI confidence notes.
-      </p>
+/**
+ * One pet's part of the report; with several pets it opens with the
+ * pet's name and urgency
+ */
+function PatientSection({
+  patient,
+  index,
+  showHeading,
+  isEdited,
+  updateField,
+  isPending,
+  hasEdits,
+  weightUnit,
+}: {
+  patient: PatientReport;
+  index: number;
+  showHeading: boolean;
+  isEdited: (path: string) => boolean;
+  updateField: (path: string, value: unknown) => void;
+  isPending: (path: string) => boolean;
+  hasEdits: boolean;
+  weightUnit: WeightUnit;
+}) {
+  const path = (field: string) => patientFieldPath(index, field);
+  const weight = parseWeight(patient.patient.weight.value);
+  const age = parseAge(patient.patient.age.value);
+  const vitalSignPaths = Object.keys(patient.vitalSigns).map((key) =>
+    path(`vitalSigns.${key}`)
+  );
+
+  return (
+    <section className="space-y-4">
+      {showHeading && (
+        <div className="flex items-center gap-3 pt-2 border-t border-slate-200 dark:border-slate-700">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">
+            {getPatientLabel(patient, index)}
+          </h3>
+          {isPending(path("urgencyLevel")) ? (
+            <InlineSkeleton className="h-8 w-28 rounded-full" />
+          ) : (
+            <UrgencyBadge
+              level={patient.urgencyLevel.value}
+              confidence={patient.urgencyLevel.confidence}
+              path={path("urgencyLevel")}
+            />
+          )}
+        </div>
+      )}
 
       {/* Patient Info Card */}
       <Card title="Patient Information">
         <InfoGrid>
           <ConfidentInfoItem
             label="Name"
-            field={report.patient.name}
-            isEdited={isEdited("patient.name")}
-            onSave={(v) => updateField("patient.name", v)}
+            field={patient.patient.name}
+            isEdited={isEdited(path("patient.name"))}
+            onSave={(v) => updateField(path("patient.name"), v)}
+            pending={isPending(path("patient.name"))}
+            path={path("patient.name")}
           />
           <ConfidentInfoItem
             label="Species"
-            field={report.patient.species}
-            isEdited={isEdited("patient.species")}
-            onSave={(v) => updateField("patient.species", v)}
+            field={patient.patient.species}
+            isEdited={isEdited(path("patient.species"))}
+            onSave={(v) => updateField(path("patient.species"), v)}
+            pending={isPending(path("patient.species"))}
+            path={path("patient.species")}
+            suggestions={suggestSpecies}
           />
           <ConfidentInfoItem
             label="Breed"
-            field={report.patient.breed}
-            isEdited={isEdited("patient.breed")}
-            onSave={(v) => updateField("patient.breed", v)}
+            field={patient.patient.breed}
+            isEdited={isEdited(path("patient.breed"))}
+            onSave={(v) => updateField(path("patient.breed"), v)}
+            pending={isPending(path("patient.breed"))}
+            path={path("patient.breed")}
+            suggestions={(query) =>
+              suggestBreeds(query, patient.patient.species.value)
+            }
           />
           <ConfidentInfoItem
             label="Age"
-            field={report.patient.age}
-            isEdited={isEdited("patient.age")}
-            onSave={(v) => updateField("patient.age", v)}
+            field={patient.patient.age}
+            isEdited={isEdited(path("patient.age"))}
+            onSave={(v) => updateField(path("patient.age"), v)}
+            pending={isPending(path("patient.age"))}
+            path={path("patient.age")}
+            hint={age ? formatAge(age) : undefined}
           />
           <ConfidentInfoItem
             label="Weight"
-            field={report.patient.weight}
-            isEdited={isEdited("patient.weight")}
-            onSave={(v) => updateField("patient.weight", v)}
+            field={patient.patient.weight}
+            isEdited={isEdited(path("patient.weight"))}
+            onSave={(v) => updateField(path("patient.weight"), v)}
+            pending={isPending(path("patient.weight"))}
+            path={path("patient.weight")}
+            hint={weight ? formatWeight(weight, weightUnit) : undefined}
           />
           <ConfidentInfoItem
             label="Sex"
-            field={report.patient.sex}
-            isEdited={isEdited("patient.sex")}
-            onSave={(v) => updateField("patient.sex", v)}
-          />
-        </InfoGrid>
-      </Card>
-
-      {/* Owner Info Card */}
-      <Card title="Owner Information">
-        <InfoGrid>
-          <ConfidentInfoItem
-            label="Name"
-            field={report.owner.name}
-            isEdited={isEdited("owner.name")}
-            onSave={(v) => updateField("owner.name", v)}
-          />
-          <ConfidentInfoItem
-            label="Phone"
-            field={report.owner.phone}
-            isEdited={isEdited("owner.phone")}
-            onSave={(v) => updateField("owner.phone", v)}
-          />
-          <ConfidentInfoItem
-            label="Email"
-            field={report.owner.email}
-            isEdited={isEdited("owner.email")}
-            onSave={(v) => updateField("owner.email", v)}
+            field={patient.patient.sex}
+            isEdited={isEdited(path("patient.sex"))}
+            onSave={(v) => updateField(path("patient.sex"), v)}
+            pending={isPending(path("patient.sex"))}
+            path={path("patient.sex")}
           />
         </InfoGrid>
       </Card>
@@ -181,39 +461,67 @@ export function ReportPreview({
       {/* Chief Complaint */}
       <Card
         title="Chief Complaint"
-        confidence={report.chiefComplaint.confidence}
+        confidence={
+          isPending(path("chiefComplaint"))
+            ? undefined
+            : patient.chiefComplaint.confidence
+        }
+        path={path("chiefComplaint")}
       >
-        <EditableField
-          value={report.chiefComplaint.value}
-          onSave={(v) => updateField("chiefComplaint", v)}
-          isEdited={isEdited("chiefComplaint")}
-          multiline
-          className="text-slate-700"
-        />
-        <div className="mt-2 flex flex-wrap items-center gap-2">
-          <SeverityBadge
-            severity={report.severity.value}
-            confidence={report.severity.confidence}
+        {isPending(path("chiefComplaint")) ? (
+          <FieldSkeleton lines={2} />
+        ) : (
+          <EditableField
+            value={patient.chiefComplaint.value}
+            onSave={(v) => updateField(path("chiefComplaint"), v)}
+            isEdited={isEdited(path("chiefComplaint"))}
+            multiline
+            className="text-slate-700"
           />
+        )}
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {isPending(path("severity")) ? (
+            <InlineSkeleton className="h-6 w-20 rounded-md" />
+          ) : (
+            <SeverityBadge
+              severity={patient.severity.value}
+              confidence={patient.severity.confidence}
+              path={path("severity")}
+            />
+          )}
           <span className="text-sm text-slate-500 flex items-center gap-1">
             Duration:{" "}
-            <EditableField
-              value={report.duration.value}
-              onSave={(v) => updateField("duration", v)}
-              isEdited={isEdited("duration")}
-              className="inline text-sm"
-            />
-            <ConfidenceIndicator confidence={report.duration.confidence} />
+            {isPending(path("duration")) ? (
+              <InlineSkeleton className="h-4 w-24 rounded" />
+            ) : (
+              <>
+                <EditableField
+                  value={patient.duration.value}
+                  onSave={(v) => updateField(path("duration"), v)}
+                  isEdited={isEdited(path("duration"))}
+                  className="inline text-sm"
+                />
+                <FieldConfidence
+                  confidence={patient.duration.confidence}
+                  path={path("duration")}
+                />
+              </>
+            )}
           </span>
         </div>
       </Card>
 
       {/* Symptoms */}
-      <Card title="Symptoms" confidence={report.symptoms.confidence}>
+      <Card
+        title="Symptoms"
+        confidence={patient.symptoms.confidence}
+        path={path("symptoms")}
+        pending={isPending(path("symptoms"))}
+      >
         <EditableList
-          items={report.symptoms.value}
-          onSave={(v) => updateField("symptoms", v)}
-          isEdited={isEdited("symptoms")}
+          items={patient.symptoms.value}
+          onSave={(v) => updateField(path("symptoms"), v)}
+          isEdited={isEdited(path("symptoms"))}
           placeholder="No symptoms recorded"
         />
       </Card>
@@ -221,110 +529,221 @@ export function ReportPreview({
       {/* Medical History */}
       <Card
         title="Medical History"
-        confidence={report.medicalHistory.confidence}
+        confidence={patient.medicalHistory.confidence}
+        path={path("medicalHistory")}
+        pending={isPending(path("medicalHistory"))}
       >
         <EditableField
-          value={report.medicalHistory.value}
-          onSave={(v) => updateField("medicalHistory", v)}
-          isEdited={isEdited("medicalHistory")}
+          value={patient.medicalHistory.value}
+          onSave={(v) => updateField(path("medicalHistory"), v)}
+          isEdited={isEdited(path("medicalHistory"))}
           multiline
           className="text-slate-700"
         />
       </Card>
 
       {/* Medications & Allergies */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-        <Card
-          title="Current Medications"
-          confidence={report.currentMedications.confidence}
-        >
-          <EditableList
-            items={report.currentMedications.value}
-            onSave={(v) => updateField("currentMedications", v)}
-            isEdited={isEdited("currentMedications")}
-            placeholder="None"
-          />
-        </Card>
-        <Card title="Allergies" confidence={report.allergies.confidence}>
-          <EditableList
-            items={report.allergies.value}
-            onSave={(v) => updateField("allergies", v)}
-            isEdited={isEdited("allergies")}
-            placeholder="None known"
-          />
-        </Card>
-      </div>
+      <Card
+        title="Current Medications"
+        confidence={patient.currentMedications.confidence}
+        path={path("currentMedications")}
+        pending={isPending(path("currentMedications"))}
+      >
+        <EditableList
+          items={patient.currentMedications.value}
+          onSave={(v) => updateField(path("currentMedications"), v)}
+          isEdited={isEdited(path("currentMedications"))}
+          placeholder="None"
+          row={createMedicationRow(patient)}
+        />
+      </Card>
+      <Card
+        title="Allergies"
+        confidence={patient.allergies.confidence}
+        path={path("allergies")}
+        pending={isPending(path("allergies"))}
+      >
+        <EditableList
+          items={patient.allergies.value}
+          onSave={(v) => updateField(path("allergies"), v)}
+          isEdited={isEdited(path("allergies"))}
+          placeholder="None known"
+        />
+      </Card>
 
       {/* Vital Signs */}
-      {report.vitalSigns.value &&
-        report.vitalSigns.value !== "Not mentioned" &&
-        report.vitalSigns.value !== "Not recorded" && (
-          <Card title="Vital Signs" confidence={report.vitalSigns.confidence}>
-            <EditableField
-              value={report.vitalSigns.value}
-              onSave={(v) => updateField("vitalSigns", v)}
-              isEdited={isEdited("vitalSigns")}
-              className="text-slate-700"
-            />
-          </Card>
-        )}
+      {(vitalSignPaths.some(isPending) ||
+        Object.values(patient.vitalSigns).some(isMentioned) ||
+        hasEdits) && (
+        <Card title="Vital Signs">
+          <InfoGrid>
+            {VITAL_SIGN_FIELDS.map(({ key, label }) => (
+              <VitalSignItem
+                key={key}
+                label={label}
+                vitalKey={key}
+                vitalSigns={patient.vitalSigns}
+                species={patient.patient.species.value}
+                path={path(`vitalSigns.${key}`)}
+                isEdited={isEdited(path(`vitalSigns.${key}`))}
+                onSave={(v) => updateField(path(`vitalSigns.${key}`), v)}
+                pending={isPending(path(`vitalSigns.${key}`))}
+              />
+            ))}
+          </InfoGrid>
+          {(isMentioned(patient.vitalSigns.other) ||
+            isPending(path("vitalSigns.other"))) && (
+            <div className="mt-3">
+              <ConfidentInfoItem
+                label="Other"
+                field={patient.vitalSigns.other}
+                isEdited={isEdited(path("vitalSigns.other"))}
+                onSave={(v) => updateField(path("vitalSigns.other"), v)}
+                path={path("vitalSigns.other")}
+                pending={isPending(path("vitalSigns.other"))}
+              />
+            </div>
+          )}
+        </Card>
+      )}
 
       {/* Assessment */}
       <Card
         title="Clinical Assessment"
         highlight
-        confidence={report.assessment.confidence}
+        confidence={patient.assessment.confidence}
+        path={path("assessment")}
+        pending={isPending(path("assessment"))}
       >
         <EditableField
-          value={report.assessment.value}
-          onSave={(v) => updateField("assessment", v)}
-          isEdited={isEdited("assessment")}
+          value={patient.assessment.value}
+          onSave={(v) => updateField(path("assessment"), v)}
+          isEdited={isEdited(path("assessment"))}
           multiline
           className="text-slate-700"
         />
       </Card>
 
+      {/* Differential Diagnoses (decision support) */}
+      {(isPending(path("differentials")) ||
+        (patient.differentials && patient.differentials.value.length > 0)) && (
+        <Card
+          title="Differential Diagnoses"
+          badge="Decision support"
+          confidence={patient.differentials?.confidence}
+          path={path("differentials")}
+          pending={isPending(path("differentials"))}
+        >
+          <DifferentialList
+            differentials={patient.differentials?.value ?? []}
+            onDismiss={(i) =>
+              updateField(
+                path("differentials"),
+                patient.differentials?.value.filter((_, j) => j !== i)
+              )
+            }
+            isEdited={isEdited(path("differentials"))}
+          />
+        </Card>
+      )}
+
       {/* Recommended Actions */}
       <Card
         title="Recommended Actions"
-        confidence={report.recommendedActions.confidence}
+        confidence={patient.recommendedActions.confidence}
+        path={path("recommendedActions")}
+        pending={isPending(path("recommendedActions"))}
       >
         <EditableList
-          items={report.recommendedActions.value}
-          onSave={(v) => updateField("recommendedActions", v)}
-          isEdited={isEdited("recommendedActions")}
+          items={patient.recommendedActions.value}
+          onSave={(v) => updateField(path("recommendedActions"), v)}
+          isEdited={isEdited(path("recommendedActions"))}
           ordered
           placeholder="No actions specified"
         />
       </Card>
 
       {/* Notes */}
-      {(report.notes.value &&
-        report.notes.value !== "Not mentioned" &&
-        report.notes.value !== "") ||
-      hasEdits ? (
-        <Card title="Additional Notes" confidence={report.notes.confidence}>
+      {(patient.notes.value &&
+        patient.notes.value !== "Not mentioned" &&
+        patient.notes.value !== "") ||
+      hasEdits ||
+      isPending(path("notes")) ? (
+        <Card
+          title="Additional Notes"
+          confidence={patient.notes.confidence}
+          path={path("notes")}
+          pending={isPending(path("notes"))}
+        >
           <EditableField
-            value={report.notes.value || ""}
-            onSave={(v) => updateField("notes", v)}
-            isEdited={isEdited("notes")}
+            value={patient.notes.value || ""}
+            onSave={(v) => updateField(path("notes"), v)}
+            isEdited={isEdited(path("notes"))}
             multiline
             className="text-slate-700"
             placeholder="Add notes..."
           />
         </Card>
       ) : null}
+    </section>
+  );
+}
 
-      {/* Bottom download button for mobile */}
-      <div className="pt-6 pb-2">
-        <DownloadButton report={report} />
-        {hasEdits && (
-          <p className="text-center text-xs text-slate-500 dark:text-slate-400 mt-3">
-            PDF will include your edits
-          </p>
-        )}
-      </div>
-    </div>
+/**
+ * Confidence indicator plus links to the supporting transcript segments
+ * and, for fields the vet hasn't edited, a button to extract it again
+ */
+function FieldConfidence({
+  confidence,
+  path,
+}: {
+  confidence: ConfidenceMetadata;
+  path?: string;
+}) {
+  const { onEvidenceClick, onRegenerate, regeneratingField, isEdited } =
+    useContext(FieldActionsContext);
+  return (
+    <>
+      <ConfidenceIndicator confidence={confidence} />
+      <EvidenceLinks
+        evidence={confidence.evidence}
+        onSelect={onEvidenceClick}
+      />
+      {path && onRegenerate && !isEdited(path) && (
+        <button
+          type="button"
+          onClick={(e) => {
+            // Don't start editing the field the button sits in
+            e.stopPropagation();
+            onRegenerate(path);
+          }}
+          disabled={regeneratingField !== null}
+          title={`Extract ${getReportFieldLabel(path).toLowerCase()} again from the transcript`}
+          aria-label={`Regenerate ${getReportFieldLabel(path)}`}
+          className="w-4 h-4 inline-flex items-center justify-center rounded text-slate-400 hover:text-teal-600 hover:bg-teal-50 dark:text-slate-500 dark:hover:text-teal-400 dark:hover:bg-teal-900/40 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <RegenerateIcon />
+        </button>
+      )}
+    </>
+  );
+}
+
+function RegenerateIcon() {
+  return (
+    <svg
+      className="w-3 h-3"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+      viewBox="0 0 24 24"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+      />
+    </svg>
   );
 }
 
@@ -332,12 +751,21 @@ function Card({
   title,
   children,
   highlight = false,
+  badge,
   confidence,
+  path,
+  pending = false,
 }: {
   title: string;
   children: React.ReactNode;
   highlight?: boolean;
+  /** Short label next to the title */
+  badge?: string;
   confidence?: ConfidenceMetadata;
+  /** Report field shown in the card (enables regenerating it) */
+  path?: string;
+  /** Content is still being generated */
+  pending?: boolean;
 }) {
   return (
     <div
@@ -351,12 +779,114 @@ function Card({
       `}
     >
       <div className="flex items-center justify-between mb-3">
-        <h3 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+        <h3 className="flex items-center gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
           {title}
+          {badge && (
+            <span className="px-1.5 py-0.5 rounded text-[10px] normal-case tracking-normal bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+              {badge}
+            </span>
+          )}
         </h3>
-        {confidence && <ConfidenceIndicator confidence={confidence} />}
+        {confidence && !pending && (
+          <span className="flex items-center gap-1">
+            <FieldConfidence confidence={confidence} path={path} />
+          </span>
+        )}
       </div>
-      {children}
+      {pending ? <FieldSkeleton lines={2} /> : children}
+    </div>
+  );
+}
+
+const LIKELIHOOD_STYLES: Record<DifferentialLikelihood, string> = {
+  high: "bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-300",
+  moderate:
+    "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+  low: "bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300",
+};
+
+/**
+ * Ranked candidate conditions with the findings for and against each;
+ * the vet can dismiss ones that don't apply
+ */
+function DifferentialList({
+  differentials,
+  onDismiss,
+  isEdited,
+}: {
+  differentials: DifferentialDiagnosis[];
+  onDismiss: (index: number) => void;
+  isEdited: boolean;
+}) {
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-amber-700 dark:text-amber-400">
+        AI-suggested possibilities to consider, not a diagnosis. Confirm with
+        examination and diagnostics.
+        {isEdited && (
+          <span className="ml-1 text-slate-500 dark:text-slate-400">
+            (Edited)
+          </span>
+        )}
+      </p>
+      {differentials.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">All dismissed</p>
+      ) : (
+        <ol className="space-y-3">
+          {differentials.map((differential, i) => (
+            <li
+              key={`${i}-${differential.condition}`}
+              className="rounded-lg border border-slate-200 dark:border-slate-700 p-3"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-slate-800 dark:text-slate-100">
+                  {i + 1}. {differential.condition}
+                </span>
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${LIKELIHOOD_STYLES[differential.likelihood]}`}
+                >
+                  {differential.likelihood}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => onDismiss(i)}
+                  title="Dismiss this differential"
+                  aria-label={`Dismiss ${differential.condition}`}
+                  className="ml-auto text-xs text-slate-400 hover:text-rose-600 dark:text-slate-500 dark:hover:text-rose-400 transition-colors"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <dl className="mt-2 space-y-1 text-sm">
+                <FindingList
+                  label="For"
+                  items={differential.supportingFindings}
+                />
+                <FindingList
+                  label="Against"
+                  items={differential.contradictingFindings}
+                />
+                <FindingList
+                  label="Tests"
+                  items={differential.suggestedDiagnostics}
+                />
+              </dl>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+function FindingList({ label, items }: { label: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div className="flex gap-2">
+      <dt className="w-14 shrink-0 text-slate-500 dark:text-slate-400">
+        {label}
+      </dt>
+      <dd className="text-slate-700 dark:text-slate-300">{items.join("; ")}</dd>
     </div>
   );
 }
@@ -374,35 +904,171 @@ function ConfidentInfoItem({
   field,
   isEdited,
   onSave,
+  path,
+  pending = false,
+  hint,
+  suggestions,
 }: {
   label: string;
   field: ConfidentField<string>;
   isEdited: boolean;
   onSave: (value: string) => void;
+  path: string;
+  pending?: boolean;
+  /** Normalized value shown under the original, e.g. "34.0 kg" */
+  hint?: string;
+  /** Autocomplete values for the field, e.g. taxonomy breeds */
+  suggestions?: (query: string) => string[];
 }) {
   return (
     <div>
       <div className="flex items-center gap-1">
         <span className="text-xs text-slate-500 dark:text-slate-400">{label}</span>
-        <ConfidenceIndicator confidence={field.confidence} />
+        {!pending && (
+          <FieldConfidence confidence={field.confidence} path={path} />
+        )}
       </div>
-      <EditableField
-        value={field.value || ""}
-        onSave={onSave}
-        isEdited={isEdited}
-        className="text-slate-700 dark:text-slate-200 font-medium"
-        placeholder="—"
-      />
+      {pending ? (
+        <FieldSkeleton />
+      ) : (
+        <EditableField
+          value={field.value || ""}
+          onSave={onSave}
+          isEdited={isEdited}
+          className="text-slate-700 dark:text-slate-200 font-medium"
+          placeholder="—"
+          suggestions={suggestions}
+        />
+      )}
+      {hint && !pending && (
+        <span className="text-xs text-slate-400 dark:text-slate-500">
+          {hint}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One vital sign, flagged when it is outside the reference range for
+ * the species
+ */
+function VitalSignItem({
+  label,
+  vitalKey,
+  vitalSigns,
+  species,
+  path,
+  isEdited,
+  onSave,
+  pending,
+}: {
+  label: string;
+  vitalKey: Exclude<VitalSignKey, "other">;
+  vitalSigns: VitalSigns;
+  species: string;
+  path: string;
+  isEdited: boolean;
+  onSave: (value: Measurement | string | null) => void;
+  pending: boolean;
+}) {
+  const field = vitalSigns[vitalKey];
+  const check = checkVitalSign(vitalKey, vitalSigns, species);
+  const isFlagged = check !== null && check.status !== "normal";
+
+  const text =
+    vitalKey === "mucousMembranes"
+      ? isMentioned(vitalSigns.mucousMembranes)
+        ? vitalSigns.mucousMembranes.value
+        : ""
+      : formatMeasurement(vitalSigns[vitalKey].value);
+
+  const handleSave = (value: string) => {
+    if (vitalKey === "mucousMembranes") {
+      onSave(value.trim() || "Not mentioned");
+      return;
+    }
+    const measurement = parseMeasurement(
+      value,
+      vitalKey,
+      vitalSigns[vitalKey].value?.unit
+    );
+    // Not a number: keep the current value
+    if (measurement !== undefined) onSave(measurement);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-slate-500 dark:text-slate-400">{label}</span>
+        {!pending && (
+          <FieldConfidence confidence={field.confidence} path={path} />
+        )}
+      </div>
+      {pending ? (
+        <FieldSkeleton />
+      ) : (
+        <>
+          <EditableField
+            value={text}
+            onSave={handleSave}
+            isEdited={isEdited}
+            className={`font-medium ${
+              isFlagged
+                ? "text-red-700 dark:text-red-400"
+                : "text-slate-700 dark:text-slate-200"
+            }`}
+            placeholder="—"
+          />
+          {isFlagged && (
+            <span
+              className="inline-flex items-center gap-1 mt-0.5 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+              title={`Reference range for this species: ${check.range}`}
+            >
+              {check.status} · ref {check.range}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Placeholder bars for a field that is still being generated
+ */
+function FieldSkeleton({ lines = 1 }: { lines?: number }) {
+  return (
+    <div className="space-y-2 py-1 animate-pulse" aria-hidden="true">
+      {Array.from({ length: lines }, (_, i) => (
+        <div
+          key={i}
+          className={`h-4 rounded bg-slate-200 dark:bg-slate-700 ${
+            lines > 1 && i === lines - 1 ? "w-2/3" : "w-full"
+          }`}
+        />
+      ))}
     </div>
   );
 }
 
+function InlineSkeleton({ className }: { className: string }) {
+  return (
+    <span
+      className={`inline-block animate-pulse bg-slate-200 dark:bg-slate-700 ${className}`}
+      aria-hidden="true"
+    />
+  );
+}
+
 function UrgencyBadge({
   level,
   confidence,
+  path,
 }: {
   level: 1 | 2 | 3 | 4 | 5;
   confidence: ConfidenceMetadata;
+  path: string;
 }) {
   const config: Record<number, { label: string; className: string }> = {
     1: { label: "Routine", className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300" },
@@ -423,7 +1089,7 @@ function UrgencyBadge({
     return (
       <span className="px-3 py-1.5 rounded-full text-sm font-semibold inline-flex items-center gap-1.5 bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
         Unknown
-        <ConfidenceIndicator confidence={confidence} />
+        <FieldConfidence confidence={confidence} path={path} />
       </span>
     );
   }
@@ -435,7 +1101,7 @@ function UrgencyBadge({
       className={`px-3 py-1.5 rounded-full text-sm font-semibold inline-flex items-center gap-1.5 shadow-sm ${className}`}
     >
       {label} ({level}/5)
-      <ConfidenceIndicator confidence={confidence} />
+      <FieldConfidence confidence={confidence} path={path} />
     </span>
   );
 }
@@ -443,9 +1109,11 @@ function UrgencyBadge({
 function SeverityBadge({
   severity,
   confidence,
+  path,
 }: {
   severity: "mild" | "moderate" | "severe" | "critical";
   confidence: ConfidenceMetadata;
+  path: string;
 }) {
   const config: Record<string, { className: string }> = {
     mild: { className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300" },
@@ -473,7 +1141,7 @@ function SeverityBadge({
     return (
       <span className="px-2.5 py-1 rounded-md text-xs font-medium capitalize inline-flex items-center gap-1 bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
         Unknown
-        <ConfidenceIndicator confidence={confidence} />
+        <FieldConfidence confidence={confidence} path={path} />
       </span>
     );
   }
@@ -485,7 +1153,7 @@ function SeverityBadge({
       className={`px-2.5 py-1 rounded-md text-xs font-semibold capitalize inline-flex items-center gap-1 ${className}`}
     >
       {severity}
-      <ConfidenceIndicator confidence={confidence} />
+      <FieldConfidence confidence={confidence} path={path} />
     </span>
   );
 }
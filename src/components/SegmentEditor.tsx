@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import type {
+  Participant,
+  Speaker,
+  TranscriptSegment,
+} from "../types/transcript";
+import { getParticipant } from "../types/transcript";
+import { SpeakerBadge } from "./SpeakerBadge";
+
+interface SegmentEditorProps {
+  segment: TranscriptSegment;
+  participants: Participant[];
+  /** Whether there is a following segment to merge with */
+  canMerge: boolean;
+  onTextChange: (text: string) => void;
+  onSpeakerChange: (speaker: Speaker) => void;
+  /** Split at a character offset of text (the current draft) */
+  onSplit: (offset: number, text: string) => void;
+  onMergeWithNext: () => void;
+}
+
+/**
+ * Edit controls for one transcript segment: text, speaker, split and merge
+ */
+export function SegmentEditor({
+  segment,
+  participants,
+  canMerge,
+  onTextChange,
+  onSpeakerChange,
+  onSplit,
+  onMergeWithNext,
+}: SegmentEditorProps) {
+  const [draft, setDraft] = useState(segment.text);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const participant = getParticipant(participants, segment.speaker);
+
+  // Pick up changes made outside the editor (split, merge, revert)
+  useEffect(() => {
+    setDraft(segment.text);
+  }, [segment.text]);
+
+  const commitDraft = () => {
+    const text = draft.trim();
+    if (text && text !== segment.text) {
+      onTextChange(text);
+    } else {
+      setDraft(segment.text);
+    }
+  };
+
+  const handleSplit = () => {
+    // Split the draft at the caret so unsaved edits are kept
+    onSplit(textareaRef.current?.selectionStart ?? 0, draft);
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-700/50 space-y-2">
+      <div className="flex items-center gap-2">
+        <SpeakerBadge participant={participant} compact />
+        <select
+          value={segment.speaker}
+          onChange={(e) => onSpeakerChange(e.target.value)}
+          className="px-2 py-1 text-xs border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500"
+          aria-label="Speaker"
+        >
+          {!participants.some((p) => p.id === segment.speaker) && (
+            <option value={segment.speaker}>{participant.name}</option>
+          )}
+          {participants.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <div className="ml-auto flex gap-1">
+          <button
+            type="button"
+            onClick={handleSplit}
+            className="text-xs px-2 py-1 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 rounded"
+            title="Split this segment at the cursor"
+          >
+            Split
+          </button>
+          <button
+            type="button"
+            onClick={onMergeWithNext}
+            disabled={!canMerge}
+            className="text-xs px-2 py-1 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-600 rounded disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Merge with the next segment"
+          >
+            Merge ↓
+          </button>
+        </div>
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        rows={Math.max(2, Math.ceil(draft.length / 70))}
+        className="w-full px-2 py-1.5 text-sm leading-relaxed border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-teal-500 resize-y"
+      />
+    </div>
+  );
+}
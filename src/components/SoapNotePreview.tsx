@@ -0,0 +1,123 @@
+import { useEffect, useMemo } from "react";
+import type { FieldEvidence } from "../types/report";
+import type { SoapNote } from "../types/soap";
+import { SOAP_SECTIONS } from "../types/soap";
+import { DownloadButton } from "./DownloadButton";
+import { EditableField } from "./EditableField";
+import {
+  ConfidenceIndicator,
+  ConfidenceLegend,
+  ConfidenceBar,
+} from "./ConfidenceIndicator";
+import { EvidenceLinks } from "./EvidenceLinks";
+import { useEditableReport } from "../hooks/useEditableReport";
+
+interface SoapNotePreviewProps {
+  note: SoapNote;
+  /** Called when user edits the note (for persistence) */
+  onNoteEdit?: (editedNote: SoapNote) => void;
+  /** Show the transcript segment a section was written from */
+  onEvidenceClick?: (evidence: FieldEvidence) => void;
+}
+
+/**
+ * Editable SOAP note with a confidence indicator per section
+ */
+export function SoapNotePreview({
+  note: initialNote,
+  onNoteEdit,
+  onEvidenceClick,
+}: SoapNotePreviewProps) {
+  const {
+    report: note,
+    isEdited,
+    updateField,
+    hasEdits,
+    resetEdits,
+  } = useEditableReport(initialNote);
+
+  const overallConfidence = useMemo(
+    () =>
+      SOAP_SECTIONS.reduce(
+        (sum, { key }) => sum + note[key].confidence.score,
+        0
+      ) / SOAP_SECTIONS.length,
+    [note]
+  );
+
+  // Notify parent when the note is edited
+  useEffect(() => {
+    if (hasEdits && onNoteEdit) {
+      onNoteEdit(note);
+    }
+  }, [note, hasEdits, onNoteEdit]);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100">SOAP Note</h2>
+          {hasEdits && (
+            <button
+              onClick={resetEdits}
+              className="text-xs px-2.5 py-1 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md font-medium transition-colors"
+            >
+              Reset edits
+            </button>
+          )}
+        </div>
+        <DownloadButton soapNote={note} />
+      </div>
+
+      <div className="bg-slate-50 dark:bg-slate-800/50 rounded-xl p-4 space-y-3 border border-slate-200 dark:border-slate-700">
+        <ConfidenceBar score={overallConfidence} label="Overall Confidence" />
+        <ConfidenceLegend />
+      </div>
+
+      <p className="text-xs text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800/50 px-4 py-2.5 rounded-lg border border-slate-200 dark:border-slate-700">
+        Click any section to edit. Hover over indicators to see AI confidence
+        notes{onEvidenceClick ? "; click a blue link to see where it was said" : ""}.
+      </p>
+
+      {SOAP_SECTIONS.map(({ key, label }) => (
+        <div
+          key={key}
+          className="rounded-xl p-5 shadow-sm border bg-white border-slate-200 dark:bg-slate-800 dark:border-slate-700"
+        >
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="flex items-center gap-2 text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+              <span className="w-6 h-6 inline-flex items-center justify-center rounded-md bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300 text-sm">
+                {label.charAt(0)}
+              </span>
+              {label}
+            </h3>
+            <span className="flex items-center gap-1">
+              <ConfidenceIndicator confidence={note[key].confidence} />
+              <EvidenceLinks
+                evidence={note[key].confidence.evidence}
+                onSelect={onEvidenceClick}
+              />
+            </span>
+          </div>
+          <EditableField
+            value={note[key].value}
+            onSave={(v) => updateField(key, v)}
+            isEdited={isEdited(key)}
+            multiline
+            className="text-slate-700 whitespace-pre-wrap"
+          />
+        </div>
+      ))}
+
+      {/* Bottom download button for mobile */}
+      <div className="pt-6 pb-2">
+        <DownloadButton soapNote={note} />
+        {hasEdits && (
+          <p className="text-center text-xs text-slate-500 dark:text-slate-400 mt-3">
+            PDF will include your edits
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import type { Participant, ParticipantRole } from "../types/transcript";
+
+const roleStyles: Record<
+  ParticipantRole,
+  { dot: string; pill: string; text: string; interimText: string }
+> = {
+  vet: {
+    dot: "bg-teal-500",
+    pill: "bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300",
+    text: "text-teal-800 dark:text-teal-300",
+    interimText: "text-teal-600 dark:text-teal-400",
+  },
+  "vet-tech": {
+    dot: "bg-cyan-500",
+    pill: "bg-cyan-100 text-cyan-700 dark:bg-cyan-900/50 dark:text-cyan-300",
+    text: "text-cyan-800 dark:text-cyan-300",
+    interimText: "text-cyan-600 dark:text-cyan-400",
+  },
+  owner: {
+    dot: "bg-amber-500",
+    pill: "bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300",
+    text: "text-amber-800 dark:text-amber-300",
+    interimText: "text-amber-600 dark:text-amber-400",
+  },
+  family: {
+    dot: "bg-orange-500",
+    pill: "bg-orange-100 text-orange-700 dark:bg-orange-900/50 dark:text-orange-300",
+    text: "text-orange-800 dark:text-orange-300",
+    interimText: "text-orange-600 dark:text-orange-400",
+  },
+  interpreter: {
+    dot: "bg-violet-500",
+    pill: "bg-violet-100 text-violet-700 dark:bg-violet-900/50 dark:text-violet-300",
+    text: "text-violet-800 dark:text-violet-300",
+    interimText: "text-violet-600 dark:text-violet-400",
+  },
+  other: {
+    dot: "bg-slate-500",
+    pill: "bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300",
+    text: "text-slate-800 dark:text-slate-300",
+    interimText: "text-slate-600 dark:text-slate-400",
+  },
+};
+
+/**
+ * Tailwind classes for a participant's transcript text
+ */
+export function getSpeakerTextClass(
+  participant: Participant,
+  interim = false
+): string {
+  const styles = roleStyles[participant.role];
+  return interim ? styles.interimText : styles.text;
+}
+
+/**
+ * Tailwind background class for a participant's legend dot
+ */
+export function getSpeakerDotClass(participant: Participant): string {
+  return roleStyles[participant.role].dot;
+}
+
+export function SpeakerBadge({
+  participant,
+  compact = false,
+}: {
+  participant: Participant;
+  compact?: boolean;
+}) {
+  const styles = roleStyles[participant.role];
+
+  if (compact) {
+    return (
+      <span
+        className={`
+          shrink-0 w-6 h-6 rounded-full flex items-center justify-center
+          text-[10px] font-bold text-white shadow-sm
+          ${styles.dot}
+        `}
+        title={participant.name}
+      >
+        {getInitial(participant)}
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`
+        px-2.5 py-1 rounded-full text-xs font-semibold
+        ${styles.pill}
+      `}
+    >
+      {participant.name}
+    </span>
+  );
+}
+
+/**
+ * Speaker legend listing each participant
+ */
+export function SpeakerLegend({ participants }: { participants: Participant[] }) {
+  return (
+    <>
+      {participants.map((p) => (
+        <div key={p.id} className="flex items-center gap-1.5">
+          <span className={`w-3 h-3 rounded-full ${getSpeakerDotClass(p)}`} />
+          <span className="text-xs text-slate-600 dark:text-slate-300">
+            {p.name}
+          </span>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function getInitial(participant: Participant): string {
+  return (participant.name.trim()[0] ?? "?").toUpperCase();
+}
@@ -16,6 +16,10 @@ const stateConfig: Record<
     label: "Recording",
     className: "bg-red-500 text-white animate-pulse",
   },
+  paused: {
+    label: "Paused",
+    className: "bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300",
+  },
   processing: {
     label: "Analyzing",
     className: "bg-amber-500 text-white animate-pulse",
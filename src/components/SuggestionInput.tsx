@@ -0,0 +1,118 @@
+import { useState } from "react";
+
+interface SuggestionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Values offered while typing, best first */
+  suggestions: (query: string) => string[];
+  /** An option was picked with the mouse or Enter (defaults to onChange) */
+  onPick?: (value: string) => void;
+  onBlur?: () => void;
+  /** Keys the option list doesn't handle itself */
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  className?: string;
+  placeholder?: string;
+  "aria-label"?: string;
+  inputRef?: React.Ref<HTMLInputElement>;
+}
+
+/**
+ * Text input with a list of suggestions under it while it has focus;
+ * the arrow keys move through the list and Enter picks an option
+ */
+export function SuggestionInput({
+  value,
+  onChange,
+  suggestions,
+  onPick = onChange,
+  onBlur,
+  onKeyDown,
+  className = "",
+  placeholder,
+  "aria-label": ariaLabel,
+  inputRef,
+}: SuggestionInputProps) {
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const options = isFocused
+    ? suggestions(value).filter((option) => option !== value)
+    : [];
+
+  const pick = (option: string) => {
+    setHighlighted(-1);
+    onPick(option);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (options.length > 0 && (e.key === "ArrowDown" || e.key === "ArrowUp")) {
+      e.preventDefault();
+      // Cycle through the options and back to the typed text (-1)
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const count = options.length + 1;
+      setHighlighted((i) => ((i + 1 + step + count) % count) - 1);
+      return;
+    }
+    const option = options[highlighted];
+    if (e.key === "Enter" && option !== undefined) {
+      e.preventDefault();
+      pick(option);
+      return;
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <input
+        ref={inputRef}
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={options.length > 0}
+        aria-label={ariaLabel}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          setHighlighted(-1);
+          onBlur?.();
+        }}
+        onKeyDown={handleKeyDown}
+        className={className}
+      />
+      {options.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute z-10 left-0 right-0 mt-1 py-1 max-h-48 overflow-y-auto bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-md shadow-lg text-sm"
+        >
+          {options.map((option, i) => (
+            <li
+              key={option}
+              role="option"
+              aria-selected={i === highlighted}
+              // Keep focus in the input so blur doesn't fire before the pick
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(option);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-2 py-1 cursor-pointer ${
+                i === highlighted
+                  ? "bg-teal-50 text-teal-700 dark:bg-teal-900/40 dark:text-teal-300"
+                  : "text-slate-700 dark:text-slate-200"
+              }`}
+            >
+              {option}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,18 @@
 import { useRef, useEffect } from "react";
 import type { RecordingState } from "../hooks/useRecordingState";
 import type { SpeechError } from "../hooks/useSpeechRecognition";
-import type { TranscriptSegment, Speaker } from "../types/transcript";
+import type {
+  TranscriptSegment,
+  Speaker,
+  Participant,
+} from "../types/transcript";
+import { DEFAULT_PARTICIPANTS, getParticipant } from "../types/transcript";
+import {
+  SpeakerBadge,
+  SpeakerLegend,
+  getSpeakerTextClass,
+} from "./SpeakerBadge";
+import { CorrectedText } from "./CorrectedText";
 
 interface TranscriptDisplayProps {
   state: RecordingState;
@@ -9,13 +20,19 @@ interface TranscriptDisplayProps {
   currentSpeaker: Speaker;
   interimTranscript: string;
   error: SpeechError | null;
+  /** Visit participants (speaker ids resolve against this list) */
+  participants?: Participant[];
   onToggleSpeaker?: () => void;
+  /** Pick the current speaker directly (used when there are 3+ participants) */
+  onSelectSpeaker?: (speaker: Speaker) => void;
   /** Index of currently active segment (for playback highlighting) */
   activeSegmentIndex?: number;
   /** Callback when a segment is clicked for audio seeking */
   onSegmentClick?: (segmentIndex: number, relativeTime: number) => void;
   /** Whether audio playback is available */
   hasAudio?: boolean;
+  /** Undo a vocabulary correction in a segment */
+  onRevertCorrection?: (segmentIndex: number, correctionIndex: number) => void;
 }
 
 export function TranscriptDisplay({
@@ -24,14 +41,18 @@ export function TranscriptDisplay({
   currentSpeaker,
   interimTranscript,
   error,
+  participants = DEFAULT_PARTICIPANTS,
   onToggleSpeaker,
+  onSelectSpeaker,
   activeSegmentIndex = -1,
   onSegmentClick,
   hasAudio = false,
+  onRevertCorrection,
 }: TranscriptDisplayProps) {
   const isRecording = state === "recording";
   const hasContent = segments.length > 0 || interimTranscript.trim().length > 0;
   const activeSegmentRef = useRef<HTMLDivElement>(null);
+  const current = getParticipant(participants, currentSpeaker);
 
   // Auto-scroll to active segment during playback
   useEffect(() => {
@@ -84,9 +105,25 @@ export function TranscriptDisplay({
             <span className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-wide font-medium">
               Current Speaker:
             </span>
-            <SpeakerBadge speaker={currentSpeaker} />
+            <SpeakerBadge participant={current} />
           </div>
-          {onToggleSpeaker && (
+          {onSelectSpeaker && participants.length > 2 ? (
+            <div className="flex flex-wrap justify-end gap-1.5">
+              {participants.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => onSelectSpeaker(p.id)}
+                  className={`text-xs px-2.5 py-1 rounded-lg font-medium transition-colors ${
+                    p.id === currentSpeaker
+                      ? "bg-teal-600 text-white"
+                      : "bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-600 dark:text-slate-200"
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          ) : onToggleSpeaker && (
             <button
               onClick={onToggleSpeaker}
               className="text-xs px-3 py-1.5 rounded-lg bg-slate-200 hover:bg-slate-300 dark:bg-slate-600 dark:hover:bg-slate-500 text-slate-600 dark:text-slate-200 font-medium transition-colors"
@@ -103,6 +140,7 @@ export function TranscriptDisplay({
             {/* Render each segment */}
             {segments.map((segment, i) => {
               const isActive = i === activeSegmentIndex;
+              const participant = getParticipant(participants, segment.speaker);
               const isClickable =
                 hasAudio &&
                 onSegmentClick &&
@@ -130,15 +168,24 @@ export function TranscriptDisplay({
                     </span>
                   )}
 
-                  <SpeakerBadge speaker={segment.speaker} compact />
+                  <SpeakerBadge participant={participant} compact />
                   <p
                     className={`
                       flex-1 leading-relaxed
-                      ${segment.speaker === "vet" ? "text-teal-800 dark:text-teal-300" : "text-amber-800 dark:text-amber-300"}
+                      ${getSpeakerTextClass(participant)}
                       ${isActive ? "font-medium" : ""}
                     `}
                   >
-                    {segment.text}
+                    <CorrectedText
+                      text={segment.text}
+                      corrections={segment.corrections}
+                      onRevert={
+                        onRevertCorrection
+                          ? (correctionIndex) =>
+                              onRevertCorrection(i, correctionIndex)
+                          : undefined
+                      }
+                    />
                   </p>
 
                   {/* Play indicator for clickable segments */}
@@ -157,11 +204,11 @@ export function TranscriptDisplay({
                 <span className="text-xs text-slate-400 dark:text-slate-500 font-mono shrink-0 pt-1">
                   --:--
                 </span>
-                <SpeakerBadge speaker={currentSpeaker} compact />
+                <SpeakerBadge participant={current} compact />
                 <p
                   className={`
                     flex-1 leading-relaxed italic opacity-60
-                    ${currentSpeaker === "vet" ? "text-teal-600 dark:text-teal-400" : "text-amber-600 dark:text-amber-400"}
+                    ${getSpeakerTextClass(current, true)}
                   `}
                 >
                   {interimTranscript}
@@ -177,6 +224,8 @@ export function TranscriptDisplay({
                   <span className="inline-block w-2 h-2 bg-red-500 rounded-full animate-pulse" />
                   Listening...
                 </span>
+              ) : state === "paused" ? (
+                "Recording paused"
               ) : (
                 "Transcript will appear here"
               )}
@@ -189,14 +238,12 @@ export function TranscriptDisplay({
       {hasContent && !isRecording && (
         <div className="px-4 py-2.5 bg-slate-50 dark:bg-slate-700/50 border-t border-slate-200 dark:border-slate-700 flex items-center gap-4">
           <span className="text-xs text-slate-500 dark:text-slate-400 font-medium">Speakers:</span>
-          <div className="flex items-center gap-1.5">
-            <span className="w-3 h-3 rounded-full bg-teal-500" />
-            <span className="text-xs text-slate-600 dark:text-slate-300">Vet</span>
-          </div>
-          <div className="flex items-center gap-1.5">
-            <span className="w-3 h-3 rounded-full bg-amber-500" />
-            <span className="text-xs text-slate-600 dark:text-slate-300">Owner</span>
-          </div>
+          <SpeakerLegend participants={participants} />
+          {segments.some((s) => s.corrections?.length) && (
+            <span className="text-xs text-slate-500 dark:text-slate-400 underline decoration-dotted decoration-sky-500 underline-offset-2">
+              Corrected term
+            </span>
+          )}
           {hasAudio && (
             <span className="text-xs text-slate-400 dark:text-slate-500 ml-auto">
               Click to jump
@@ -214,41 +261,6 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
-function SpeakerBadge({
-  speaker,
-  compact = false,
-}: {
-  speaker: Speaker;
-  compact?: boolean;
-}) {
-  const isVet = speaker === "vet";
-
-  if (compact) {
-    return (
-      <span
-        className={`
-          shrink-0 w-6 h-6 rounded-full flex items-center justify-center
-          text-[10px] font-bold text-white shadow-sm
-          ${isVet ? "bg-teal-500" : "bg-amber-500"}
-        `}
-      >
-        {isVet ? "V" : "O"}
-      </span>
-    );
-  }
-
-  return (
-    <span
-      className={`
-        px-2.5 py-1 rounded-full text-xs font-semibold
-        ${isVet ? "bg-teal-100 text-teal-700 dark:bg-teal-900/50 dark:text-teal-300" : "bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300"}
-      `}
-    >
-      {isVet ? "Vet" : "Owner"}
-    </span>
-  );
-}
-
 function PlaySmallIcon() {
   return (
     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
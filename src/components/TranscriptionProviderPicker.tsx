@@ -0,0 +1,50 @@
+import { useMemo } from "react";
+import type { TranscriptionProviderId } from "../types/transcription";
+import { getLiveProviderOptions } from "../services/transcription";
+
+interface TranscriptionProviderPickerProps {
+  /** Provider in use (null when none is supported) */
+  providerId: TranscriptionProviderId | null;
+  onChange: (id: TranscriptionProviderId) => void;
+  disabled?: boolean;
+}
+
+export function TranscriptionProviderPicker({
+  providerId,
+  onChange,
+  disabled = false,
+}: TranscriptionProviderPickerProps) {
+  const options = useMemo(() => getLiveProviderOptions(), []);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto flex flex-wrap items-center justify-between gap-3 bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700 px-4 py-3">
+      <span className="text-sm font-medium text-slate-700 dark:text-slate-200">
+        Transcription
+      </span>
+      <div
+        role="radiogroup"
+        aria-label="Transcription"
+        className="inline-flex rounded-lg bg-slate-100 dark:bg-slate-700 p-0.5"
+      >
+        {options.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            role="radio"
+            aria-checked={providerId === option.id}
+            disabled={disabled || !option.isSupported}
+            title={option.isSupported ? undefined : "Not supported in this browser"}
+            onClick={() => onChange(option.id)}
+            className={`px-3 py-1 text-sm font-medium rounded-md transition-colors disabled:opacity-50 ${
+              providerId === option.id
+                ? "bg-white text-teal-700 shadow-sm dark:bg-slate-800 dark:text-teal-400"
+                : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
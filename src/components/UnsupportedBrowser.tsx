@@ -31,8 +31,9 @@ export function UnsupportedBrowser() {
           </h2>
 
           <p className="text-slate-600 mb-6">
-            VetTriage requires the Web Speech API for voice transcription, which
-            isn&apos;t available in your current browser.
+            VetTriage needs either the Web Speech API or audio recording
+            (MediaRecorder) for voice transcription, and neither is available
+            in your current browser.
           </p>
 
           <div className="bg-white rounded-xl p-6 shadow-sm border border-slate-200">
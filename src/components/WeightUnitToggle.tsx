@@ -0,0 +1,39 @@
+import type { WeightUnit } from "../types/report";
+
+interface WeightUnitToggleProps {
+  /** Clinic unit weights are converted to */
+  unit: WeightUnit;
+  onChange: (unit: WeightUnit) => void;
+}
+
+const UNIT_OPTIONS: WeightUnit[] = ["kg", "lb"];
+
+export function WeightUnitToggle({ unit, onChange }: WeightUnitToggleProps) {
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+      <span className="font-medium">Weights in</span>
+      <div
+        role="radiogroup"
+        aria-label="Weight unit"
+        className="inline-flex rounded-md bg-slate-200 dark:bg-slate-700 p-0.5"
+      >
+        {UNIT_OPTIONS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={unit === option}
+            onClick={() => onChange(option)}
+            className={`px-2 py-0.5 rounded font-medium transition-colors ${
+              unit === option
+                ? "bg-white text-teal-700 shadow-sm dark:bg-slate-800 dark:text-teal-400"
+                : "text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
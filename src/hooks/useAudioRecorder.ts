@@ -1,8 +1,22 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { RecordingPause } from "../types/transcript";
+import { appendAudioChunk, clearAudioChunks } from "../services/sessionStorage";
+
+// How often MediaRecorder hands over a chunk (ms)
+const CHUNK_TIMESLICE_MS = 1000;
+
+interface UseAudioRecorderOptions {
+  /** Called with each recorded chunk as it arrives (e.g. for streaming transcription) */
+  onChunk?: (chunk: Blob) => void;
+  /** Stream chunks into IndexedDB as they arrive so a crash doesn't lose the recording */
+  persistChunks?: boolean;
+}
 
 interface UseAudioRecorderReturn {
   /** Whether recording is in progress */
   isRecording: boolean;
+  /** Whether recording is paused */
+  isPaused: boolean;
   /** Recorded audio blob URL (available after stop) */
   audioUrl: string | null;
   /** Recorded audio blob (for persistence) */
@@ -13,20 +27,35 @@ interface UseAudioRecorderReturn {
   duration: number;
   /** Start time of recording (for timestamp sync) */
   startTime: number | null;
+  /** Completed pauses (paused time is not in the audio) */
+  pauses: RecordingPause[];
   /** Start recording */
   startRecording: () => Promise<void>;
   /** Stop recording */
   stopRecording: () => void;
+  /** Pause recording, keeping the same audio timeline */
+  pauseRecording: () => void;
+  /** Resume a paused recording */
+  resumeRecording: () => void;
   /** Restore audio from a blob (for session restore) */
-  restoreAudio: (blob: Blob, mimeType: string | null, startTimeMs: number | null) => void;
+  restoreAudio: (
+    blob: Blob,
+    mimeType: string | null,
+    startTimeMs: number | null,
+    pauses?: RecordingPause[]
+  ) => void;
   /** Clear recorded audio */
   reset: () => void;
   /** Error message */
   error: string | null;
 }
 
-export function useAudioRecorder(): UseAudioRecorderReturn {
+export function useAudioRecorder(
+  options: UseAudioRecorderOptions = {}
+): UseAudioRecorderReturn {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pauses, setPauses] = useState<RecordingPause[]>([]);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [audioMimeType, setAudioMimeType] = useState<string | null>(null);
@@ -38,11 +67,30 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
   const streamRef = useRef<MediaStream | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const startTimeRef = useRef<number>(0);
+  // When the current pause began (null while not paused)
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedTotalRef = useRef<number>(0);
+  const onChunkRef = useRef(options.onChunk);
+  const persistChunks = options.persistChunks ?? false;
+  // Chunk writes run in order, after the previous recording's chunks are cleared
+  const persistQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Keep latest chunk listener without restarting the recorder
+  useEffect(() => {
+    onChunkRef.current = options.onChunk;
+  }, [options.onChunk]);
 
   const startRecording = useCallback(async () => {
     try {
       setError(null);
       chunksRef.current = [];
+      pausedAtRef.current = null;
+      pausedTotalRef.current = 0;
+      setPauses([]);
+      setIsPaused(false);
+      if (persistChunks) {
+        persistQueueRef.current = persistQueueRef.current.then(clearAudioChunks);
+      }
 
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
       streamRef.current = stream;
@@ -65,7 +113,14 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
+          const chunk = event.data;
+          chunksRef.current.push(chunk);
+          onChunkRef.current?.(chunk);
+          if (persistChunks) {
+            persistQueueRef.current = persistQueueRef.current.then(() =>
+              appendAudioChunk(chunk)
+            );
+          }
         }
       };
 
@@ -81,7 +136,9 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
           setAudioMimeType(finalMimeType);
         }
 
-        setDuration((Date.now() - startTimeRef.current) / 1000);
+        setDuration(
+          (Date.now() - startTimeRef.current - pausedTotalRef.current) / 1000
+        );
 
         // Stop all tracks
         if (streamRef.current) {
@@ -95,27 +152,65 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
       setStartTime(Date.now());
 
       // Start with timeslice to get data periodically
-      mediaRecorder.start(100);
+      mediaRecorder.start(CHUNK_TIMESLICE_MS);
       setIsRecording(true);
     } catch (err) {
       console.error("Failed to start recording:", err);
       setError("Could not access microphone");
     }
-  }, []);
+  }, [persistChunks]);
 
   const stopRecording = useCallback(() => {
     const recorder = mediaRecorderRef.current;
 
+    // Close an open pause so it is excluded from the timeline
+    const pausedAt = pausedAtRef.current;
+    if (pausedAt !== null) {
+      const pause = { start: pausedAt, end: Date.now() };
+      pausedTotalRef.current += pause.end - pause.start;
+      pausedAtRef.current = null;
+      setPauses((prev) => [...prev, pause]);
+    }
+
     // Check MediaRecorder's actual state, not React state
     // This avoids stale closure issues
-    if (recorder && recorder.state === "recording") {
+    if (recorder && recorder.state !== "inactive") {
       recorder.stop();
     }
 
     setIsRecording(false);
+    setIsPaused(false);
+  }, []);
+
+  const pauseRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state !== "recording") return;
+
+    recorder.pause();
+    pausedAtRef.current = Date.now();
+    setIsPaused(true);
+  }, []);
+
+  const resumeRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    const pausedAt = pausedAtRef.current;
+    if (!recorder || recorder.state !== "paused" || pausedAt === null) return;
+
+    const pause = { start: pausedAt, end: Date.now() };
+    pausedTotalRef.current += pause.end - pause.start;
+    pausedAtRef.current = null;
+    setPauses((prev) => [...prev, pause]);
+
+    recorder.resume();
+    setIsPaused(false);
   }, []);
 
-  const restoreAudio = useCallback((blob: Blob, mimeType: string | null, startTimeMs: number | null) => {
+  const restoreAudio = useCallback((
+    blob: Blob,
+    mimeType: string | null,
+    startTimeMs: number | null,
+    restoredPauses: RecordingPause[] = []
+  ) => {
     // Revoke any existing URL
     if (audioUrl) {
       URL.revokeObjectURL(audioUrl);
@@ -126,12 +221,13 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
     setAudioBlob(blob);
     setAudioMimeType(mimeType);
     setStartTime(startTimeMs);
+    setPauses(restoredPauses);
   }, [audioUrl]);
 
   const reset = useCallback(() => {
     // Stop any ongoing recording
     const recorder = mediaRecorderRef.current;
-    if (recorder && recorder.state === "recording") {
+    if (recorder && recorder.state !== "inactive") {
       recorder.stop();
     }
 
@@ -151,21 +247,29 @@ export function useAudioRecorder(): UseAudioRecorderReturn {
     setAudioMimeType(null);
     setDuration(0);
     setStartTime(null);
+    setPauses([]);
     setError(null);
     setIsRecording(false);
+    setIsPaused(false);
+    pausedAtRef.current = null;
+    pausedTotalRef.current = 0;
     chunksRef.current = [];
     mediaRecorderRef.current = null;
   }, [audioUrl]);
 
   return {
     isRecording,
+    isPaused,
     audioUrl,
     audioBlob,
     audioMimeType,
     duration,
     startTime,
+    pauses,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     restoreAudio,
     reset,
     error,
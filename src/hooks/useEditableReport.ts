@@ -1,17 +1,25 @@
-import { useState, useCallback, useMemo } from "react";
-import type { IntakeReport } from "../types/report";
+import { useState, useCallback, useMemo, useRef } from "react";
+import type { ConfidentField, IntakeReport } from "../types/report";
 
-interface UseEditableReportReturn {
+interface UseEditableReportReturn<T> {
   /** The current (possibly edited) report */
-  report: IntakeReport;
+  report: T;
   /** Original AI-generated report */
-  originalReport: IntakeReport;
+  originalReport: T;
   /** Set of edited field paths */
   editedFields: Set<string>;
   /** Check if a field was edited */
   isEdited: (fieldPath: string) => boolean;
   /** Update a field value (handles ConfidentField.value automatically) */
   updateField: (fieldPath: string, value: unknown) => void;
+  /**
+   * Replace a field with a freshly extracted one. Edited fields are left
+   * alone; returns whether the field was replaced.
+   */
+  replaceGeneratedField: (
+    fieldPath: string,
+    field: ConfidentField<unknown>
+  ) => boolean;
   /** Reset all edits */
   resetEdits: () => void;
   /** Check if any edits were made */
@@ -21,13 +29,18 @@ interface UseEditableReportReturn {
 /**
  * Hook to manage editable report state with change tracking
  * Handles the new ConfidentField structure by updating .value properties
+ * (works for any AI document made of ConfidentFields, e.g. a SoapNote)
  */
-export function useEditableReport(
-  initialReport: IntakeReport
-): UseEditableReportReturn {
-  const [originalReport] = useState<IntakeReport>(initialReport);
-  const [report, setReport] = useState<IntakeReport>(initialReport);
+export function useEditableReport<T extends object = IntakeReport>(
+  initialReport: T
+): UseEditableReportReturn<T> {
+  const [originalReport, setOriginalReport] = useState<T>(initialReport);
+  const [report, setReport] = useState<T>(initialReport);
   const [editedFields, setEditedFields] = useState<Set<string>>(new Set());
+  // Regeneration finishes after an await, when the callback's own
+  // editedFields may be stale
+  const editedFieldsRef = useRef(editedFields);
+  editedFieldsRef.current = editedFields;
 
   const isEdited = useCallback(
     (fieldPath: string) => editedFields.has(fieldPath),
@@ -39,7 +52,7 @@ export function useEditableReport(
       setReport((prev) => {
         const newReport = deepClone(prev);
         
-        // Handle nested paths like "patient.name" -> need to update patient.name.value
+        // Handle nested paths like "patients.0.patient.name" -> need to update its .value
         const target = getNestedValue(newReport, fieldPath);
         
         // If target is a ConfidentField object, update its .value
@@ -78,6 +91,23 @@ export function useEditableReport(
     [originalReport]
   );
 
+  const replaceGeneratedField = useCallback(
+    (fieldPath: string, field: ConfidentField<unknown>) => {
+      if (editedFieldsRef.current.has(fieldPath)) return false;
+
+      // The new value is AI output, so it also becomes the original
+      const replace = (prev: T) => {
+        const newReport = deepClone(prev);
+        setNestedValue(newReport, fieldPath, field);
+        return newReport;
+      };
+      setReport(replace);
+      setOriginalReport(replace);
+      return true;
+    },
+    []
+  );
+
   const resetEdits = useCallback(() => {
     setReport(originalReport);
     setEditedFields(new Set());
@@ -91,6 +121,7 @@ export function useEditableReport(
     editedFields,
     isEdited,
     updateField,
+    replaceGeneratedField,
     resetEdits,
     hasEdits,
   };
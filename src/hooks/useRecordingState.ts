@@ -1,15 +1,23 @@
 import { useState, useCallback } from "react";
 
-export type RecordingState = "idle" | "recording" | "processing" | "complete";
+export type RecordingState =
+  | "idle"
+  | "recording"
+  | "paused"
+  | "processing"
+  | "complete";
 
 interface UseRecordingStateReturn {
   state: RecordingState;
   isIdle: boolean;
   isRecording: boolean;
+  isPaused: boolean;
   isProcessing: boolean;
   isComplete: boolean;
   startRecording: () => void;
   stopRecording: () => void;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   startProcessing: () => void;
   completeProcessing: () => void;
   reset: () => void;
@@ -26,11 +34,23 @@ export function useRecordingState(): UseRecordingStateReturn {
   }, [state]);
 
   const stopRecording = useCallback(() => {
-    if (state === "recording") {
+    if (state === "recording" || state === "paused") {
       setState("processing");
     }
   }, [state]);
 
+  const pauseRecording = useCallback(() => {
+    if (state === "recording") {
+      setState("paused");
+    }
+  }, [state]);
+
+  const resumeRecording = useCallback(() => {
+    if (state === "paused") {
+      setState("recording");
+    }
+  }, [state]);
+
   const startProcessing = useCallback(() => {
     setState("processing");
   }, []);
@@ -47,10 +67,13 @@ export function useRecordingState(): UseRecordingStateReturn {
     state,
     isIdle: state === "idle",
     isRecording: state === "recording",
+    isPaused: state === "paused",
     isProcessing: state === "processing",
     isComplete: state === "complete",
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     startProcessing,
     completeProcessing,
     reset,
@@ -1,22 +1,39 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import { selectTranscriptionProvider } from "../services/transcription";
+import type {
+  Participant,
+  Speaker,
+  TranscriptSegment,
+} from "../types/transcript";
 import {
-  isSpeechRecognitionSupported,
-  getSpeechRecognition,
-} from "../utils/browserSupport";
-import type { Speaker, TranscriptSegment } from "../types/transcript";
-
-export type SpeechError =
-  | "not-supported"
-  | "permission-denied"
-  | "network"
-  | "unknown";
+  DEFAULT_PARTICIPANTS,
+  getInitialSpeaker,
+  isClinicalStaff,
+} from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import type { LexiconEntry } from "../types/vocabulary";
+import {
+  correctText,
+  shiftCorrections,
+} from "../utils/vocabularyCorrection";
+import { DEFAULT_LANGUAGE } from "../types/language";
+import type {
+  SpeechError,
+  TranscriptionProviderId,
+  TranscriptionResultEvent,
+} from "../types/transcription";
+
+export type { SpeechError } from "../types/transcription";
 
 // Pause duration (ms) that triggers speaker change
 const SPEAKER_CHANGE_THRESHOLD = 1500;
 
 interface UseSpeechRecognitionReturn {
-  /** Whether Web Speech API is supported */
+  /** Whether a transcription provider is available */
   isSupported: boolean;
+  /** Active transcription provider (null if none supported) */
+  providerId: TranscriptionProviderId | null;
   /** Whether currently listening */
   isListening: boolean;
   /** Diarized transcript segments */
@@ -31,216 +48,261 @@ interface UseSpeechRecognitionReturn {
   startListening: () => void;
   /** Stop listening */
   stopListening: () => void;
-  /** Manually toggle speaker */
+  /** Suspend listening; resuming appends to the same segments */
+  pauseListening: () => void;
+  /** Continue after pauseListening */
+  resumeListening: () => void;
+  /** Manually switch to the next participant */
   toggleSpeaker: () => void;
+  /** Manually pick the current speaker */
+  selectSpeaker: (speaker: Speaker) => void;
+  /** Feed a recorded audio chunk to audio-based providers */
+  pushAudioChunk: (chunk: Blob) => void;
   /** Clear transcript and errors */
   reset: () => void;
   /** Set segments directly (for session restore) */
-  setSegments: (segments: TranscriptSegment[]) => void;
+  setSegments: Dispatch<SetStateAction<TranscriptSegment[]>>;
+}
+
+interface UseSpeechRecognitionOptions {
+  /** Optional provider override */
+  provider?: TranscriptionProviderId;
+  /** Visit participants (defaults to one vet and one owner) */
+  participants?: Participant[];
+  /** Language spoken in the conversation (defaults to English) */
+  language?: LanguageCode;
+  /** Vocabulary for correcting misheard veterinary terms (none = no correction) */
+  lexicon?: LexiconEntry[];
 }
 
-export function useSpeechRecognition(): UseSpeechRecognitionReturn {
-  const [isSupported] = useState(() => isSpeechRecognitionSupported());
+/**
+ * Live transcription hook. The backend is chosen at runtime
+ * (Web Speech, Whisper, scripted); this hook turns whatever text the
+ * provider emits into diarized TranscriptSegments.
+ */
+export function useSpeechRecognition(
+  options: UseSpeechRecognitionOptions = {}
+): UseSpeechRecognitionReturn {
+  const {
+    provider: requestedProvider,
+    participants = DEFAULT_PARTICIPANTS,
+    language = DEFAULT_LANGUAGE,
+    lexicon,
+  } = options;
+  const provider = useMemo(
+    () => selectTranscriptionProvider(requestedProvider),
+    [requestedProvider]
+  );
+  const isSupported = provider !== null;
   const [isListening, setIsListening] = useState(false);
   const [segments, setSegments] = useState<TranscriptSegment[]>([]);
-  const [currentSpeaker, setCurrentSpeaker] = useState<Speaker>("owner");
+  const [currentSpeaker, setCurrentSpeaker] = useState<Speaker>(() =>
+    getInitialSpeaker(participants)
+  );
   const [interimTranscript, setInterimTranscript] = useState("");
   const [error, setError] = useState<SpeechError | null>(
     isSupported ? null : "not-supported"
   );
 
-  const recognitionRef = useRef<SpeechRecognition | null>(null);
   const lastSpeechTimeRef = useRef<number>(Date.now());
-  const shouldRestartRef = useRef<boolean>(false);
-  const currentSpeakerRef = useRef<Speaker>("owner");
+  const currentSpeakerRef = useRef<Speaker>(currentSpeaker);
+  // Who spoke before the current speaker (pause heuristic switches back to them)
+  const previousSpeakerRef = useRef<Speaker | null>(null);
+  const participantsRef = useRef<Participant[]>(participants);
+  const lexiconRef = useRef<LexiconEntry[] | undefined>(lexicon);
 
-  // Keep ref in sync with state
+  // Keep refs in sync with state/props
   useEffect(() => {
+    if (currentSpeakerRef.current !== currentSpeaker) {
+      previousSpeakerRef.current = currentSpeakerRef.current;
+    }
     currentSpeakerRef.current = currentSpeaker;
   }, [currentSpeaker]);
 
-  // Initialize recognition instance
   useEffect(() => {
-    if (!isSupported) return;
-
-    const SpeechRecognitionClass = getSpeechRecognition();
-    if (!SpeechRecognitionClass) return;
-
-    const recognition = new SpeechRecognitionClass();
-
-    // Configure for continuous recognition with interim results
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = "en-US";
-
-    recognition.onstart = () => {
-      setIsListening(true);
-      setError(null);
-      lastSpeechTimeRef.current = Date.now();
-    };
-
-    recognition.onend = () => {
-      setIsListening(false);
-      setInterimTranscript("");
-
-      // Auto-restart if we should still be listening
-      if (shouldRestartRef.current) {
-        setTimeout(() => {
-          try {
-            recognition.start();
-          } catch {
-            // Ignore if already started
-          }
-        }, 100);
-      }
-    };
-
-    recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
-      // Handle no-speech gracefully - just restart if we should be recording
-      if (event.error === "no-speech") {
-        // Don't set error, just let it restart via onend
-        return;
-      }
+    participantsRef.current = participants;
+  }, [participants]);
 
-      // Handle aborted gracefully (happens when stopping)
-      if (event.error === "aborted") {
-        return;
-      }
+  useEffect(() => {
+    lexiconRef.current = lexicon;
+  }, [lexicon]);
 
-      setIsListening(false);
-      setInterimTranscript("");
-
-      switch (event.error) {
-        case "not-allowed":
-          setError("permission-denied");
-          shouldRestartRef.current = false;
-          break;
-        case "network":
-          setError("network");
-          break;
-        default:
-          setError("unknown");
-      }
+  // Release the provider when it changes or on unmount
+  useEffect(() => {
+    if (!provider) return;
+    return () => {
+      provider.abort();
     };
+  }, [provider]);
 
-    recognition.onresult = (event: SpeechRecognitionEvent) => {
-      const now = Date.now();
+  // Turn a provider result into a diarized segment
+  const handleResult = useCallback(
+    (result: TranscriptionResultEvent) => {
+      const now = result.timestamp;
       const timeSinceLastSpeech = now - lastSpeechTimeRef.current;
 
-      let finalTranscript = "";
-      let currentInterim = "";
-
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const result = event.results[i];
-        if (result) {
-          const transcriptText = result[0]?.transcript || "";
-          if (result.isFinal) {
-            finalTranscript += transcriptText;
-          } else {
-            currentInterim += transcriptText;
-          }
-        }
-      }
-
-      // Update interim display
-      setInterimTranscript(currentInterim);
+      let speaker: Speaker;
+      let shouldSwitchSpeaker: boolean;
 
-      if (finalTranscript) {
+      if (result.speaker) {
+        // Provider knows the speaker
+        speaker = result.speaker;
+        shouldSwitchSpeaker = speaker !== currentSpeakerRef.current;
+      } else {
         // Check if we should switch speakers based on pause
-        const shouldSwitchSpeaker =
+        shouldSwitchSpeaker =
+          !!provider?.detectsPauses &&
           timeSinceLastSpeech > SPEAKER_CHANGE_THRESHOLD;
 
-        const speaker = shouldSwitchSpeaker
-          ? currentSpeakerRef.current === "vet"
-            ? "owner"
-            : "vet"
+        speaker = shouldSwitchSpeaker
+          ? getTurnPartner(
+              participantsRef.current,
+              currentSpeakerRef.current,
+              previousSpeakerRef.current
+            )
           : currentSpeakerRef.current;
+      }
 
-        if (shouldSwitchSpeaker) {
-          setCurrentSpeaker(speaker);
-        }
-
-        // Add segment with correct speaker
-        setSegments((prev) => {
-          const lastSegment = prev[prev.length - 1];
-
-          // If same speaker and recent, append to last segment
-          if (
-            lastSegment &&
-            lastSegment.speaker === speaker &&
-            !shouldSwitchSpeaker
-          ) {
-            return [
-              ...prev.slice(0, -1),
-              {
-                ...lastSegment,
-                text: lastSegment.text + " " + finalTranscript.trim(),
-              },
-            ];
-          } else {
-            // New segment
-            return [
-              ...prev,
-              {
-                speaker,
-                text: finalTranscript.trim(),
-                timestamp: now,
-              },
-            ];
-          }
-        });
-
-        lastSpeechTimeRef.current = now;
+      if (shouldSwitchSpeaker && speaker !== currentSpeakerRef.current) {
+        previousSpeakerRef.current = currentSpeakerRef.current;
+        currentSpeakerRef.current = speaker;
+        setCurrentSpeaker(speaker);
       }
-    };
 
-    recognitionRef.current = recognition;
+      // Fix misheard veterinary terms in the finalized text
+      const corrected = lexiconRef.current
+        ? correctText(result.text.trim(), lexiconRef.current)
+        : { text: result.text.trim(), corrections: [] };
+
+      // Add segment with correct speaker
+      setSegments((prev) => {
+        const lastSegment = prev[prev.length - 1];
+
+        // If same speaker and recent, append to last segment
+        if (
+          lastSegment &&
+          lastSegment.speaker === speaker &&
+          !shouldSwitchSpeaker
+        ) {
+          const corrections = [
+            ...(lastSegment.corrections ?? []),
+            ...shiftCorrections(
+              corrected.corrections,
+              lastSegment.text.length + 1
+            ),
+          ];
+          return [
+            ...prev.slice(0, -1),
+            {
+              ...lastSegment,
+              text: lastSegment.text + " " + corrected.text,
+              ...(corrections.length > 0 && { corrections }),
+            },
+          ];
+        } else {
+          // New segment
+          return [
+            ...prev,
+            {
+              speaker,
+              text: corrected.text,
+              timestamp: now,
+              ...(corrected.corrections.length > 0 && {
+                corrections: corrected.corrections,
+              }),
+            },
+          ];
+        }
+      });
 
-    return () => {
-      shouldRestartRef.current = false;
-      recognition.abort();
-      recognitionRef.current = null;
-    };
-  }, [isSupported]);
+      lastSpeechTimeRef.current = now;
+    },
+    [provider]
+  );
 
   const startListening = useCallback(() => {
-    if (!recognitionRef.current) return;
+    if (!provider) return;
 
     setError(null);
-    shouldRestartRef.current = true;
     lastSpeechTimeRef.current = Date.now();
-    try {
-      recognitionRef.current.start();
-    } catch {
-      // Already started, ignore
-    }
-  }, []);
+    provider.start(
+      {
+        onStart: () => {
+          setIsListening(true);
+          setError(null);
+        },
+        onEnd: () => {
+          setIsListening(false);
+          setInterimTranscript("");
+        },
+        onInterim: setInterimTranscript,
+        onResult: handleResult,
+        onError: (speechError) => {
+          setIsListening(false);
+          setInterimTranscript("");
+          setError(speechError);
+        },
+      },
+      { language }
+    );
+  }, [provider, handleResult, language]);
 
   const stopListening = useCallback(() => {
-    shouldRestartRef.current = false;
-    if (!recognitionRef.current) return;
+    provider?.stop();
+  }, [provider]);
+
+  const pauseListening = useCallback(() => {
+    if (!provider) return;
+    if (provider.pause) {
+      provider.pause();
+    } else {
+      provider.stop();
+    }
+    setInterimTranscript("");
+  }, [provider]);
 
-    try {
-      recognitionRef.current.stop();
-    } catch {
-      // Already stopped, ignore
+  const resumeListening = useCallback(() => {
+    if (!provider) return;
+    // The pause itself must not count as a speaker change
+    lastSpeechTimeRef.current = Date.now();
+    if (provider.resume) {
+      provider.resume();
+    } else {
+      startListening();
     }
-  }, []);
+  }, [provider, startListening]);
 
   const toggleSpeaker = useCallback(() => {
-    setCurrentSpeaker((prev) => (prev === "vet" ? "owner" : "vet"));
+    setCurrentSpeaker((prev) => {
+      const index = participants.findIndex((p) => p.id === prev);
+      return participants[(index + 1) % participants.length]?.id ?? prev;
+    });
+  }, [participants]);
+
+  const selectSpeaker = useCallback((speaker: Speaker) => {
+    setCurrentSpeaker(speaker);
   }, []);
 
+  const pushAudioChunk = useCallback(
+    (chunk: Blob) => {
+      provider?.pushAudio?.(chunk);
+    },
+    [provider]
+  );
+
   const reset = useCallback(() => {
+    provider?.abort();
     setSegments([]);
-    setCurrentSpeaker("owner");
+    setCurrentSpeaker(getInitialSpeaker(participants));
+    previousSpeakerRef.current = null;
     setInterimTranscript("");
+    setIsListening(false);
     setError(isSupported ? null : "not-supported");
-    shouldRestartRef.current = false;
-  }, [isSupported]);
+  }, [provider, isSupported, participants]);
 
   return {
     isSupported,
+    providerId: provider?.id ?? null,
     isListening,
     segments,
     currentSpeaker,
@@ -248,8 +310,37 @@ export function useSpeechRecognition(): UseSpeechRecognitionReturn {
     error,
     startListening,
     stopListening,
+    pauseListening,
+    resumeListening,
     toggleSpeaker,
+    selectSpeaker,
+    pushAudioChunk,
     reset,
     setSegments,
   };
 }
+
+/**
+ * Who most likely speaks after a pause: whoever spoke before the current
+ * speaker, or else the first participant on the other side of the
+ * staff/non-staff divide
+ */
+function getTurnPartner(
+  participants: Participant[],
+  current: Speaker,
+  previous: Speaker | null
+): Speaker {
+  if (previous && previous !== current && participants.some((p) => p.id === previous)) {
+    return previous;
+  }
+
+  const currentParticipant = participants.find((p) => p.id === current);
+  const currentIsStaff = currentParticipant
+    ? isClinicalStaff(currentParticipant.role)
+    : false;
+  const partner =
+    participants.find(
+      (p) => p.id !== current && isClinicalStaff(p.role) !== currentIsStaff
+    ) ?? participants.find((p) => p.id !== current);
+  return partner?.id ?? current;
+}
@@ -1,5 +1,9 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { TranscriptSegment } from "../types/transcript";
+import type { Participant, TranscriptSegment } from "../types/transcript";
+import {
+  DEFAULT_PARTICIPANTS,
+  formatTranscriptForAnalysis,
+} from "../types/transcript";
 import type { UrgencyAssessment, UrgencyScore } from "../types/urgency";
 import { detectUrgency } from "../services/urgencyDetection";
 import { compareUrgency } from "../types/urgency";
@@ -20,7 +24,8 @@ interface UseUrgencyPulseReturn {
  */
 export function useUrgencyPulse(
   segments: TranscriptSegment[],
-  isRecording: boolean
+  isRecording: boolean,
+  participants: Participant[] = DEFAULT_PARTICIPANTS
 ): UseUrgencyPulseReturn {
   const [urgency, setUrgency] = useState<UrgencyAssessment | null>(null);
   const [justEscalated, setJustEscalated] = useState(false);
@@ -38,11 +43,11 @@ export function useUrgencyPulse(
   }, [segments]);
 
   // Format segments into transcript text
-  const formatTranscript = useCallback((segments: TranscriptSegment[]): string => {
-    return segments
-      .map((seg) => `${seg.speaker.toUpperCase()}: ${seg.text}`)
-      .join("\n");
-  }, []);
+  const formatTranscript = useCallback(
+    (segments: TranscriptSegment[]): string =>
+      formatTranscriptForAnalysis(segments, participants),
+    [participants]
+  );
 
   // Analyze urgency from current transcript
   const analyzeUrgency = useCallback(async (transcript: string) => {
@@ -65,7 +70,11 @@ export function useUrgencyPulse(
     abortControllerRef.current = new AbortController();
 
     try {
-      const assessment = await detectUrgency(transcript, abortControllerRef.current.signal);
+      const assessment = await detectUrgency(
+        transcript,
+        abortControllerRef.current.signal,
+        participants
+      );
       if (assessment) {
         setUrgency((prev) => {
           // Only escalate, never downgrade
@@ -89,7 +98,7 @@ export function useUrgencyPulse(
       isAnalyzingRef.current = false;
       abortControllerRef.current = null;
     }
-  }, []);
+  }, [participants]);
 
   // Periodic analysis during recording
   useEffect(() => {
@@ -8,68 +8,172 @@ import { UnsupportedBrowser } from "../components/UnsupportedBrowser";
 import { OfflineBanner } from "../components/OfflineBanner";
 import { AudioPlayer } from "../components/AudioPlayer";
 import { CollapsibleTranscript } from "../components/CollapsibleTranscript";
+import type { TranscriptFocusRequest } from "../components/CollapsibleTranscript";
 import { UrgencyPulse } from "../components/UrgencyPulse";
+import { DiarizationReview } from "../components/DiarizationReview";
+import { ParticipantEditor } from "../components/ParticipantEditor";
+import { LanguagePicker } from "../components/LanguagePicker";
+import { RecoveryBanner } from "../components/RecoveryBanner";
+import { LexiconEditor } from "../components/LexiconEditor";
+import { AudioImportButton } from "../components/AudioImportButton";
+import { ExtractionRepairNotice } from "../components/ExtractionRepairNotice";
+import { ReportModePicker } from "../components/ReportModePicker";
+import { TranscriptionProviderPicker } from "../components/TranscriptionProviderPicker";
+import { SoapNotePreview } from "../components/SoapNotePreview";
+import { getLexicon, saveLexicon, resetLexicon } from "../services/lexicon";
+import {
+  getPreferredProviderId,
+  setPreferredProviderId,
+} from "../services/transcription";
+import {
+  correctSegments,
+  revertCorrection,
+} from "../utils/vocabularyCorrection";
+import { getClinicLanguage, setClinicLanguage } from "../services/language";
+import { getClinicWeightUnit, setClinicWeightUnit } from "../services/units";
 import { useRecordingState } from "../hooks/useRecordingState";
+import type { RecordingState } from "../hooks/useRecordingState";
 import { useSpeechRecognition } from "../hooks/useSpeechRecognition";
 import { useAudioRecorder } from "../hooks/useAudioRecorder";
 import { useUrgencyPulse } from "../hooks/useUrgencyPulse";
-import { analyzeTranscript, hasApiKey } from "../services/groq";
+import {
+  analyzeTranscript,
+  extractReportField,
+  generateSoapNote,
+  hasApiKey,
+} from "../services/groq";
+import { usesGroqKey } from "../services/llm";
 import {
   saveSession,
   clearSession,
+  clearAudioChunks,
+  loadUnfinishedRecording,
 } from "../services/sessionStorage";
+import type { UnfinishedRecording } from "../services/sessionStorage";
 import {
   formatTranscriptForAnalysis,
   calculateRelativeTimes,
   findActiveSegment,
+  getInitialSpeaker,
+  DEFAULT_PARTICIPANTS,
 } from "../types/transcript";
+import type { Participant, TranscriptSegment } from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE } from "../types/language";
+import type { LexiconEntry } from "../types/vocabulary";
 import { getMockTranscript } from "../utils/mockTranscript";
+import { checkRedaction } from "../utils/phiRedaction";
+import { retranscribeRecording } from "../services/retranscription";
+import {
+  transcribeImportedAudio,
+  validateAudioFile,
+} from "../services/audioImport";
 import { isInCooldown, getCooldownRemaining } from "../services/rateLimiter";
-import type { IntakeReport } from "../types/report";
+import type {
+  ConfidentField,
+  ExtractionRepairSummary,
+  FieldEvidence,
+  FieldExtractionResponse,
+  IntakeReport,
+  ReportProgress,
+  WeightUnit,
+} from "../types/report";
+import { getPatientLabel } from "../types/report";
+import type { ReportMode, SoapNote } from "../types/soap";
+import {
+  getReportField,
+  setReportField,
+  parsePatientFieldPath,
+  SOAP_FIELDS,
+} from "../utils/reportSchema";
 import {
   createVisit,
   updateVisitStatus,
 } from "../services/visitStorage";
 import type { Visit } from "../types/visit";
+import type { TranscriptionProviderId } from "../types/transcription";
 
 // Feature flag: Real-Time Urgency Pulse (disabled for stability)
 const ENABLE_URGENCY_PULSE = false;
 
 export function HomePage() {
+  const [participants, setParticipants] =
+    useState<Participant[]>(DEFAULT_PARTICIPANTS);
+  const [language, setLanguage] = useState<LanguageCode>(DEFAULT_LANGUAGE);
+  const [reportLanguage, setReportLanguage] =
+    useState<LanguageCode>(getClinicLanguage);
+  const [weightUnit, setWeightUnit] = useState<WeightUnit>(getClinicWeightUnit);
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>(getLexicon);
+  const [preferredProvider, setPreferredProvider] =
+    useState<TranscriptionProviderId | null>(getPreferredProviderId);
+
   const {
     state,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     completeProcessing,
     reset,
     setState,
   } = useRecordingState();
   const {
     isSupported,
+    providerId,
+    isListening,
     segments,
     currentSpeaker,
     interimTranscript,
     error: speechError,
     startListening,
     stopListening,
+    pauseListening,
+    resumeListening,
     toggleSpeaker,
+    selectSpeaker,
+    pushAudioChunk,
     reset: resetSpeech,
     setSegments,
-  } = useSpeechRecognition();
+  } = useSpeechRecognition({
+    participants,
+    language,
+    lexicon,
+    provider: preferredProvider ?? undefined,
+  });
 
   const {
     audioUrl,
     audioBlob,
     audioMimeType,
     startTime: recordingStartTime,
+    pauses: recordingPauses,
     startRecording: startAudioRecording,
     stopRecording: stopAudioRecording,
+    pauseRecording: pauseAudioRecording,
+    resumeRecording: resumeAudioRecording,
+    restoreAudio,
     reset: resetAudio,
-  } = useAudioRecorder();
+  } = useAudioRecorder({ onChunk: pushAudioChunk, persistChunks: true });
 
   const [report, setReport] = useState<IntakeReport | null>(null);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
-  const [needsApiKey, setNeedsApiKey] = useState(!hasApiKey());
+  const [reportRepairs, setReportRepairs] =
+    useState<ExtractionRepairSummary | null>(null);
+  // Intake report or SOAP note; switchable per session
+  const [reportMode, setReportMode] = useState<ReportMode>("intake");
+  const [soapNote, setSoapNote] = useState<SoapNote | null>(null);
+  const [soapRepairs, setSoapRepairs] =
+    useState<ExtractionRepairSummary | null>(null);
+  // Partial report shown while the analysis streams in
+  const [reportProgress, setReportProgress] = useState<ReportProgress | null>(
+    null
+  );
+  const [transcriptFocus, setTranscriptFocus] =
+    useState<TranscriptFocusRequest | null>(null);
+  // A Groq key is only required when analysis still runs on Groq
+  const [needsApiKey, setNeedsApiKey] = useState(
+    () => !hasApiKey() && usesGroqKey("extraction")
+  );
   const [audioCurrentTime, setAudioCurrentTime] = useState(0);
   const [sessionRestored, setSessionRestored] = useState(false);
   const [isTestTranscriptMode, setIsTestTranscriptMode] = useState(false);
@@ -77,10 +181,31 @@ export function HomePage() {
   const [currentVisit, setCurrentVisit] = useState<Visit | null>(null);
   const [visitUrl, setVisitUrl] = useState<string | null>(null);
   const [isCreatingVisit, setIsCreatingVisit] = useState(false);
+  const [unfinishedRecording, setUnfinishedRecording] =
+    useState<UnfinishedRecording | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [isRetranscribing, setIsRetranscribing] = useState(false);
+  const [retranscribeError, setRetranscribeError] = useState<string | null>(
+    null
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  // Set once an imported file is transcribed; analysis runs on the next render
+  const [pendingImportAnalysis, setPendingImportAnalysis] = useState(false);
+  const [pendingStopAnalysis, setPendingStopAnalysis] = useState(false);
+  const [showDiarization, setShowDiarization] = useState(false);
 
   // Ref for audio player to allow seeking
   const audioSeekTimeRef = useRef<number | null>(null);
 
+  // Transcript each output was generated from (to detect later edits)
+  const [analyzedTranscripts, setAnalyzedTranscripts] = useState<
+    Partial<Record<ReportMode, string>>
+  >({});
+
+  // Recording state seen by the last recording-control effect run
+  const previousStateRef = useRef<RecordingState>(state);
+
   // Single-flight lock for runAnalysis
   const isRunningAnalysisRef = useRef<boolean>(false);
 
@@ -88,14 +213,25 @@ export function HomePage() {
   // Always call hook (React rules), but pass false to prevent any API calls
   const { urgency, justEscalated, resetEscalation } = useUrgencyPulse(
     segments,
-    ENABLE_URGENCY_PULSE && state === "recording" && !isTestTranscriptMode
+    ENABLE_URGENCY_PULSE && state === "recording" && !isTestTranscriptMode,
+    participants
   );
 
   // Calculate segments with relative times
   const segmentsWithTimes = useMemo(() => {
     if (!recordingStartTime) return segments;
-    return calculateRelativeTimes(segments, recordingStartTime);
-  }, [segments, recordingStartTime]);
+    return calculateRelativeTimes(segments, recordingStartTime, recordingPauses);
+  }, [segments, recordingStartTime, recordingPauses]);
+
+  const formattedTranscript = useMemo(
+    () => formatTranscriptForAnalysis(segments, participants, true),
+    [segments, participants]
+  );
+  const analyzedTranscript = analyzedTranscripts[reportMode];
+  const isReportStale =
+    !!(reportMode === "soap" ? soapNote : report) &&
+    analyzedTranscript !== undefined &&
+    analyzedTranscript !== formattedTranscript;
 
   // Find active segment during playback
   const activeSegmentIndex = useMemo(() => {
@@ -109,8 +245,31 @@ export function HomePage() {
     // Mark as restored immediately without actually restoring
     // This allows save operations to work, but prevents auto-restore on mount
     setSessionRestored(true);
+
+    // Offer to recover a recording interrupted by a crash or reload
+    loadUnfinishedRecording()
+      .then(setUnfinishedRecording)
+      .catch(console.error);
   }, []);
 
+  // Mark the recording as unfinished until its final audio is saved
+  useEffect(() => {
+    if (!sessionRestored) return;
+    if (state !== "recording" && state !== "paused") return;
+    if (!recordingStartTime) return;
+
+    saveSession({
+      recordingStartTime,
+      recordingPauses,
+      recordingInProgress: true,
+      audioBlob: null,
+      report: null,
+      editedReport: null,
+      soapNote: null,
+      editedSoapNote: null,
+    });
+  }, [state, recordingStartTime, recordingPauses, sessionRestored]);
+
   // Save session when segments change
   useEffect(() => {
     if (!sessionRestored) return;
@@ -118,21 +277,32 @@ export function HomePage() {
 
     saveSession({
       segments,
+      participants,
+      language,
       recordingStartTime,
     });
-  }, [segments, recordingStartTime, sessionRestored]);
+  }, [segments, participants, language, recordingStartTime, sessionRestored]);
 
   // Save session when audio is recorded
   useEffect(() => {
     if (!sessionRestored) return;
     if (!audioBlob) return;
 
+    // Chunks are only needed until the final blob is stored
     saveSession({
       audioBlob,
       audioMimeType,
       recordingStartTime,
-    });
-  }, [audioBlob, audioMimeType, recordingStartTime, sessionRestored]);
+      recordingPauses,
+      recordingInProgress: false,
+    }).then(clearAudioChunks);
+  }, [
+    audioBlob,
+    audioMimeType,
+    recordingStartTime,
+    recordingPauses,
+    sessionRestored,
+  ]);
 
   // Save session when report changes
   useEffect(() => {
@@ -142,14 +312,38 @@ export function HomePage() {
     saveSession({ report });
   }, [report, sessionRestored]);
 
-  // Start speech and audio recording together
+  // Save session when the SOAP note or the output mode changes
+  useEffect(() => {
+    if (!sessionRestored) return;
+    if (!soapNote) return;
+
+    saveSession({ soapNote });
+  }, [soapNote, sessionRestored]);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+
+    saveSession({ reportMode });
+  }, [reportMode, sessionRestored]);
+
+  // Start, pause, resume and stop speech and audio recording together
   useEffect(() => {
-    if (state === "recording") {
+    const previousState = previousStateRef.current;
+    previousStateRef.current = state;
+    if (state === previousState) return;
+
+    if (state === "recording" && previousState === "paused") {
+      resumeListening();
+      resumeAudioRecording();
+    } else if (state === "recording") {
       startListening();
       // Start audio recording (async, but we don't need to wait)
       startAudioRecording().catch((err) => {
         console.error("Audio recording failed:", err);
       });
+    } else if (state === "paused") {
+      pauseListening();
+      pauseAudioRecording();
     } else if (state !== "idle") {
       // Only stop when transitioning away from recording
       stopListening();
@@ -159,8 +353,12 @@ export function HomePage() {
     state,
     startListening,
     stopListening,
+    pauseListening,
+    resumeListening,
     startAudioRecording,
     stopAudioRecording,
+    pauseAudioRecording,
+    resumeAudioRecording,
   ]);
 
   // Update cooldown timer
@@ -183,7 +381,7 @@ export function HomePage() {
     }, 1000);
 
     return () => window.clearInterval(interval);
-  }, [analysisError]); // Re-check when error changes (429 might set cooldown)
+  }, [analysisError, retranscribeError, importError]); // Re-check when errors change (429 might set cooldown)
 
   // Run analysis directly - called from stopRecording and analyzeLoadedTranscript
   const runAnalysis = useCallback(async () => {
@@ -207,12 +405,31 @@ export function HomePage() {
     await new Promise((resolve) => setTimeout(resolve, delayMs));
 
     try {
-      // Format transcript with speaker labels for AI
-      const formattedTranscript = formatTranscriptForAnalysis(segments);
-      const result = await analyzeTranscript(formattedTranscript);
+      const options = {
+        participants,
+        transcriptLanguage: language,
+        reportLanguage,
+      };
+      const result =
+        reportMode === "soap"
+          ? await generateSoapNote(formattedTranscript, options)
+          : await analyzeTranscript(formattedTranscript, {
+              ...options,
+              onProgress: setReportProgress,
+            });
 
       if (result.success) {
-        setReport(result.report);
+        if ("note" in result) {
+          setSoapNote(result.note);
+          setSoapRepairs(result.repairs);
+        } else {
+          setReport(result.report);
+          setReportRepairs(result.repairs);
+        }
+        setAnalyzedTranscripts((prev) => ({
+          ...prev,
+          [reportMode]: formattedTranscript,
+        }));
       } else {
         setAnalysisError(result.error || "Analysis failed");
         // Check if cooldown was set
@@ -225,11 +442,125 @@ export function HomePage() {
       );
     } finally {
       // Always complete processing to prevent stuck state
+      setReportProgress(null);
       completeProcessing();
       // Always release the lock
       isRunningAnalysisRef.current = false;
     }
-  }, [segments, isTestTranscriptMode, setState, completeProcessing]);
+  }, [
+    segments,
+    formattedTranscript,
+    participants,
+    language,
+    reportLanguage,
+    reportMode,
+    isTestTranscriptMode,
+    setState,
+    completeProcessing,
+  ]);
+
+  // Analyze imported audio once its transcript has reached state
+  useEffect(() => {
+    if (!pendingImportAnalysis) return;
+    if (state !== "idle" || segments.length === 0) return;
+
+    setPendingImportAnalysis(false);
+    runAnalysis();
+  }, [pendingImportAnalysis, state, segments.length, runAnalysis]);
+
+  // Analyze a stopped recording once the provider has ended; Whisper only
+  // ends after its queued windows are transcribed, so segments are final
+  useEffect(() => {
+    if (!pendingStopAnalysis || isListening) return;
+
+    setPendingStopAnalysis(false);
+    runAnalysis();
+  }, [pendingStopAnalysis, isListening, runAnalysis]);
+
+  // Re-transcribe the saved recording with Whisper and replace segments
+  const handleRetranscribe = useCallback(async () => {
+    if (isRetranscribing || !audioBlob || !recordingStartTime) return;
+
+    setIsRetranscribing(true);
+    setRetranscribeError(null);
+
+    try {
+      const result = await retranscribeRecording(
+        audioBlob,
+        segments,
+        recordingStartTime,
+        language,
+        recordingPauses
+      );
+
+      if (result.success) {
+        setSegments(correctSegments(result.segments, lexicon));
+      } else {
+        setRetranscribeError(result.error);
+        // Check if cooldown was set
+        setCooldownSeconds(getCooldownRemaining());
+      }
+    } finally {
+      setIsRetranscribing(false);
+    }
+  }, [
+    isRetranscribing,
+    audioBlob,
+    recordingStartTime,
+    recordingPauses,
+    segments,
+    language,
+    lexicon,
+    setSegments,
+  ]);
+
+  // Report language is a clinic-wide preference, not per session
+  const handleReportLanguageChange = useCallback((code: LanguageCode) => {
+    setReportLanguage(code);
+    setClinicLanguage(code);
+  }, []);
+
+  // Like the report language, the weight unit is a clinic-wide preference
+  const handleWeightUnitChange = useCallback((unit: WeightUnit) => {
+    setWeightUnit(unit);
+    setClinicWeightUnit(unit);
+  }, []);
+
+  // The transcription backend is a device preference: it depends on the browser
+  const handleProviderChange = useCallback((id: TranscriptionProviderId) => {
+    setPreferredProvider(id);
+    setPreferredProviderId(id);
+  }, []);
+
+  const handleLexiconChange = useCallback((entries: LexiconEntry[]) => {
+    setLexicon(entries);
+    saveLexicon(entries);
+  }, []);
+
+  const handleLexiconReset = useCallback(() => {
+    setLexicon(resetLexicon());
+  }, []);
+
+  // Undo a vocabulary correction the vet disagrees with (safe while recording)
+  const handleRevertCorrection = useCallback(
+    (segmentIndex: number, correctionIndex: number) => {
+      setSegments((prev) =>
+        prev.map((seg, i) =>
+          i === segmentIndex ? revertCorrection(seg, correctionIndex) : seg
+        )
+      );
+    },
+    [setSegments]
+  );
+
+  // Apply speaker labels confirmed in the diarization review
+  const handleDiarizationApply = useCallback(
+    (relabeled: TranscriptSegment[]) => {
+      setSegments(relabeled);
+      setShowDiarization(false);
+    },
+    [setSegments]
+  );
 
   const handleReset = useCallback(async () => {
     // Clear IndexedDB session
@@ -240,11 +571,18 @@ export function HomePage() {
     resetSpeech();
     resetAudio();
     setReport(null);
+    setReportRepairs(null);
+    setSoapNote(null);
+    setSoapRepairs(null);
     setAnalysisError(null);
     setAudioCurrentTime(0);
     audioSeekTimeRef.current = null;
     setIsTestTranscriptMode(false);
     setCooldownSeconds(0);
+    setRetranscribeError(null);
+    setImportError(null);
+    setShowDiarization(false);
+    setPendingStopAnalysis(false);
 
     console.log("Session cleared");
   }, [reset, resetSpeech, resetAudio]);
@@ -270,16 +608,150 @@ export function HomePage() {
     []
   );
 
+  // Report field evidence link: reveal the segment and seek the audio to it
+  const handleEvidenceClick = useCallback(
+    (evidence: FieldEvidence) => {
+      const segment = segmentsWithTimes[evidence.segmentIndex];
+      if (!segment) return;
+
+      setTranscriptFocus({
+        segmentIndex: evidence.segmentIndex,
+        requestId: Date.now(),
+      });
+      if (audioUrl && segment.relativeTime !== undefined) {
+        handleSegmentClick(evidence.segmentIndex, segment.relativeTime);
+      }
+    },
+    [segmentsWithTimes, audioUrl, handleSegmentClick]
+  );
+
+  // Extract one report field again; ReportPreview keeps the vet's edits
+  const handleRegenerateField = useCallback(
+    async (path: string): Promise<FieldExtractionResponse> => {
+      if (!report) {
+        return { success: false, error: "No report to update." };
+      }
+      // With several pets the model is told which one the field is about
+      const patientPath = parsePatientFieldPath(path);
+      const patient = patientPath && report.patients[patientPath.index];
+      const result = await extractReportField(formattedTranscript, path, {
+        currentValue: getReportField(report, path)?.value,
+        patientLabel:
+          patient && report.patients.length > 1
+            ? getPatientLabel(patient, patientPath.index)
+            : undefined,
+        participants,
+        transcriptLanguage: language,
+        reportLanguage,
+      });
+
+      if (!result.success) {
+        setCooldownSeconds(getCooldownRemaining());
+      }
+      return result;
+    },
+    [report, formattedTranscript, participants, language, reportLanguage]
+  );
+
+  // A regenerated field replaced the old one: keep it as the AI original
+  const handleFieldRegenerated = useCallback(
+    (path: string, field: ConfidentField<unknown>) => {
+      setReport((prev) => (prev ? setReportField(prev, path, field) : prev));
+      // A regenerated field no longer holds a default or a conflict
+      setReportRepairs((prev) =>
+        prev
+          ? {
+              ...prev,
+              defaultedFields: prev.defaultedFields.filter((f) => f !== path),
+              conflictingFields: prev.conflictingFields?.filter(
+                (f) => f !== path
+              ),
+            }
+          : prev
+      );
+    },
+    []
+  );
+
   // Handle report edit - save to session
   const handleReportEdit = useCallback((editedReport: IntakeReport) => {
     saveSession({ editedReport });
   }, []);
 
+  const handleSoapNoteEdit = useCallback((editedSoapNote: SoapNote) => {
+    saveSession({ editedSoapNote });
+  }, []);
+
+  // Restore an interrupted recording; rebuild its transcript with Whisper
+  // if none was saved before the crash
+  const handleRecoverRecording = useCallback(async () => {
+    if (!unfinishedRecording || isRecovering) return;
+    const { session, audioBlob: recoveredBlob } = unfinishedRecording;
+    const recoveredLanguage = session.language ?? DEFAULT_LANGUAGE;
+    const recoveredPauses = session.recordingPauses ?? [];
+
+    setIsRecovering(true);
+    try {
+      if (session.participants) setParticipants(session.participants);
+      setLanguage(recoveredLanguage);
+      setSegments(session.segments);
+
+      if (recoveredBlob) {
+        restoreAudio(
+          recoveredBlob,
+          recoveredBlob.type,
+          session.recordingStartTime,
+          recoveredPauses
+        );
+      }
+
+      if (
+        session.segments.length === 0 &&
+        recoveredBlob &&
+        session.recordingStartTime
+      ) {
+        const result = await retranscribeRecording(
+          recoveredBlob,
+          [],
+          session.recordingStartTime,
+          recoveredLanguage,
+          recoveredPauses
+        );
+        if (result.success) {
+          setSegments(correctSegments(result.segments, lexicon));
+        } else {
+          setRetranscribeError(result.error);
+          setCooldownSeconds(getCooldownRemaining());
+        }
+      }
+
+      // Without audio there is nothing left to finish
+      if (!recoveredBlob) {
+        saveSession({ recordingInProgress: false });
+      }
+      setUnfinishedRecording(null);
+    } finally {
+      setIsRecovering(false);
+    }
+  }, [unfinishedRecording, isRecovering, lexicon, restoreAudio, setSegments]);
+
+  const handleDiscardRecording = useCallback(() => {
+    setUnfinishedRecording(null);
+    clearSession().catch(console.error);
+  }, []);
+
   // Start new recording - clears previous session state
   const handleStartRecording = useCallback(() => {
+    // A new recording replaces any interrupted one
+    setUnfinishedRecording(null);
     // Clear previous analysis results before starting new recording
     setReport(null);
+    setReportRepairs(null);
+    setSoapNote(null);
+    setSoapRepairs(null);
     setAnalysisError(null);
+    setRetranscribeError(null);
+    setShowDiarization(false);
     setIsTestTranscriptMode(false);
     resetSpeech();
     resetAudio();
@@ -293,6 +765,9 @@ export function HomePage() {
     resetSpeech(); // Clear transcript segments
     resetAudio(); // Clear audio recording
     setReport(null); // Clear any existing report
+    setReportRepairs(null);
+    setSoapNote(null);
+    setSoapRepairs(null);
     setAnalysisError(null); // Clear any errors
     setIsTestTranscriptMode(true); // Enable test mode
 
@@ -300,10 +775,83 @@ export function HomePage() {
     const mockSegments = getMockTranscript();
     setSegments(mockSegments);
 
+    // Dev builds: make sure the mock owner's name never reaches the LLM
+    if (import.meta.env.DEV) {
+      for (const problem of checkRedaction()) {
+        console.warn(`PHI redaction: ${problem}`);
+      }
+    }
+
     // Clear session to ensure clean state
     clearSession().catch(console.error);
   }, [reset, resetSpeech, resetAudio, setSegments]);
 
+  // Import an existing recording (e.g. a triage call): play it back,
+  // transcribe it with Whisper, then analyze it like a finished recording
+  const handleImportAudio = useCallback(
+    async (file: File) => {
+      if (isImporting) return;
+
+      const invalid = validateAudioFile(file);
+      if (invalid) {
+        setImportError(invalid);
+        return;
+      }
+
+      // Full reset: the import replaces the current session
+      reset();
+      resetSpeech();
+      resetAudio();
+      setReport(null);
+      setReportRepairs(null);
+      setSoapNote(null);
+      setSoapRepairs(null);
+      setAnalysisError(null);
+      setRetranscribeError(null);
+      setImportError(null);
+      setShowDiarization(false);
+      setIsTestTranscriptMode(false);
+      setUnfinishedRecording(null);
+      await clearSession();
+
+      // Imported audio has no recording start of its own; anchor it to now
+      const startTime = Date.now();
+      restoreAudio(file, file.type || null, startTime);
+
+      setIsImporting(true);
+      try {
+        const result = await transcribeImportedAudio(
+          file,
+          startTime,
+          getInitialSpeaker(participants),
+          language
+        );
+
+        if (result.success) {
+          setSegments(correctSegments(result.segments, lexicon));
+          setPendingImportAnalysis(true);
+        } else {
+          setImportError(result.error);
+          // Check if cooldown was set
+          setCooldownSeconds(getCooldownRemaining());
+        }
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [
+      isImporting,
+      participants,
+      language,
+      lexicon,
+      reset,
+      resetSpeech,
+      resetAudio,
+      restoreAudio,
+      setSegments,
+    ]
+  );
+
   // Trigger analysis of loaded transcript
   const analyzeLoadedTranscript = useCallback(() => {
     if (state !== "idle" || segments.length === 0) return;
@@ -391,7 +939,8 @@ export function HomePage() {
   }
 
   // Only show speech errors that are actual problems (not during active recording)
-  const displayError = state === "recording" ? null : speechError;
+  const displayError =
+    state === "recording" || state === "paused" ? null : speechError;
 
   // Show collapsible transcript after recording completes
   const showCollapsibleTranscript =
@@ -422,8 +971,60 @@ export function HomePage() {
       )}
 
       <main className="flex-1 flex flex-col p-4 gap-4 overflow-y-auto">
+        {/* Interrupted recording found on load */}
+        {unfinishedRecording && state === "idle" && (
+          <RecoveryBanner
+            recording={unfinishedRecording}
+            isRecovering={isRecovering}
+            onRecover={handleRecoverRecording}
+            onDiscard={handleDiscardRecording}
+          />
+        )}
+        {retranscribeError && state === "idle" && (
+          <p className="w-full max-w-2xl mx-auto text-sm text-red-600 dark:text-red-400">
+            Could not rebuild the transcript: {retranscribeError}
+          </p>
+        )}
+        {importError && state === "idle" && (
+          <p className="w-full max-w-2xl mx-auto text-sm text-red-600 dark:text-red-400">
+            Could not import the audio file: {importError}
+          </p>
+        )}
+        {isImporting && (
+          <div className="w-full max-w-2xl mx-auto flex items-center gap-3 text-sm text-slate-500 dark:text-slate-400">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-teal-600" />
+            Transcribing imported audio...
+          </div>
+        )}
+
+        {/* Languages and visit participants - configurable before recording */}
+        {state === "idle" && (
+          <>
+            <LanguagePicker
+              language={language}
+              onLanguageChange={setLanguage}
+              reportLanguage={reportLanguage}
+              onReportLanguageChange={handleReportLanguageChange}
+            />
+            <ReportModePicker mode={reportMode} onChange={setReportMode} />
+            <TranscriptionProviderPicker
+              providerId={providerId}
+              onChange={handleProviderChange}
+            />
+            <ParticipantEditor
+              participants={participants}
+              onChange={setParticipants}
+            />
+            <LexiconEditor
+              lexicon={lexicon}
+              onChange={handleLexiconChange}
+              onReset={handleLexiconReset}
+            />
+          </>
+        )}
+
         {/* Audio player - show when recording is complete and we have audio */}
-        {audioUrl && state !== "recording" && (
+        {audioUrl && state !== "recording" && state !== "paused" && (
           <div className="w-full max-w-2xl mx-auto">
             <AudioPlayer
               audioUrl={audioUrl}
@@ -437,18 +1038,41 @@ export function HomePage() {
           </div>
         )}
 
+        {/* Acoustic speaker detection review */}
+        {showDiarization && audioBlob && state === "complete" && (
+          <DiarizationReview
+            audioBlob={audioBlob}
+            segments={segmentsWithTimes}
+            participants={participants}
+            onApply={handleDiarizationApply}
+            onCancel={() => setShowDiarization(false)}
+            onPlaySegment={audioUrl ? handleSegmentClick : undefined}
+          />
+        )}
+
         {/* Collapsible transcript - show after recording completes */}
         {showCollapsibleTranscript && (
           <CollapsibleTranscript
             segments={segmentsWithTimes}
+            participants={participants}
             onSegmentClick={audioUrl ? handleSegmentClick : undefined}
             activeSegmentIndex={activeSegmentIndex}
+            onRevertCorrection={handleRevertCorrection}
+            onEditSegments={state === "complete" ? setSegments : undefined}
+            focusRequest={transcriptFocus}
           />
         )}
 
         {/* Main content area - render based on state */}
-        {state === "processing" ? (
-          /* Loading state during analysis - always show spinner */
+        {state === "processing" && reportProgress ? (
+          /* Report streaming in: fill sections as they arrive */
+          <ReportPreview
+            report={reportProgress.report}
+            pendingFields={reportProgress.pendingFields}
+            weightUnit={weightUnit}
+          />
+        ) : state === "processing" ? (
+          /* Loading state until the first fields arrive */
           <div className="flex-1 w-full max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 p-6 border border-slate-200 dark:border-slate-700">
             <div className="text-center">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-teal-600 mx-auto mb-4"></div>
@@ -456,13 +1080,16 @@ export function HomePage() {
                 Analyzing Conversation...
               </h3>
               <p className="text-sm text-slate-500 dark:text-slate-400">
-                Extracting structured data from transcript
+                {reportMode === "soap"
+                  ? "Writing the SOAP note from the transcript"
+                  : "Extracting structured data from transcript"}
               </p>
             </div>
           </div>
-        ) : state === "complete" && report ? (
-          /* Report available */
+        ) : state === "complete" && (report || soapNote) ? (
+          /* Report and/or SOAP note available */
           <>
+            <ReportModePicker mode={reportMode} onChange={setReportMode} />
             {/* Owner Intake Data (if available) */}
             {currentVisit?.intakeData && currentVisit.intakeData.petName && (
               <div className="w-full max-w-2xl mx-auto bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700/50 rounded-xl shadow-sm p-6 mb-4">
@@ -513,12 +1140,92 @@ export function HomePage() {
                 </div>
               </div>
             )}
-            <ReportPreview
-              report={report}
-              onReportEdit={handleReportEdit}
-              visit={currentVisit}
-              onShareSummary={currentVisit ? handleShareSummary : undefined}
-            />
+            {/* Transcript edited after the report was generated */}
+            {isReportStale && (
+              <div className="w-full max-w-2xl mx-auto flex items-center justify-between gap-3 px-4 py-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-xl">
+                <p className="text-sm text-amber-800 dark:text-amber-300">
+                  The transcript has changed since this{" "}
+                  {reportMode === "soap" ? "note" : "report"} was generated.
+                  Re-analyzing replaces it, including your edits.
+                </p>
+                <button
+                  onClick={runAnalysis}
+                  disabled={cooldownSeconds > 0}
+                  className="shrink-0 px-3 py-1.5 text-sm font-semibold text-white bg-amber-600 hover:bg-amber-500 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {cooldownSeconds > 0
+                    ? `Wait ${cooldownSeconds}s`
+                    : "Re-analyze Transcript"}
+                </button>
+              </div>
+            )}
+            {reportMode === "soap" && soapNote ? (
+              <>
+                {soapRepairs && (
+                  <ExtractionRepairNotice
+                    repairs={soapRepairs}
+                    fields={SOAP_FIELDS}
+                  />
+                )}
+                <SoapNotePreview
+                  note={soapNote}
+                  onNoteEdit={handleSoapNoteEdit}
+                  onEvidenceClick={
+                    isReportStale ? undefined : handleEvidenceClick
+                  }
+                />
+              </>
+            ) : reportMode === "intake" && report ? (
+              <>
+                {reportRepairs && (
+                  <ExtractionRepairNotice
+                    repairs={reportRepairs}
+                    patients={report.patients}
+                  />
+                )}
+                <ReportPreview
+                  report={report}
+                  onReportEdit={handleReportEdit}
+                  visit={currentVisit}
+                  onShareSummary={currentVisit ? handleShareSummary : undefined}
+                  onEvidenceClick={
+                    isReportStale ? undefined : handleEvidenceClick
+                  }
+                  onRegenerateField={
+                    isReportStale || cooldownSeconds > 0
+                      ? undefined
+                      : handleRegenerateField
+                  }
+                  onFieldRegenerated={handleFieldRegenerated}
+                  weightUnit={weightUnit}
+                  onWeightUnitChange={handleWeightUnitChange}
+                />
+              </>
+            ) : (
+              /* The other output exists; offer to write this one too */
+              <div className="w-full max-w-2xl mx-auto bg-white dark:bg-slate-800 rounded-xl shadow-sm dark:shadow-slate-900/50 border border-slate-200 dark:border-slate-700 p-6 text-center space-y-3">
+                <p className="text-slate-600 dark:text-slate-300">
+                  No {reportMode === "soap" ? "SOAP note" : "intake report"}{" "}
+                  has been written for this session yet.
+                </p>
+                {analysisError && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {analysisError}
+                  </p>
+                )}
+                <button
+                  onClick={runAnalysis}
+                  disabled={cooldownSeconds > 0}
+                  className="px-4 py-2 text-sm font-semibold text-white bg-teal-600 hover:bg-teal-500 rounded-lg shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {cooldownSeconds > 0
+                    ? `Wait ${cooldownSeconds}s`
+                    : reportMode === "soap"
+                      ? "Write SOAP Note"
+                      : "Generate Intake Report"}
+                </button>
+              </div>
+            )}
           </>
         ) : state === "complete" && analysisError ? (
           /* Analysis error */
@@ -582,10 +1289,13 @@ export function HomePage() {
             currentSpeaker={currentSpeaker}
             interimTranscript={interimTranscript}
             error={displayError}
+            participants={participants}
             onToggleSpeaker={state === "recording" ? toggleSpeaker : undefined}
+            onSelectSpeaker={state === "recording" ? selectSpeaker : undefined}
             activeSegmentIndex={activeSegmentIndex}
             onSegmentClick={audioUrl ? handleSegmentClick : undefined}
             hasAudio={!!audioUrl}
+            onRevertCorrection={handleRevertCorrection}
           />
         )}
 
@@ -596,12 +1306,47 @@ export function HomePage() {
             onStart={handleStartRecording}
             onStop={() => {
               stopRecording();
-              // Run analysis immediately after stopping
-              setTimeout(() => runAnalysis(), 100);
+              setPendingStopAnalysis(true);
             }}
             onReset={handleReset}
+            onPause={pauseRecording}
+            onResume={resumeRecording}
           />
 
+          {/* Whisper re-transcription of the saved recording */}
+          {state === "complete" && audioBlob && recordingStartTime && (
+            <div className="flex flex-col items-center gap-1">
+              <button
+                onClick={handleRetranscribe}
+                disabled={isRetranscribing || cooldownSeconds > 0}
+                className={`px-4 py-2.5 text-sm font-semibold rounded-lg transition-all ${
+                  isRetranscribing || cooldownSeconds > 0
+                    ? "bg-slate-300 text-slate-500 cursor-not-allowed dark:bg-slate-700 dark:text-slate-500"
+                    : "text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-900/30 hover:bg-teal-100 dark:hover:bg-teal-900/50 border border-teal-200 dark:border-teal-700/50"
+                }`}
+              >
+                {isRetranscribing
+                  ? "Re-transcribing..."
+                  : cooldownSeconds > 0
+                  ? `Wait ${cooldownSeconds}s...`
+                  : "Re-transcribe with Whisper"}
+              </button>
+              {retranscribeError && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {retranscribeError}
+                </p>
+              )}
+              {!showDiarization && (
+                <button
+                  onClick={() => setShowDiarization(true)}
+                  className="px-4 py-2.5 text-sm font-semibold text-teal-700 dark:text-teal-300 bg-teal-50 dark:bg-teal-900/30 hover:bg-teal-100 dark:hover:bg-teal-900/50 border border-teal-200 dark:border-teal-700/50 rounded-lg transition-colors"
+                >
+                  Detect Speakers from Audio
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Create Visit Link button */}
           {!currentVisit && (
             <button
@@ -648,6 +1393,14 @@ export function HomePage() {
             Load Test Transcript
           </button>
 
+          {state === "idle" && (
+            <AudioImportButton
+              onImport={handleImportAudio}
+              isImporting={isImporting}
+              disabled={cooldownSeconds > 0}
+            />
+          )}
+
           {state === "idle" && segments.length > 0 && (
             <button
               onClick={analyzeLoadedTranscript}
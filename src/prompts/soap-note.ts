@@ -0,0 +1,62 @@
+/**
+ * Prompts for writing a SOAP note from a consultation transcript
+ * (the alternative to the intake report)
+ */
+
+import type { Participant } from "../types/transcript";
+import { DEFAULT_PARTICIPANTS } from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE, getLanguage } from "../types/language";
+import { TRANSCRIPT_GUIDE, describeParticipants } from "./veterinary-intake";
+
+export const SOAP_NOTE_SYSTEM_PROMPT = `You are a veterinary scribe. Your job is to write the SOAP note for the medical record from a conversation transcript between veterinary staff and the people who brought the pet in.
+
+${TRANSCRIPT_GUIDE}
+
+## SECTIONS
+
+- "subjective": the reason for the visit and the history as reported by the owner or family: signalment (name, species, breed, age, sex), presenting complaint, onset and duration, progression, appetite, behaviour, diet, current medications, allergies and relevant past history.
+- "objective": what clinical staff observed or measured during this visit: vital signs, weight, physical exam findings and results of any tests run. Never put owner reports here.
+- "assessment": the clinician's interpretation: problem list, likely diagnosis and differentials, as discussed in the visit. Do not invent a diagnosis the staff did not raise; if none was discussed, summarize the problems to work up.
+- "plan": diagnostics, treatment (drug, dose, route, frequency, duration), client instructions and follow-up or recheck timing.
+
+Write each section as concise clinical prose or short lines in standard veterinary charting style. When several pets are discussed, cover each pet within every section, starting its part with the pet's name. Use "Not mentioned" for a section the conversation does not cover at all.
+
+## CONFIDENCE
+
+Each section is { "value": "<text>", "confidence": { "score": 0.0-1.0, "note": "optional", "evidence": [{ "segment": <segment number>, "quote": "<exact words from that segment>" }] } }.
+- HIGH (0.8-1.0): the section is based on explicit statements
+- MEDIUM (0.5-0.79): parts of it are implied or incomplete
+- LOW (0.0-0.49): it is mostly inferred or the conversation is unclear
+Cite the segments the section relies on most, quoting only the supporting words verbatim in the transcript's language. Use the note to say what is missing or uncertain.
+
+IMPORTANT: Return ONLY valid JSON, no markdown, no code blocks, no explanation:
+{
+  "subjective": { "value": "...", "confidence": { "score": 0.9, "evidence": [{ "segment": 2, "quote": "he's been vomiting since yesterday" }] } },
+  "objective": { "value": "...", "confidence": { "score": 0.6, "note": "No temperature recorded" } },
+  "assessment": { "value": "...", "confidence": { "score": 0.7 } },
+  "plan": { "value": "...", "confidence": { "score": 0.8 } }
+}`;
+
+export const createSoapNotePrompt = (
+  transcript: string,
+  participants: Participant[] = DEFAULT_PARTICIPANTS,
+  transcriptLanguage: LanguageCode = DEFAULT_LANGUAGE,
+  reportLanguage: LanguageCode = DEFAULT_LANGUAGE
+): string => {
+  return `Please write the SOAP note for this veterinary consultation WITH a confidence score per section.
+
+TRANSCRIPT LANGUAGE: ${getLanguage(transcriptLanguage).name}
+REPORT LANGUAGE: ${getLanguage(reportLanguage).name}
+
+PARTICIPANTS:
+${describeParticipants(participants)}
+
+TRANSCRIPT:
+${transcript}
+
+Remember:
+- Return ONLY valid JSON with "subjective", "objective", "assessment" and "plan"
+- Every section must have "value" and "confidence" with "score" and "evidence"
+- Write the note in ${getLanguage(reportLanguage).name}`;
+};
@@ -35,7 +35,8 @@ Level mapping:
 IMPORTANT:
 - Return ONLY valid JSON, no markdown, no code blocks
 - Be conservative - if uncertain, choose lower urgency
-- Focus on what has been explicitly mentioned, not assumptions`;
+- Focus on what has been explicitly mentioned, not assumptions
+- Personal details may appear as placeholders such as [NAME_1] or [PHONE_1]; keep them as they are`;
 
 export const createUrgencyPrompt = (transcript: string): string => {
   return `Analyze this partial veterinary conversation transcript and determine the current urgency level:
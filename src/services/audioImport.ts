@@ -0,0 +1,109 @@
+import type { Speaker, TranscriptSegment } from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE } from "../types/language";
+import { getAudioSizeError, transcribeAudio } from "./whisper";
+
+// Containers Whisper accepts (checked by extension when the browser gives no MIME type)
+const SUPPORTED_EXTENSIONS = [
+  "mp3",
+  "mp4",
+  "m4a",
+  "mpeg",
+  "mpga",
+  "wav",
+  "webm",
+  "ogg",
+  "flac",
+];
+
+export interface AudioImportResult {
+  success: true;
+  segments: TranscriptSegment[];
+}
+
+export interface AudioImportError {
+  success: false;
+  error: string;
+}
+
+export type AudioImportResponse = AudioImportResult | AudioImportError;
+
+/**
+ * Check that a file can be sent to Whisper; returns an error message
+ * or null when the file is usable
+ */
+export function validateAudioFile(file: File): string | null {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  if (
+    !file.type.startsWith("audio/") &&
+    !SUPPORTED_EXTENSIONS.includes(extension)
+  ) {
+    return `${file.name} is not a supported audio file.`;
+  }
+  const sizeError = getAudioSizeError(file.name, file.size);
+  if (sizeError) {
+    return sizeError;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty.`;
+  }
+  return null;
+}
+
+/**
+ * Transcribe an existing recording (e.g. a triage phone call) with Whisper.
+ *
+ * Each Whisper phrase becomes its own segment so speakers can be
+ * relabeled afterwards (Detect Speakers or the transcript editor);
+ * all phrases start out attributed to `speaker`.
+ *
+ * @param file - The imported audio
+ * @param startTime - Absolute time to treat as the start of the audio (ms)
+ * @param speaker - Initial speaker for every segment
+ * @param language - Language spoken in the recording
+ */
+export async function transcribeImportedAudio(
+  file: File,
+  startTime: number,
+  speaker: Speaker,
+  language: LanguageCode = DEFAULT_LANGUAGE
+): Promise<AudioImportResponse> {
+  const invalid = validateAudioFile(file);
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  const result = await transcribeAudio(file, { timestamps: true, language });
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  const segments: TranscriptSegment[] = result.segments
+    .map((s) => ({ text: s.text.trim(), start: s.start }))
+    .filter((s) => s.text.length > 0)
+    .map((s) => ({
+      speaker,
+      text: s.text,
+      timestamp: startTime + Math.round(s.start * 1000),
+      relativeTime: s.start,
+    }));
+
+  // Some servers omit phrase segments; keep the plain text as one segment
+  if (segments.length === 0 && result.text) {
+    segments.push({
+      speaker,
+      text: result.text,
+      timestamp: startTime,
+      relativeTime: 0,
+    });
+  }
+
+  if (segments.length === 0) {
+    return {
+      success: false,
+      error: "Whisper returned no speech for this recording.",
+    };
+  }
+
+  return { success: true, segments };
+}
@@ -0,0 +1,356 @@
+/**
+ * Acoustic speaker diarization for recorded visits
+ *
+ * Decodes the recording with the Web Audio API, computes pitch and
+ * energy features for the audio behind each transcript segment, and
+ * clusters segments into one voice per participant with k-means. The caller decides
+ * which participant each cluster belongs to (see DiarizationReview).
+ */
+
+import type { Speaker, TranscriptSegment } from "../types/transcript";
+
+// Analysis sample rate (8kHz is plenty for voice pitch)
+const ANALYSIS_SAMPLE_RATE = 8000;
+const FRAME_SIZE = 256; // 32ms
+const HOP_SIZE = 128; // 16ms, so frames overlap by half
+// Human speaking pitch range
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+// Frames quieter than this (RMS) are treated as silence
+const SILENCE_RMS = 0.01;
+// Minimum normalized autocorrelation for a frame to count as voiced
+const VOICING_THRESHOLD = 0.3;
+const KMEANS_ITERATIONS = 25;
+const DEFAULT_CLUSTER_COUNT = 2;
+
+/**
+ * Acoustic features for one transcript segment
+ */
+export interface SegmentVoiceFeatures {
+  /** Median fundamental frequency of voiced frames (Hz) */
+  pitch: number;
+  /** Mean log energy of non-silent frames */
+  energy: number;
+  /** Number of voiced frames the features are based on */
+  voicedFrames: number;
+}
+
+/**
+ * A cluster of segments that appear to share a voice
+ */
+export interface VoiceCluster {
+  id: number;
+  /** Indices into the transcript segments */
+  segmentIndices: number[];
+  /** Mean pitch across the cluster (Hz) */
+  meanPitch: number;
+  /** Mean log energy across the cluster */
+  meanEnergy: number;
+}
+
+export interface DiarizationResult {
+  success: true;
+  clusters: VoiceCluster[];
+  /** Cluster id per segment (-1 when the segment had no usable audio) */
+  assignments: number[];
+}
+
+export interface DiarizationError {
+  success: false;
+  error: string;
+}
+
+export type DiarizationResponse = DiarizationResult | DiarizationError;
+
+/**
+ * Decode a recording into mono samples at the analysis sample rate
+ */
+async function decodeToMono(audioBlob: Blob): Promise<Float32Array> {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const decodeContext = new AudioContext();
+  try {
+    const decoded = await decodeContext.decodeAudioData(arrayBuffer);
+    const length = Math.ceil(decoded.duration * ANALYSIS_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return rendered.getChannelData(0);
+  } finally {
+    decodeContext.close().catch(() => {
+      // Ignore close errors
+    });
+  }
+}
+
+/**
+ * Estimate pitch of a frame with normalized autocorrelation.
+ * Returns null for unvoiced frames.
+ */
+function estimatePitch(samples: Float32Array, start: number): number | null {
+  const minLag = Math.floor(ANALYSIS_SAMPLE_RATE / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(ANALYSIS_SAMPLE_RATE / MIN_PITCH_HZ);
+
+  let energy = 0;
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const s = samples[start + i] ?? 0;
+    energy += s * s;
+  }
+  if (energy === 0) return null;
+
+  let bestLag = -1;
+  let bestCorrelation = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      correlation += (samples[start + i] ?? 0) * (samples[start + i + lag] ?? 0);
+    }
+    const normalized = correlation / energy;
+    if (normalized > bestCorrelation) {
+      bestCorrelation = normalized;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0 || bestCorrelation < VOICING_THRESHOLD) return null;
+  return ANALYSIS_SAMPLE_RATE / bestLag;
+}
+
+/**
+ * Compute voice features for a time range of the recording
+ */
+function computeFeatures(
+  samples: Float32Array,
+  startSeconds: number,
+  endSeconds: number
+): SegmentVoiceFeatures | null {
+  const startSample = Math.max(0, Math.floor(startSeconds * ANALYSIS_SAMPLE_RATE));
+  const endSample = Math.min(
+    samples.length - FRAME_SIZE,
+    Math.floor(endSeconds * ANALYSIS_SAMPLE_RATE)
+  );
+
+  const pitches: number[] = [];
+  let energySum = 0;
+  let energyFrames = 0;
+
+  for (let pos = startSample; pos < endSample; pos += HOP_SIZE) {
+    let sumSquares = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const s = samples[pos + i] ?? 0;
+      sumSquares += s * s;
+    }
+    const rms = Math.sqrt(sumSquares / FRAME_SIZE);
+    if (rms < SILENCE_RMS) continue;
+
+    energySum += Math.log(rms);
+    energyFrames++;
+
+    const pitch = estimatePitch(samples, pos);
+    if (pitch !== null) pitches.push(pitch);
+  }
+
+  if (pitches.length === 0) return null;
+
+  pitches.sort((a, b) => a - b);
+  return {
+    pitch: pitches[Math.floor(pitches.length / 2)] ?? 0,
+    energy: energySum / energyFrames,
+    voicedFrames: pitches.length,
+  };
+}
+
+/**
+ * Cluster feature vectors with k-means (features are z-score normalized)
+ */
+function kMeans(points: number[][], k: number): number[] {
+  const dims = points[0]?.length ?? 0;
+
+  // Normalize each dimension
+  const means: number[] = [];
+  const stds: number[] = [];
+  for (let d = 0; d < dims; d++) {
+    const values = points.map((p) => p[d] ?? 0);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance =
+      values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length;
+    means.push(mean);
+    stds.push(Math.sqrt(variance) || 1);
+  }
+  const normalized = points.map((p) =>
+    p.map((v, d) => (v - (means[d] ?? 0)) / (stds[d] ?? 1))
+  );
+
+  // Initialize centroids spread along the first dimension (pitch)
+  const order = normalized
+    .map((p, i) => ({ i, v: p[0] ?? 0 }))
+    .sort((a, b) => a.v - b.v);
+  let centroids = Array.from({ length: k }, (_, c) => {
+    const pick = order[Math.round((c * (order.length - 1)) / Math.max(1, k - 1))];
+    return [...(normalized[pick?.i ?? 0] ?? [])];
+  });
+
+  let assignments = new Array<number>(normalized.length).fill(0);
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    const next = normalized.map((p) => {
+      let best = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((c, ci) => {
+        const distance = p.reduce((sum, v, d) => sum + (v - (c[d] ?? 0)) ** 2, 0);
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          best = ci;
+        }
+      });
+      return best;
+    });
+
+    const changed = next.some((a, i) => a !== assignments[i]);
+    assignments = next;
+
+    centroids = centroids.map((c, ci) => {
+      const members = normalized.filter((_, i) => assignments[i] === ci);
+      if (members.length === 0) return c;
+      return c.map(
+        (_, d) => members.reduce((sum, m) => sum + (m[d] ?? 0), 0) / members.length
+      );
+    });
+
+    if (!changed && iter > 0) break;
+  }
+
+  return assignments;
+}
+
+/**
+ * Cluster transcript segments by voice using the recorded audio.
+ * Each segment is assumed to span from its relativeTime to the next
+ * segment's relativeTime (or the end of the recording).
+ *
+ * @param audioBlob - Full recording
+ * @param segments - Transcript segments with relativeTime set
+ * @param clusterCount - Number of voices to look for (usually the participant count)
+ */
+export async function diarizeRecording(
+  audioBlob: Blob,
+  segments: TranscriptSegment[],
+  clusterCount: number = DEFAULT_CLUSTER_COUNT
+): Promise<DiarizationResponse> {
+  if (typeof AudioContext === "undefined") {
+    return {
+      success: false,
+      error: "Audio analysis is not supported in this browser.",
+    };
+  }
+
+  let samples: Float32Array;
+  try {
+    samples = await decodeToMono(audioBlob);
+  } catch (error) {
+    console.error("Failed to decode recording:", error);
+    return { success: false, error: "Could not decode the recording." };
+  }
+
+  const durationSeconds = samples.length / ANALYSIS_SAMPLE_RATE;
+  const features = segments.map((seg, i) => {
+    if (seg.relativeTime === undefined) return null;
+    const nextStart = segments[i + 1]?.relativeTime ?? durationSeconds;
+    return computeFeatures(samples, seg.relativeTime, nextStart);
+  });
+
+  const voicedIndices = features
+    .map((f, i) => (f ? i : -1))
+    .filter((i) => i >= 0);
+
+  if (voicedIndices.length < 2) {
+    return {
+      success: false,
+      error: "Not enough speech in the recording to tell voices apart.",
+    };
+  }
+
+  const points = voicedIndices.map((i) => {
+    const f = features[i]!;
+    return [f.pitch, f.energy];
+  });
+  const clusterOf = kMeans(
+    points,
+    Math.min(Math.max(2, clusterCount), voicedIndices.length)
+  );
+
+  const assignments = new Array<number>(segments.length).fill(-1);
+  voicedIndices.forEach((segIndex, i) => {
+    assignments[segIndex] = clusterOf[i] ?? -1;
+  });
+
+  const clusters: VoiceCluster[] = Array.from(
+    { length: Math.max(...clusterOf) + 1 },
+    (_, id) => {
+      const segmentIndices = voicedIndices.filter((_, i) => clusterOf[i] === id);
+      const memberFeatures = segmentIndices.map((i) => features[i]!);
+      const count = Math.max(1, memberFeatures.length);
+      return {
+        id,
+        segmentIndices,
+        meanPitch: memberFeatures.reduce((sum, f) => sum + f.pitch, 0) / count,
+        meanEnergy: memberFeatures.reduce((sum, f) => sum + f.energy, 0) / count,
+      };
+    }
+  ).filter((c) => c.segmentIndices.length > 0);
+
+  if (clusters.length < 2) {
+    return {
+      success: false,
+      error: "Only one voice was detected in the recording.",
+    };
+  }
+
+  return { success: true, clusters, assignments };
+}
+
+/**
+ * Relabel segments using cluster assignments and confirmed speakers
+ * per cluster. Segments without usable audio keep their existing speaker.
+ */
+export function applyDiarization(
+  segments: TranscriptSegment[],
+  assignments: number[],
+  clusterSpeakers: Record<number, Speaker>
+): TranscriptSegment[] {
+  return segments.map((seg, i) => {
+    const speaker = clusterSpeakers[assignments[i] ?? -1];
+    if (!speaker) return seg;
+    return { ...seg, speaker };
+  });
+}
+
+/**
+ * Guess each cluster's speaker from the existing (heuristic) labels:
+ * the most common speaker among the cluster's segments
+ */
+export function guessClusterSpeakers(
+  segments: TranscriptSegment[],
+  clusters: VoiceCluster[]
+): Record<number, Speaker> {
+  const result: Record<number, Speaker> = {};
+  for (const cluster of clusters) {
+    const counts = new Map<Speaker, number>();
+    for (const i of cluster.segmentIndices) {
+      const speaker = segments[i]?.speaker;
+      if (speaker) counts.set(speaker, (counts.get(speaker) ?? 0) + 1);
+    }
+    let best: Speaker | null = null;
+    let bestCount = 0;
+    counts.forEach((count, speaker) => {
+      if (count > bestCount) {
+        best = speaker;
+        bestCount = count;
+      }
+    });
+    if (best) result[cluster.id] = best;
+  }
+  return result;
+}
@@ -1,40 +1,84 @@
 import type {
   IntakeReport,
+  PatientReport,
   AnalysisResponse,
+  AnalysisError,
+  FieldExtractionResponse,
   ConfidentField,
   ConfidenceLevel,
+  DifferentialDiagnosis,
+  FieldEvidence,
+  Measurement,
+  Medication,
+  ReportProgress,
+  VitalSigns,
 } from "../types/report";
-import { getConfidenceLevel } from "../types/report";
+import {
+  MEDICATION_FIELDS,
+  createMedication,
+  getConfidenceLevel,
+} from "../types/report";
+import type { SoapNote, SoapNoteResponse } from "../types/soap";
+import { SOAP_SECTIONS } from "../types/soap";
 import {
   VETERINARY_INTAKE_SYSTEM_PROMPT,
   createUserPrompt,
+  createRepairPrompt,
+  createFieldPrompt,
+  createWindowPrompt,
 } from "../prompts/veterinary-intake";
 import {
-  waitForRateLimit,
-  markRequestComplete,
-  setCooldown,
-} from "./rateLimiter";
-
-const GROQ_API_URL = "https://api.groq.com/openai/v1/chat/completions";
-const MODEL = "llama-3.3-70b-versatile";
+  SOAP_NOTE_SYSTEM_PROMPT,
+  createSoapNotePrompt,
+} from "../prompts/soap-note";
+import { createChatCompletion } from "./llm";
+import type { ChatMessage } from "../types/llm";
+import {
+  listReportFields,
+  countRawPatients,
+  validateRawReport,
+  validateRawSoapNote,
+  validateRawField,
+  getReportFieldSchema,
+  getStreamedFields,
+  removeFields,
+  getReportField,
+  setReportField,
+  parsePatientFieldPath,
+  patientFieldPath,
+} from "../utils/reportSchema";
+import type { SchemaIssue } from "../utils/reportSchema";
+import type { Participant } from "../types/transcript";
+import { DEFAULT_PARTICIPANTS } from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import { parsePartialJson } from "../utils/partialJson";
+import { mergeReports, isMentioned } from "../utils/reportMerge";
+import { splitTranscriptIntoWindows } from "../utils/transcriptWindows";
+import { resolveSignalment } from "../utils/taxonomy";
+import { resolveMedication } from "../utils/formulary";
+import {
+  redactTranscript,
+  redactKnownValues,
+  rehydrate,
+} from "../utils/phiRedaction";
 
 // Single-flight lock: prevent analyzeTranscript from running multiple times simultaneously
 let isAnalyzing = false;
 
-interface GroqMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
+// Round-trips asking the model to fix an invalid answer before defaulting fields
+const MAX_REPAIR_ATTEMPTS = 2;
 
-interface GroqChoice {
-  message: {
-    content: string;
-  };
-}
+// Room for confidence metadata, medication details and differentials of
+// every pet
+const REPORT_MAX_TOKENS = 5000;
 
-interface GroqResponse {
-  choices: GroqChoice[];
-}
+// Minimum time between progress updates while the report streams in
+const PROGRESS_INTERVAL_MS = 150;
+
+// Longer transcripts (~6k tokens) are analyzed in overlapping windows
+const MAX_SINGLE_PASS_CHARS = 24000;
+const WINDOW_CHARS = 12000;
+const WINDOW_OVERLAP_SEGMENTS = 3;
 
 /**
  * Get the Groq API key from environment or localStorage
@@ -70,6 +114,7 @@ export function hasApiKey(): boolean {
 interface RawConfidence {
   score: number;
   note?: string | null;
+  evidence?: { segment: number; quote: string }[];
 }
 
 /**
@@ -80,6 +125,24 @@ interface RawConfidentField<T> {
   confidence: RawConfidence;
 }
 
+/**
+ * Convert the AI's evidence list to segment references
+ */
+function normalizeEvidence(
+  raw: RawConfidence["evidence"]
+): FieldEvidence[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter(
+      (item) =>
+        item &&
+        Number.isInteger(item.segment) &&
+        item.segment >= 0 &&
+        typeof item.quote === "string"
+    )
+    .map((item) => ({ segmentIndex: item.segment, quote: item.quote.trim() }));
+}
+
 /**
  * Normalize a confident field, adding the derived level
  */
@@ -121,12 +184,14 @@ function normalizeConfidentField<T>(
       normalizedValue = [] as unknown as T;
     }
 
+    const evidence = normalizeEvidence(field.confidence.evidence);
     return {
       value: normalizedValue,
       confidence: {
         score,
         level: getConfidenceLevel(score),
         note: field.confidence.note ?? undefined,
+        ...(evidence && { evidence }),
       },
     };
   }
@@ -171,8 +236,20 @@ function parseJsonSafely(text: string): Record<string, unknown> | null {
   }
   cleaned = cleaned.trim();
 
+  // Drop any prose the model put around the object
+  const start = cleaned.indexOf("{");
+  const end = cleaned.lastIndexOf("}");
+  if (start > 0 || (end >= 0 && end < cleaned.length - 1)) {
+    cleaned = cleaned.slice(Math.max(0, start), end + 1);
+  }
+
   try {
-    return JSON.parse(cleaned) as Record<string, unknown>;
+    const parsed = JSON.parse(cleaned) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      console.error("AI response is not a JSON object:", cleaned);
+      return null;
+    }
+    return parsed as Record<string, unknown>;
   } catch {
     console.error("Failed to parse JSON:", cleaned);
     return null;
@@ -183,11 +260,44 @@ function parseJsonSafely(text: string): Record<string, unknown> | null {
  * Transform raw AI response into normalized IntakeReport
  */
 function transformToReport(raw: Record<string, unknown>): IntakeReport {
-  const patient = (raw.patient || {}) as Record<string, unknown>;
   const owner = (raw.owner || {}) as Record<string, unknown>;
+  const patients = Array.isArray(raw.patients)
+    ? (raw.patients as unknown[]).filter(
+        (p): p is Record<string, unknown> => !!p && typeof p === "object"
+      )
+    : [];
+
+  return {
+    owner: {
+      name: normalizeConfidentField(
+        owner.name as RawConfidentField<string>,
+        "Not mentioned"
+      ),
+      phone: normalizeConfidentField(
+        owner.phone as RawConfidentField<string>,
+        "Not mentioned"
+      ),
+      email: normalizeConfidentField(
+        owner.email as RawConfidentField<string>,
+        "Not mentioned"
+      ),
+    },
+    // Every report has at least one patient
+    patients: (patients.length > 0 ? patients : [{}]).map(
+      transformToPatientReport
+    ),
+  };
+}
+
+/**
+ * Transform one entry of the raw "patients" list
+ */
+function transformToPatientReport(raw: Record<string, unknown>): PatientReport {
+  const patient = (raw.patient || {}) as Record<string, unknown>;
 
   return {
-    patient: {
+    // Species and breed become canonical taxonomy names
+    patient: resolveSignalment({
       name: normalizeConfidentField(
         patient.name as RawConfidentField<string>,
         "Not mentioned"
@@ -212,21 +322,7 @@ function transformToReport(raw: Record<string, unknown>): IntakeReport {
         patient.sex as RawConfidentField<string>,
         "Not mentioned"
       ),
-    },
-    owner: {
-      name: normalizeConfidentField(
-        owner.name as RawConfidentField<string>,
-        "Not mentioned"
-      ),
-      phone: normalizeConfidentField(
-        owner.phone as RawConfidentField<string>,
-        "Not mentioned"
-      ),
-      email: normalizeConfidentField(
-        owner.email as RawConfidentField<string>,
-        "Not mentioned"
-      ),
-    },
+    }),
     chiefComplaint: normalizeConfidentField(
       raw.chiefComplaint as RawConfidentField<string>,
       "Not mentioned"
@@ -269,22 +365,25 @@ function transformToReport(raw: Record<string, unknown>): IntakeReport {
       raw.medicalHistory as RawConfidentField<string>,
       "Not mentioned"
     ),
-    currentMedications: normalizeConfidentField(
-      raw.currentMedications as RawConfidentField<string[]>,
-      []
-    ),
+    currentMedications: normalizeMedications(raw.currentMedications),
     allergies: normalizeConfidentField(
       raw.allergies as RawConfidentField<string[]>,
       []
     ),
-    vitalSigns: normalizeConfidentField(
-      raw.vitalSigns as RawConfidentField<string>,
-      "Not recorded"
+    vitalSigns: transformToVitalSigns(
+      (raw.vitalSigns || {}) as Record<string, unknown>
     ),
     assessment: normalizeConfidentField(
       raw.assessment as RawConfidentField<string>,
       "Pending examination"
     ),
+    // Optional: left out when the AI gave none
+    ...(raw.differentials !== undefined && {
+      differentials: normalizeConfidentField(
+        raw.differentials as RawConfidentField<DifferentialDiagnosis[]>,
+        []
+      ),
+    }),
     recommendedActions: normalizeConfidentField(
       raw.recommendedActions as RawConfidentField<string[]>,
       []
@@ -322,39 +421,472 @@ function transformToReport(raw: Record<string, unknown>): IntakeReport {
 }
 
 /**
- * Validate that the parsed object has the expected structure
+ * Normalize a measured vital sign ("Not mentioned" becomes null)
+ */
+function normalizeMeasurement(
+  raw: unknown
+): ConfidentField<Measurement | null> {
+  const field = normalizeConfidentField<Measurement | string | null>(
+    raw as RawConfidentField<Measurement | string | null>,
+    null
+  );
+  const { value } = field;
+  return {
+    ...field,
+    value:
+      value !== null && typeof value === "object"
+        ? { value: value.value, unit: value.unit }
+        : null,
+  };
+}
+
+/**
+ * Normalize the medication list; each drug name is matched to the
+ * formulary. A plain string entry becomes a medication with only a name.
+ */
+function normalizeMedications(raw: unknown): ConfidentField<Medication[]> {
+  const field = normalizeConfidentField<unknown[]>(
+    raw as RawConfidentField<unknown[]>,
+    []
+  );
+  const items = Array.isArray(field.value) ? field.value : [];
+  const medications = items.map((item) => {
+    if (typeof item === "string") {
+      return resolveMedication(createMedication(item, field.confidence));
+    }
+    const details = (item || {}) as Record<string, unknown>;
+    const medication = Object.fromEntries(
+      MEDICATION_FIELDS.map(({ key }) => [
+        key,
+        normalizeConfidentField(
+          details[key] as RawConfidentField<string>,
+          "Not mentioned"
+        ),
+      ])
+    ) as unknown as Medication;
+    return resolveMedication(medication);
+  });
+  return { ...field, value: medications };
+}
+
+/**
+ * Transform the raw "vitalSigns" group of a patient
+ */
+function transformToVitalSigns(raw: Record<string, unknown>): VitalSigns {
+  return {
+    temperature: normalizeMeasurement(raw.temperature),
+    heartRate: normalizeMeasurement(raw.heartRate),
+    respiratoryRate: normalizeMeasurement(raw.respiratoryRate),
+    mucousMembranes: normalizeConfidentField(
+      raw.mucousMembranes as RawConfidentField<string>,
+      "Not mentioned"
+    ),
+    capillaryRefillTime: normalizeMeasurement(raw.capillaryRefillTime),
+    bodyConditionScore: normalizeMeasurement(raw.bodyConditionScore),
+    other: normalizeConfidentField(
+      raw.other as RawConfidentField<string>,
+      "Not recorded"
+    ),
+  };
+}
+
+/**
+ * Report fields that have at least one schema issue (issues about the
+ * response as a whole, such as a missing "patients" list, show up on
+ * the fields themselves)
  */
-function validateReport(obj: unknown): boolean {
-  if (!obj || typeof obj !== "object") return false;
-
-  const report = obj as Record<string, unknown>;
-
-  // Check required top-level fields exist
-  const requiredFields = [
-    "patient",
-    "owner",
-    "chiefComplaint",
-    "symptoms",
-    "severity",
-    "assessment",
-    "urgencyLevel",
+function getInvalidFields(issues: SchemaIssue[]): string[] {
+  return [
+    ...new Set(issues.map((issue) => issue.field).filter((path) => path)),
   ];
+}
+
+/**
+ * Whether every required field of a report fell back to a default
+ */
+function isAllDefaulted(
+  defaultedFields: string[],
+  patientCount: number
+): boolean {
+  return listReportFields(patientCount).every(
+    (field) => field.optional || defaultedFields.includes(field.path)
+  );
+}
+
+/**
+ * Move a field path of one window's report to the merged report
+ */
+function toMergedPath(path: string, patientIndex: number[]): string {
+  const patientPath = parsePatientFieldPath(path);
+  if (!patientPath) return path;
+  const merged = patientIndex[patientPath.index];
+  return merged === undefined
+    ? path
+    : patientFieldPath(merged, patientPath.field);
+}
+
+/**
+ * Build the report from a validated response: fields that are still
+ * invalid are replaced by defaults and flagged for review
+ */
+function buildReport(
+  parsed: Record<string, unknown>,
+  defaultedFields: string[]
+): IntakeReport {
+  return flagDefaultedFields(
+    transformToReport(removeFields(parsed, defaultedFields)),
+    defaultedFields
+  );
+}
+
+// Confidence of a field that holds a default because the AI output was invalid
+const INVALID_FIELD_CONFIDENCE: ConfidentField<unknown>["confidence"] = {
+  score: 0,
+  level: "low",
+  note: "AI output for this field was invalid; please review",
+};
+
+/**
+ * Mark fields that hold defaults because the AI output was invalid
+ */
+function flagDefaultedFields(
+  report: IntakeReport,
+  defaultedFields: string[]
+): IntakeReport {
+  for (const path of defaultedFields) {
+    const field = getReportField(report, path);
+    if (!field) continue;
+    report = setReportField(report, path, {
+      value: field.value,
+      confidence: INVALID_FIELD_CONFIDENCE,
+    });
+  }
+  return report;
+}
+
+/**
+ * Transform a raw SOAP note response; sections that are still invalid
+ * fall back to "Not mentioned" and are flagged for review
+ */
+function transformToSoapNote(
+  raw: Record<string, unknown>,
+  defaultedFields: string[]
+): SoapNote {
+  const entries = SOAP_SECTIONS.map(({ key }) => [
+    key,
+    defaultedFields.includes(key)
+      ? { value: "Not mentioned", confidence: INVALID_FIELD_CONFIDENCE }
+      : normalizeConfidentField(
+          raw[key] as RawConfidentField<string>,
+          "Not mentioned"
+        ),
+  ]);
+  return Object.fromEntries(entries) as SoapNote;
+}
+
+/**
+ * Build a preview from the text streamed so far; null until at least one
+ * field is complete
+ */
+function buildProgress(content: string): ReportProgress | null {
+  const partial = parsePartialJson(content);
+  const completed = getStreamedFields(partial);
+  if (completed.length === 0) return null;
+
+  const pendingFields = listReportFields(countRawPatients(partial))
+    .map((f) => f.path)
+    .filter((path) => !completed.includes(path));
+  return {
+    report: transformToReport(
+      removeFields(partial as Record<string, unknown>, pendingFields)
+    ),
+    pendingFields,
+  };
+}
+
+interface ValidatedExtraction {
+  success: true;
+  /** Best response received (may still have issues) */
+  parsed: Record<string, unknown>;
+  /** Issues remaining in parsed */
+  issues: SchemaIssue[];
+  /** Fields invalid in the first response */
+  initiallyInvalid: string[];
+  repairAttempts: number;
+}
+
+/**
+ * Request a report (or, with another validator, a SOAP note) and send
+ * validator errors back to the model until the answer is valid (or the
+ * repair attempts run out)
+ */
+async function extractValidatedReport(
+  messages: ChatMessage[],
+  onDelta?: (content: string) => void,
+  validate: (raw: unknown) => SchemaIssue[] = validateRawReport
+): Promise<ValidatedExtraction | AnalysisError> {
+  console.log("GROQ_CALL");
+  const completion = await createChatCompletion("extraction", messages, {
+    temperature: 0.1, // Low temperature for consistent structured output
+    maxTokens: REPORT_MAX_TOKENS,
+    onDelta,
+  });
+
+  if (!completion.success) {
+    return { success: false, error: completion.error };
+  }
+
+  let lastContent = completion.content;
+  let parsed = parseJsonSafely(lastContent);
+  let issues = parsed ? validate(parsed) : [];
+  const initiallyInvalid = getInvalidFields(issues);
+  let repairAttempts = 0;
 
-  for (const field of requiredFields) {
-    if (!(field in report)) {
-      console.warn(`Missing required field: ${field}`);
-      return false;
+  while (
+    (!parsed || issues.length > 0) &&
+    repairAttempts < MAX_REPAIR_ATTEMPTS
+  ) {
+    repairAttempts++;
+    console.warn(
+      `analyzeTranscript: repair attempt ${repairAttempts}`,
+      parsed ? issues.map((issue) => issue.message) : "unparseable JSON"
+    );
+
+    const repair = await createChatCompletion(
+      "extraction",
+      [
+        ...messages,
+        { role: "assistant", content: lastContent },
+        {
+          role: "user",
+          content: createRepairPrompt(
+            issues.map((issue) => issue.message),
+            !parsed
+          ),
+        },
+      ],
+      { temperature: 0.1, maxTokens: REPORT_MAX_TOKENS }
+    );
+
+    if (!repair.success) {
+      // Nothing usable yet: surface the error (e.g. rate limit)
+      if (!parsed) {
+        return { success: false, error: repair.error };
+      }
+      break;
+    }
+
+    // Keep the earlier answer if the repair made things worse; the next
+    // repair prompt must quote the answer its issues belong to
+    const repaired = parseJsonSafely(repair.content);
+    if (!repaired) {
+      // Still nothing parseable: ask again about the latest attempt
+      if (!parsed) lastContent = repair.content;
+      continue;
+    }
+
+    const repairedIssues = validate(repaired);
+    if (!parsed || repairedIssues.length <= issues.length) {
+      lastContent = repair.content;
+      parsed = repaired;
+      issues = repairedIssues;
+    }
+  }
+
+  if (!parsed) {
+    return {
+      success: false,
+      error: "Failed to parse AI response as JSON.",
+    };
+  }
+
+  return { success: true, parsed, issues, initiallyInvalid, repairAttempts };
+}
+
+/**
+ * Map-reduce analysis for transcripts too long for one request: each
+ * window is extracted on its own (with summaries of the earlier windows
+ * as context) and the partial reports are merged
+ */
+async function analyzeInWindows(
+  transcript: string,
+  options: AnalyzeTranscriptOptions
+): Promise<AnalysisResponse> {
+  const { participants, transcriptLanguage, reportLanguage } = options;
+  const windows = splitTranscriptIntoWindows(
+    transcript,
+    WINDOW_CHARS,
+    WINDOW_OVERLAP_SEGMENTS
+  );
+
+  const summaries: string[] = [];
+  const partials: IntakeReport[] = [];
+  // Paths are per window until the patients are matched up
+  const repairedByWindow: string[][] = [];
+  const invalidByWindow: string[][] = [];
+  let repairAttempts = 0;
+
+  for (const [i, window] of windows.entries()) {
+    const extraction = await extractValidatedReport([
+      { role: "system", content: VETERINARY_INTAKE_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: createWindowPrompt(
+          window,
+          i + 1,
+          windows.length,
+          summaries,
+          participants,
+          transcriptLanguage,
+          reportLanguage
+        ),
+      },
+    ]);
+    if (!extraction.success) {
+      return {
+        success: false,
+        error: `Part ${i + 1} of ${windows.length}: ${extraction.error}`,
+      };
     }
+
+    const invalid = getInvalidFields(extraction.issues);
+    repairAttempts += extraction.repairAttempts;
+    repairedByWindow.push(
+      extraction.initiallyInvalid.filter((field) => !invalid.includes(field))
+    );
+    invalidByWindow.push(invalid);
+
+    partials.push(
+      transformToReport(removeFields(extraction.parsed, invalid))
+    );
+    const { summary } = extraction.parsed;
+    summaries.push(
+      typeof summary === "string" && summary.trim()
+        ? summary.trim()
+        : "(no summary)"
+    );
+  }
+
+  const { report, conflictingFields, patientIndex } = mergeReports(partials);
+  const toMerged = (byWindow: string[][]) =>
+    new Set(
+      byWindow.flatMap((paths, i) =>
+        paths.map((path) => toMergedPath(path, patientIndex[i] ?? []))
+      )
+    );
+  const repairedFields = toMerged(repairedByWindow);
+  const invalidFields = toMerged(invalidByWindow);
+
+  // Invalid output in one part is covered if another part found the value
+  const defaultedFields = [...invalidFields].filter((path) => {
+    const field = getReportField(report, path);
+    return !field || !isMentioned(field);
+  });
+  if (isAllDefaulted(defaultedFields, report.patients.length)) {
+    return {
+      success: false,
+      error: "AI response did not contain any usable report fields.",
+    };
+  }
+
+  return {
+    success: true,
+    report: flagDefaultedFields(report, defaultedFields),
+    repairs: {
+      repairAttempts,
+      repairedFields: [...repairedFields].filter(
+        (field) => !defaultedFields.includes(field)
+      ),
+      defaultedFields,
+      conflictingFields,
+    },
+  };
+}
+
+/**
+ * Options for analyzeTranscript
+ */
+export interface AnalyzeTranscriptOptions {
+  /** Visit participants (roles tell the AI who is clinical staff) */
+  participants?: Participant[];
+  /** Language the conversation was held in */
+  transcriptLanguage?: LanguageCode;
+  /** Language the report is written in (the clinic's working language) */
+  reportLanguage?: LanguageCode;
+  /**
+   * Called with the partial report as the model streams its answer
+   * (not used when a long transcript is analyzed in parts)
+   */
+  onProgress?: (progress: ReportProgress) => void;
+}
+
+/**
+ * Extract the report with one request, streaming progress if asked
+ */
+async function analyzeSinglePass(
+  transcript: string,
+  options: AnalyzeTranscriptOptions
+): Promise<AnalysisResponse> {
+  const { participants, transcriptLanguage, reportLanguage, onProgress } =
+    options;
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: VETERINARY_INTAKE_SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: createUserPrompt(
+        transcript,
+        participants,
+        transcriptLanguage,
+        reportLanguage
+      ),
+    },
+  ];
+
+  // Parsing the whole answer on every chunk is wasteful; throttle it
+  let lastProgressAt = 0;
+  const onDelta = onProgress
+    ? (content: string) => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+        lastProgressAt = now;
+        const progress = buildProgress(content);
+        if (progress) onProgress(progress);
+      }
+    : undefined;
+
+  const extraction = await extractValidatedReport(messages, onDelta);
+  if (!extraction.success) {
+    return { success: false, error: extraction.error };
   }
+  const { parsed, issues, initiallyInvalid, repairAttempts } = extraction;
 
-  return true;
+  const defaultedFields = getInvalidFields(issues);
+  if (isAllDefaulted(defaultedFields, countRawPatients(parsed))) {
+    return {
+      success: false,
+      error: "AI response did not contain any usable report fields.",
+    };
+  }
+  const repairedFields = initiallyInvalid.filter(
+    (field) => !defaultedFields.includes(field)
+  );
+
+  return {
+    success: true,
+    // Transform to normalized report with confidence levels
+    report: buildReport(parsed, defaultedFields),
+    repairs: { repairAttempts, repairedFields, defaultedFields },
+  };
 }
 
 /**
- * Analyze a transcript using Groq AI
+ * Analyze a transcript with the extraction model (Groq unless configured otherwise)
+ * @param transcript - Transcript formatted with formatTranscriptForAnalysis
  */
 export async function analyzeTranscript(
-  transcript: string
+  transcript: string,
+  options: AnalyzeTranscriptOptions = {}
 ): Promise<AnalysisResponse> {
   // Single-flight lock: prevent concurrent calls
   if (isAnalyzing) {
@@ -370,107 +902,237 @@ export async function analyzeTranscript(
   isAnalyzing = true;
 
   try {
-    // Check online status first
-    if (!navigator.onLine) {
+    if (!transcript.trim()) {
       return {
         success: false,
-        error: "You're offline. AI analysis requires an internet connection.",
+        error: "No transcript to analyze.",
       };
     }
 
-    const apiKey = getApiKey();
+    // Owner identifiers are replaced locally and restored in the result;
+    // the placeholder map never leaves the browser
+    const redacted = redactTranscript(
+      transcript,
+      options.participants ?? DEFAULT_PARTICIPANTS
+    );
+    const { onProgress } = options;
+    const redactedOptions: AnalyzeTranscriptOptions = {
+      ...options,
+      participants: redacted.participants,
+      onProgress:
+        onProgress &&
+        ((progress) => onProgress(rehydrate(progress, redacted.map))),
+    };
 
-    if (!apiKey) {
-      return {
-        success: false,
-        error: "No API key configured. Please add your Groq API key.",
-      };
-    }
+    // Long consultations are analyzed in parts and merged
+    const result =
+      redacted.transcript.length > MAX_SINGLE_PASS_CHARS
+        ? await analyzeInWindows(redacted.transcript, redactedOptions)
+        : await analyzeSinglePass(redacted.transcript, redactedOptions);
+
+    return result.success
+      ? { ...result, report: rehydrate(result.report, redacted.map) }
+      : result;
+  } catch (error) {
+    console.error("Groq API error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred.",
+    };
+  } finally {
+    // Always release the single-flight lock
+    isAnalyzing = false;
+  }
+}
+
+/**
+ * Write a SOAP note from a transcript instead of the intake report.
+ * Shares the single-flight lock and redaction with analyzeTranscript.
+ * @param transcript - Transcript formatted with formatTranscriptForAnalysis
+ */
+export async function generateSoapNote(
+  transcript: string,
+  options: Omit<AnalyzeTranscriptOptions, "onProgress"> = {}
+): Promise<SoapNoteResponse> {
+  if (isAnalyzing) {
+    return {
+      success: false,
+      error: "Analysis already in progress. Please wait.",
+    };
+  }
 
+  isAnalyzing = true;
+
+  try {
     if (!transcript.trim()) {
-      return {
-        success: false,
-        error: "No transcript to analyze.",
-      };
+      return { success: false, error: "No transcript to analyze." };
     }
 
-    const messages: GroqMessage[] = [
-      { role: "system", content: VETERINARY_INTAKE_SYSTEM_PROMPT },
-      { role: "user", content: createUserPrompt(transcript) },
-    ];
-
-    // Wait for global rate limit before making the call
-    await waitForRateLimit();
-
-    console.log("GROQ_CALL");
-    const response = await fetch(GROQ_API_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages,
-        temperature: 0.1, // Low temperature for consistent structured output
-        max_tokens: 3000, // Increased for confidence metadata
-      }),
-    });
+    const redacted = redactTranscript(
+      transcript,
+      options.participants ?? DEFAULT_PARTICIPANTS
+    );
 
-    if (!response.ok) {
-      if (response.status === 401) {
-        return {
-          success: false,
-          error: "Invalid API key. Please check your Groq API key.",
-        };
-      }
-      if (response.status === 429) {
-        // Set 15 second cooldown on rate limit error
-        setCooldown(15);
-        return {
-          success: false,
-          error: "Rate limit exceeded. Please wait 15 seconds and try again.",
-        };
-      }
+    const extraction = await extractValidatedReport(
+      [
+        { role: "system", content: SOAP_NOTE_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: createSoapNotePrompt(
+            redacted.transcript,
+            redacted.participants,
+            options.transcriptLanguage,
+            options.reportLanguage
+          ),
+        },
+      ],
+      undefined,
+      validateRawSoapNote
+    );
+    if (!extraction.success) {
+      return { success: false, error: extraction.error };
+    }
+    const { parsed, issues, initiallyInvalid, repairAttempts } = extraction;
+
+    const defaultedFields = getInvalidFields(issues);
+    if (defaultedFields.length === SOAP_SECTIONS.length) {
       return {
         success: false,
-        error: `API error: ${response.status} ${response.statusText}`,
+        error: "AI response did not contain any usable SOAP sections.",
       };
     }
 
-    const data = (await response.json()) as GroqResponse;
-    const content = data.choices[0]?.message?.content;
+    return {
+      success: true,
+      note: rehydrate(
+        transformToSoapNote(parsed, defaultedFields),
+        redacted.map
+      ),
+      repairs: {
+        repairAttempts,
+        repairedFields: initiallyInvalid.filter(
+          (field) => !defaultedFields.includes(field)
+        ),
+        defaultedFields,
+      },
+    };
+  } catch (error) {
+    console.error("Groq API error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred.",
+    };
+  } finally {
+    isAnalyzing = false;
+  }
+}
 
-    if (!content) {
-      return {
-        success: false,
-        error: "No response from AI.",
-      };
+/**
+ * Options for extractReportField
+ */
+export interface ExtractFieldOptions {
+  /** Value in the report now (the model is told it may be wrong) */
+  currentValue?: unknown;
+  /** Pet the field belongs to, when the visit covers several pets */
+  patientLabel?: string;
+  participants?: Participant[];
+  transcriptLanguage?: LanguageCode;
+  reportLanguage?: LanguageCode;
+}
+
+/**
+ * Extract a single report field again, e.g. "patients.0.currentMedications".
+ * Shares the single-flight lock with analyzeTranscript.
+ * @param transcript - Transcript formatted with formatTranscriptForAnalysis
+ */
+export async function extractReportField(
+  transcript: string,
+  path: string,
+  options: ExtractFieldOptions = {}
+): Promise<FieldExtractionResponse> {
+  const schema = getReportFieldSchema(path);
+  if (!schema) {
+    return { success: false, error: `Unknown report field: ${path}` };
+  }
+
+  if (isAnalyzing) {
+    return {
+      success: false,
+      error: "Analysis already in progress. Please wait.",
+    };
+  }
+
+  isAnalyzing = true;
+
+  try {
+    if (!transcript.trim()) {
+      return { success: false, error: "No transcript to analyze." };
     }
 
-    const parsed = parseJsonSafely(content);
+    // Same local redaction as analyzeTranscript
+    const redacted = redactTranscript(
+      transcript,
+      options.participants ?? DEFAULT_PARTICIPANTS
+    );
 
-    if (!parsed) {
-      return {
-        success: false,
-        error: "Failed to parse AI response as JSON.",
-      };
+    const completion = await createChatCompletion(
+      "extraction",
+      [
+        { role: "system", content: VETERINARY_INTAKE_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: createFieldPrompt(
+            redacted.transcript,
+            schema,
+            redactKnownValues(options.currentValue, redacted.map),
+            redacted.participants,
+            options.transcriptLanguage,
+            options.reportLanguage,
+            options.patientLabel
+          ),
+        },
+      ],
+      {
+        temperature: 0.1,
+        maxTokens:
+          schema.type.kind === "differentials" ||
+          schema.type.kind === "medications"
+            ? 1500
+            : 800,
+      }
+    );
+
+    if (!completion.success) {
+      return { success: false, error: completion.error };
     }
 
-    if (!validateReport(parsed)) {
+    const parsed = parseJsonSafely(completion.content);
+    const issues = validateRawField(path, parsed ?? undefined);
+    if (!parsed || issues.length > 0) {
+      console.warn(
+        `extractReportField: invalid ${path}`,
+        issues.map((issue) => issue.message)
+      );
       return {
         success: false,
-        error: "AI response missing required fields.",
+        error: `The AI returned an invalid value for ${schema.label}. Please try again.`,
       };
     }
 
-    // Transform to normalized report with confidence levels
-    const report = transformToReport(parsed);
-
-    return {
-      success: true,
+    // Normalize through the full-report transform so defaults match
+    const patientPath = parsePatientFieldPath(path);
+    const [group = path, key] = (patientPath?.field ?? path).split(".");
+    const raw = key ? { [group]: { [key]: parsed } } : { [group]: parsed };
+    const report = transformToReport(patientPath ? { patients: [raw] } : raw);
+    const field = getReportField(
       report,
-    };
+      patientPath ? patientFieldPath(0, patientPath.field) : path
+    );
+    if (!field) {
+      return { success: false, error: `Unknown report field: ${path}` };
+    }
+
+    return { success: true, field: rehydrate(field, redacted.map) };
   } catch (error) {
     console.error("Groq API error:", error);
     return {
@@ -478,9 +1140,6 @@ export async function analyzeTranscript(
       error: error instanceof Error ? error.message : "Unknown error occurred.",
     };
   } finally {
-    // Always mark request complete to release the lock
-    markRequestComplete();
-    // Always release the single-flight lock
     isAnalyzing = false;
   }
 }
@@ -0,0 +1,20 @@
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE, isLanguageCode } from "../types/language";
+
+const CLINIC_LANGUAGE_KEY = "clinic_language";
+
+/**
+ * The clinic's working language: reports are always written in it,
+ * whatever language the conversation was in
+ */
+export function getClinicLanguage(): LanguageCode {
+  const stored = localStorage.getItem(CLINIC_LANGUAGE_KEY);
+  return isLanguageCode(stored) ? stored : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Persist the clinic's working language
+ */
+export function setClinicLanguage(code: LanguageCode): void {
+  localStorage.setItem(CLINIC_LANGUAGE_KEY, code);
+}
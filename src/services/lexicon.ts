@@ -0,0 +1,48 @@
+import type { LexiconEntry } from "../types/vocabulary";
+import { LEXICON_CATEGORY_LABELS } from "../types/vocabulary";
+import { DEFAULT_LEXICON } from "../utils/vetLexicon";
+
+const LEXICON_STORAGE_KEY = "vet_lexicon";
+
+function isLexiconEntry(value: unknown): value is LexiconEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.term === "string" &&
+    typeof entry.category === "string" &&
+    entry.category in LEXICON_CATEGORY_LABELS
+  );
+}
+
+/**
+ * Get the clinic's vocabulary lexicon (built-in terms until edited)
+ */
+export function getLexicon(): LexiconEntry[] {
+  const stored = localStorage.getItem(LEXICON_STORAGE_KEY);
+  if (!stored) return DEFAULT_LEXICON;
+
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    if (Array.isArray(parsed)) {
+      return parsed.filter(isLexiconEntry);
+    }
+  } catch (error) {
+    console.warn("Invalid stored lexicon, using defaults:", error);
+  }
+  return DEFAULT_LEXICON;
+}
+
+/**
+ * Persist an edited lexicon
+ */
+export function saveLexicon(entries: LexiconEntry[]): void {
+  localStorage.setItem(LEXICON_STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Restore the built-in lexicon
+ */
+export function resetLexicon(): LexiconEntry[] {
+  localStorage.removeItem(LEXICON_STORAGE_KEY);
+  return DEFAULT_LEXICON;
+}
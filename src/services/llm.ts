@@ -0,0 +1,280 @@
+/**
+ * Shared chat-completion client for any OpenAI-compatible endpoint.
+ *
+ * Settings are resolved per task, most specific first:
+ * 1. Task environment variables (VITE_LLM_EXTRACTION_*, VITE_LLM_URGENCY_*)
+ * 2. Shared environment variables (VITE_LLM_BASE_URL, VITE_LLM_MODEL, VITE_LLM_API_KEY)
+ * 3. Groq with llama-3.3-70b-versatile and the Groq API key
+ */
+
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResponse,
+  ChatMessage,
+  LlmConfig,
+  LlmTask,
+} from "../types/llm";
+import { getApiKey } from "./groq";
+import {
+  waitForRateLimit,
+  markRequestComplete,
+  setCooldown,
+} from "./rateLimiter";
+
+const DEFAULT_LLM_BASE_URL = "https://api.groq.com/openai/v1";
+const DEFAULT_MODEL = "llama-3.3-70b-versatile";
+
+interface ChatCompletionChoice {
+  message: {
+    content: string;
+  };
+}
+
+interface ChatCompletionBody {
+  choices: ChatCompletionChoice[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Read a non-empty environment variable
+ */
+function readEnv(value: string | undefined): string | undefined {
+  return value && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Settings from environment variables for a task
+ */
+function getEnvConfig(task: LlmTask): Partial<LlmConfig> {
+  const env = import.meta.env ?? {};
+  const taskEnv =
+    task === "extraction"
+      ? {
+          baseUrl: readEnv(env.VITE_LLM_EXTRACTION_BASE_URL),
+          model: readEnv(env.VITE_LLM_EXTRACTION_MODEL),
+          apiKey: readEnv(env.VITE_LLM_EXTRACTION_API_KEY),
+        }
+      : {
+          baseUrl: readEnv(env.VITE_LLM_URGENCY_BASE_URL),
+          model: readEnv(env.VITE_LLM_URGENCY_MODEL),
+          apiKey: readEnv(env.VITE_LLM_URGENCY_API_KEY),
+        };
+
+  return {
+    baseUrl: taskEnv.baseUrl ?? readEnv(env.VITE_LLM_BASE_URL),
+    model: taskEnv.model ?? readEnv(env.VITE_LLM_MODEL),
+    apiKey: taskEnv.apiKey ?? readEnv(env.VITE_LLM_API_KEY),
+  };
+}
+
+/**
+ * Whether a base URL points at the Groq cloud API
+ */
+function isGroqUrl(baseUrl: string): boolean {
+  return baseUrl.startsWith(DEFAULT_LLM_BASE_URL);
+}
+
+/**
+ * Whether a base URL points at a server on this machine
+ * (reachable without an internet connection)
+ */
+export function isLocalEndpoint(baseUrl: string): boolean {
+  try {
+    const { hostname } = new URL(baseUrl);
+    return (
+      hostname === "localhost" ||
+      hostname === "127.0.0.1" ||
+      hostname === "[::1]"
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the chat-completion settings for a task
+ */
+export function getLlmConfig(task: LlmTask): LlmConfig {
+  const env = getEnvConfig(task);
+
+  const baseUrl = (env.baseUrl || DEFAULT_LLM_BASE_URL).replace(/\/+$/, "");
+  const model = env.model || DEFAULT_MODEL;
+  // Only hand the Groq key to Groq; other servers need their own key
+  const apiKey = env.apiKey || (isGroqUrl(baseUrl) ? getApiKey() : null);
+
+  return { baseUrl, model, apiKey };
+}
+
+/**
+ * Whether a task still depends on the Groq API key
+ */
+export function usesGroqKey(task: LlmTask): boolean {
+  const env = getEnvConfig(task);
+  const baseUrl = env.baseUrl || DEFAULT_LLM_BASE_URL;
+  return isGroqUrl(baseUrl) && !env.apiKey;
+}
+
+/**
+ * Read a server-sent event stream of completion chunks, reporting the
+ * accumulated text after every chunk
+ */
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (content: string) => void
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let content = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    // Keep the last, possibly incomplete, line for the next read
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === "[DONE]") return content;
+
+      try {
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(content);
+        }
+      } catch {
+        // Ignore keep-alive comments and malformed events
+      }
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Send a chat-completion request for a task and return the reply text.
+ * Goes through the global rate limiter like every other API call; with
+ * onDelta the reply is streamed and the lock is held until it ends.
+ */
+export async function createChatCompletion(
+  task: LlmTask,
+  messages: ChatMessage[],
+  options: ChatCompletionOptions = {}
+): Promise<ChatCompletionResponse> {
+  const { temperature, maxTokens, signal, onDelta } = options;
+  const config = getLlmConfig(task);
+
+  if (signal?.aborted) {
+    return { success: false, error: "Request cancelled.", aborted: true };
+  }
+
+  // Local servers keep working offline
+  if (!navigator.onLine && !isLocalEndpoint(config.baseUrl)) {
+    return {
+      success: false,
+      error: "You're offline. AI analysis requires an internet connection.",
+    };
+  }
+
+  if (!config.apiKey && isGroqUrl(config.baseUrl)) {
+    return {
+      success: false,
+      error: "No API key configured. Please add your Groq API key.",
+    };
+  }
+
+  // Wait for global rate limit before making the call
+  await waitForRateLimit();
+
+  try {
+    // Check again if aborted while waiting for rate limit
+    if (signal?.aborted) {
+      return { success: false, error: "Request cancelled.", aborted: true };
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(`${config.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: config.model,
+        messages,
+        ...(temperature !== undefined && { temperature }),
+        ...(maxTokens !== undefined && { max_tokens: maxTokens }),
+        ...(onDelta && { stream: true }),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        return {
+          success: false,
+          error: isGroqUrl(config.baseUrl)
+            ? "Invalid API key. Please check your Groq API key."
+            : `Invalid API key for ${config.baseUrl}.`,
+        };
+      }
+      if (response.status === 429) {
+        // Set 15 second cooldown on rate limit error
+        setCooldown(15);
+        return {
+          success: false,
+          error: "Rate limit exceeded. Please wait 15 seconds and try again.",
+          rateLimited: true,
+        };
+      }
+      return {
+        success: false,
+        error: `API error: ${response.status} ${response.statusText}`,
+      };
+    }
+
+    // Servers that ignore "stream" answer with a normal JSON body
+    const isStream = (response.headers.get("Content-Type") ?? "").includes(
+      "text/event-stream"
+    );
+
+    let content: string | undefined;
+    if (onDelta && isStream && response.body) {
+      content = await readCompletionStream(response.body, onDelta);
+    } else {
+      const data = (await response.json()) as ChatCompletionBody;
+      content = data.choices?.[0]?.message?.content;
+    }
+
+    if (!content) {
+      return { success: false, error: "No response from AI." };
+    }
+
+    return { success: true, content };
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return { success: false, error: "Request cancelled.", aborted: true };
+    }
+    console.error(`LLM request failed (${task}):`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred.",
+    };
+  } finally {
+    // Always mark request complete to release the lock
+    markRequestComplete();
+  }
+}
@@ -1,16 +1,43 @@
 import { jsPDF } from "jspdf";
-import type { IntakeReport, ConfidenceLevel } from "../types/report";
+import type {
+  IntakeReport,
+  PatientReport,
+  OwnerInfo,
+  ConfidenceLevel,
+  ConfidentField,
+  DifferentialDiagnosis,
+  Medication,
+  WeightUnit,
+} from "../types/report";
+import {
+  DEFAULT_WEIGHT_UNIT,
+  getPatientLabel,
+  MEDICATION_FIELDS,
+  VITAL_SIGN_FIELDS,
+} from "../types/report";
+import type { SoapNote } from "../types/soap";
+import { SOAP_SECTIONS } from "../types/soap";
 import {
   formatDateTime,
   formatDateForFilename,
   sanitizeFilename,
 } from "../utils/formatters";
+import { isMentioned } from "../utils/reportMerge";
+import { checkVitalSign, formatMeasurement } from "../utils/vitalSigns";
+import {
+  formatAge,
+  formatWeight,
+  parseAge,
+  parseWeight,
+} from "../utils/normalization";
 
 // PDF Constants
 const PAGE_WIDTH = 210; // A4 width in mm
 const PAGE_HEIGHT = 297; // A4 height in mm
 const MARGIN = 20;
 const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+// Medications table columns in MEDICATION_FIELDS order (sum: CONTENT_WIDTH)
+const MEDICATION_COLUMN_WIDTHS = [38, 28, 24, 20, 30, 30];
 
 // Colors
 const COLORS = {
@@ -57,9 +84,13 @@ function getConfidenceColor(level: ConfidenceLevel): [number, number, number] {
 }
 
 /**
- * Generate a PDF from an intake report
+ * Generate a PDF from an intake report (one section per pet; the owner
+ * is shown once)
  */
-export function generateIntakeReportPDF(report: IntakeReport): void {
+export function generateIntakeReportPDF(
+  report: IntakeReport,
+  weightUnit: WeightUnit = DEFAULT_WEIGHT_UNIT
+): void {
   const doc = new jsPDF({
     orientation: "portrait",
     unit: "mm",
@@ -74,23 +105,63 @@ export function generateIntakeReportPDF(report: IntakeReport): void {
   // === CONFIDENCE LEGEND ===
   y = drawConfidenceLegend(doc, y);
 
-  // === PATIENT & OWNER INFO ===
-  y = drawPatientOwnerSection(doc, y, report);
+  const colWidth = CONTENT_WIDTH / 2 - 5;
+  const [firstPatient] = report.patients;
+
+  if (report.patients.length === 1 && firstPatient) {
+    // === PATIENT & OWNER INFO ===
+    drawPatientBox(doc, MARGIN, y, colWidth, firstPatient, weightUnit);
+    drawOwnerBox(doc, MARGIN + colWidth + 10, y, colWidth, report.owner);
+    y += 45;
+    y = drawPatientSections(doc, y, firstPatient);
+  } else {
+    // === OWNER INFO, THEN EACH PET ===
+    drawOwnerBox(doc, MARGIN, y, colWidth, report.owner);
+    y += 45;
+    report.patients.forEach((patient, index) => {
+      y = drawPatientHeading(doc, y, patient, index);
+      drawPatientBox(doc, MARGIN, y, colWidth, patient, weightUnit);
+      y += 45;
+      y = drawPatientSections(doc, y, patient);
+    });
+  }
+
+  // === FOOTER ===
+  drawFooter(doc);
+
+  // Generate filename and save
+  const dateStr = formatDateForFilename();
+  const petNames = report.patients
+    .map((patient) => sanitizeFilename(patient.patient.name.value || "unknown"))
+    .join("_");
+  const filename = `VetTriage_${dateStr}_${petNames}.pdf`;
+
+  doc.save(filename);
+}
 
+/**
+ * Complaint, symptoms, history, medications, assessment and actions of
+ * one pet
+ */
+function drawPatientSections(
+  doc: jsPDF,
+  y: number,
+  patient: PatientReport
+): number {
   // === CHIEF COMPLAINT ===
   y = drawSection(
     doc,
     y,
     "Chief Complaint",
-    report.chiefComplaint.value,
-    report.chiefComplaint.confidence.level
+    patient.chiefComplaint.value,
+    patient.chiefComplaint.confidence.level
   );
 
   // Add severity and duration
   doc.setFontSize(10);
   doc.setTextColor(...COLORS.muted);
   // Defensive: handle invalid severity values
-  const severityValue = report.severity.value;
+  const severityValue = patient.severity.value;
   const isValidSeverity = 
     typeof severityValue === "string" && 
     (severityValue === "mild" || severityValue === "moderate" || severityValue === "severe" || severityValue === "critical");
@@ -101,7 +172,7 @@ export function generateIntakeReportPDF(report: IntakeReport): void {
   }
   
   doc.text(
-    `Severity: ${severityDisplay} | Duration: ${report.duration.value || "Not mentioned"}`,
+    `Severity: ${severityDisplay} | Duration: ${patient.duration.value || "Not mentioned"}`,
     MARGIN,
     y
   );
@@ -112,58 +183,110 @@ export function generateIntakeReportPDF(report: IntakeReport): void {
     doc,
     y,
     "Symptoms",
-    report.symptoms.value,
-    report.symptoms.confidence.level
+    patient.symptoms.value,
+    patient.symptoms.confidence.level
   );
 
   // === MEDICAL HISTORY ===
   if (
-    report.medicalHistory.value &&
-    report.medicalHistory.value !== "Not mentioned"
+    patient.medicalHistory.value &&
+    patient.medicalHistory.value !== "Not mentioned"
   ) {
     y = drawSection(
       doc,
       y,
       "Medical History",
-      report.medicalHistory.value,
-      report.medicalHistory.confidence.level
+      patient.medicalHistory.value,
+      patient.medicalHistory.confidence.level
     );
   }
 
   // === MEDICATIONS & ALLERGIES ===
   if (
-    report.currentMedications.value.length > 0 ||
-    report.allergies.value.length > 0
+    patient.currentMedications.value.length > 0 ||
+    patient.allergies.value.length > 0
   ) {
-    y = drawMedicationsAllergies(doc, y, report);
+    y = drawMedicationsAllergies(doc, y, patient);
   }
 
+  // === VITAL SIGNS ===
+  y = drawVitalSigns(doc, y, patient);
+
   // === CLINICAL ASSESSMENT ===
-  y = drawAssessmentSection(doc, y, report);
+  y = drawAssessmentSection(doc, y, patient);
+
+  // === DIFFERENTIAL DIAGNOSES ===
+  if (patient.differentials && patient.differentials.value.length > 0) {
+    y = drawDifferentialsSection(doc, y, patient.differentials);
+  }
 
   // === RECOMMENDED ACTIONS ===
-  if (report.recommendedActions.value.length > 0) {
+  if (patient.recommendedActions.value.length > 0) {
     y = drawNumberedList(
       doc,
       y,
       "Recommended Actions",
-      report.recommendedActions.value,
-      report.recommendedActions.confidence.level
+      patient.recommendedActions.value,
+      patient.recommendedActions.confidence.level
+    );
+  }
+
+  return y;
+}
+
+/**
+ * Urgency of a pet, falling back to moderate for invalid values
+ */
+function getUrgency(patient: PatientReport): {
+  value: 1 | 2 | 3 | 4 | 5;
+  label: string;
+} {
+  const urgency = patient.urgencyLevel.value;
+  const isValidUrgency = typeof urgency === "number" && urgency >= 1 && urgency <= 5;
+
+  if (!isValidUrgency) {
+    console.warn(`Invalid urgency level in PDF: ${urgency}. Using default (3 - Moderate)`);
+    return { value: 3, label: "Unknown" };
+  }
+  return { value: urgency, label: URGENCY_LABELS[urgency] };
+}
+
+/**
+ * Generate a PDF from a SOAP note, one section per heading
+ */
+export function generateSoapNotePDF(note: SoapNote): void {
+  const doc = new jsPDF({
+    orientation: "portrait",
+    unit: "mm",
+    format: "a4",
+  });
+
+  // === HEADER ===
+  drawTitleBar(doc, "SOAP Note");
+  let y = 35;
+
+  // === CONFIDENCE LEGEND ===
+  y = drawConfidenceLegend(doc, y);
+
+  // === SUBJECTIVE / OBJECTIVE / ASSESSMENT / PLAN ===
+  for (const { key, label } of SOAP_SECTIONS) {
+    const section = note[key];
+    y = drawSection(
+      doc,
+      y,
+      `${label.charAt(0)} - ${label}`,
+      section.value || "Not mentioned",
+      section.confidence.level
     );
   }
 
   // === FOOTER ===
   drawFooter(doc);
 
-  // Generate filename and save
-  const dateStr = formatDateForFilename();
-  const petName = sanitizeFilename(report.patient.name.value || "unknown");
-  const filename = `VetTriage_${dateStr}_${petName}.pdf`;
-
-  doc.save(filename);
+  doc.save(`VetTriage_${formatDateForFilename()}_SOAP.pdf`);
 }
 
-function drawHeader(doc: jsPDF, y: number, report: IntakeReport): number {
+function drawTitleBar(doc: jsPDF, subtitle: string): void {
   // Logo/Title
   doc.setFillColor(...COLORS.primary);
   doc.rect(0, 0, PAGE_WIDTH, 25, "F");
@@ -175,22 +298,21 @@ function drawHeader(doc: jsPDF, y: number, report: IntakeReport): number {
 
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
-  doc.text("Veterinary Intake Report", MARGIN + 50, 16);
+  doc.text(subtitle, MARGIN + 50, 16);
 
   // Date/time on right
   doc.text(formatDateTime(), PAGE_WIDTH - MARGIN, 16, { align: "right" });
+}
+
+function drawHeader(doc: jsPDF, y: number, report: IntakeReport): number {
+  drawTitleBar(doc, "Veterinary Intake Report");
 
   y = 35;
 
-  // Urgency badge (defensive: handle invalid urgency values)
-  const urgency = report.urgencyLevel.value;
-  const isValidUrgency = typeof urgency === "number" && urgency >= 1 && urgency <= 5;
-  const urgencyValue = isValidUrgency ? urgency : 3; // Default to moderate if invalid
-  const urgencyLabel = isValidUrgency ? URGENCY_LABELS[urgencyValue] : "Unknown";
-  
-  if (!isValidUrgency) {
-    console.warn(`Invalid urgency level in PDF: ${urgency}. Using default (3 - Moderate)`);
-  }
+  // Urgency badge: the most urgent pet sets the visit's urgency
+  const { value: urgencyValue, label: urgencyLabel } = report.patients
+    .map(getUrgency)
+    .reduce((top, urgency) => (urgency.value > top.value ? urgency : top));
 
   const badgeWidth = 45;
   const badgeX = PAGE_WIDTH - MARGIN - badgeWidth;
@@ -238,73 +360,101 @@ function drawConfidenceLegend(doc: jsPDF, y: number): number {
   return y + 8;
 }
 
-function drawPatientOwnerSection(
+/**
+ * Pet name and urgency above each pet's section when there are several
+ */
+function drawPatientHeading(
   doc: jsPDF,
   y: number,
-  report: IntakeReport
+  patient: PatientReport,
+  index: number
 ): number {
-  const colWidth = CONTENT_WIDTH / 2 - 5;
+  if (y > PAGE_HEIGHT - 80) {
+    doc.addPage();
+    y = MARGIN;
+  }
 
-  // Patient Info Box
-  doc.setFillColor(248, 250, 252); // slate-50
-  doc.roundedRect(MARGIN, y, colWidth, 35, 2, 2, "F");
+  doc.setDrawColor(...COLORS.border);
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 8;
 
-  doc.setTextColor(...COLORS.primary);
-  doc.setFontSize(10);
+  doc.setTextColor(...COLORS.text);
+  doc.setFontSize(13);
   doc.setFont("helvetica", "bold");
-  doc.text("PATIENT", MARGIN + 5, y + 7);
+  doc.text(getPatientLabel(patient, index), MARGIN, y);
 
-  doc.setTextColor(...COLORS.text);
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(9);
+  const { value, label } = getUrgency(patient);
+  doc.setTextColor(...COLORS.urgencyText[value]);
+  doc.setFontSize(10);
+  doc.text(`Urgency: ${label}`, PAGE_WIDTH - MARGIN, y, { align: "right" });
 
-  const patientLines = [
-    { text: `Name: ${report.patient.name.value}`, level: report.patient.name.confidence.level },
-    { text: `Species: ${report.patient.species.value} | Breed: ${report.patient.breed.value}`, level: report.patient.species.confidence.level },
-    { text: `Age: ${report.patient.age.value} | Weight: ${report.patient.weight.value}`, level: report.patient.age.confidence.level },
-    { text: `Sex: ${report.patient.sex.value}`, level: report.patient.sex.confidence.level },
-  ];
+  return y + 6;
+}
 
-  let lineY = y + 14;
-  for (const line of patientLines) {
-    // Confidence dot
-    doc.setFillColor(...getConfidenceColor(line.level));
-    doc.circle(MARGIN + 3, lineY - 1, 1, "F");
-    doc.setTextColor(...COLORS.text);
-    doc.text(line.text, MARGIN + 6, lineY);
-    lineY += 5;
-  }
+function drawPatientBox(
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  patient: PatientReport,
+  weightUnit: WeightUnit
+): void {
+  const { patient: info } = patient;
+  // Normalized values follow what was said, e.g. "about 75 pounds (~ 34.0 kg)"
+  const weight = parseWeight(info.weight.value);
+  const age = parseAge(info.age.value);
+  drawInfoBox(doc, x, y, width, "PATIENT", [
+    { text: `Name: ${info.name.value}`, level: info.name.confidence.level },
+    { text: `Species: ${info.species.value} | Breed: ${info.breed.value}`, level: info.species.confidence.level },
+    { text: `Age: ${info.age.value}${age ? ` (${formatAge(age)})` : ""}`, level: info.age.confidence.level },
+    { text: `Weight: ${info.weight.value}${weight ? ` (${formatWeight(weight, weightUnit)})` : ""}`, level: info.weight.confidence.level },
+    { text: `Sex: ${info.sex.value}`, level: info.sex.confidence.level },
+  ]);
+}
 
-  // Owner Info Box
-  const ownerX = MARGIN + colWidth + 10;
-  doc.setFillColor(248, 250, 252);
-  doc.roundedRect(ownerX, y, colWidth, 35, 2, 2, "F");
+function drawOwnerBox(
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  owner: OwnerInfo
+): void {
+  drawInfoBox(doc, x, y, width, "OWNER", [
+    { text: `Name: ${owner.name.value}`, level: owner.name.confidence.level },
+    { text: `Phone: ${owner.phone.value}`, level: owner.phone.confidence.level },
+    { text: `Email: ${owner.email.value}`, level: owner.email.confidence.level },
+  ]);
+}
+
+function drawInfoBox(
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  title: string,
+  lines: { text: string; level: ConfidenceLevel }[]
+): void {
+  doc.setFillColor(248, 250, 252); // slate-50
+  doc.roundedRect(x, y, width, 40, 2, 2, "F");
 
   doc.setTextColor(...COLORS.primary);
   doc.setFontSize(10);
   doc.setFont("helvetica", "bold");
-  doc.text("OWNER", ownerX + 5, y + 7);
+  doc.text(title, x + 5, y + 7);
 
   doc.setTextColor(...COLORS.text);
   doc.setFont("helvetica", "normal");
   doc.setFontSize(9);
 
-  const ownerLines = [
-    { text: `Name: ${report.owner.name.value}`, level: report.owner.name.confidence.level },
-    { text: `Phone: ${report.owner.phone.value}`, level: report.owner.phone.confidence.level },
-    { text: `Email: ${report.owner.email.value}`, level: report.owner.email.confidence.level },
-  ];
-
-  lineY = y + 14;
-  for (const line of ownerLines) {
+  let lineY = y + 14;
+  for (const line of lines) {
+    // Confidence dot
     doc.setFillColor(...getConfidenceColor(line.level));
-    doc.circle(ownerX + 3, lineY - 1, 1, "F");
+    doc.circle(x + 3, lineY - 1, 1, "F");
     doc.setTextColor(...COLORS.text);
-    doc.text(line.text, ownerX + 6, lineY);
+    doc.text(line.text, x + 6, lineY);
     lineY += 5;
   }
-
-  return y + 45;
 }
 
 function drawSection(
@@ -338,11 +488,18 @@ function drawSection(
   doc.setFontSize(10);
   doc.setFont("helvetica", "normal");
 
-  const lines = doc.splitTextToSize(content, CONTENT_WIDTH);
-  doc.text(lines, MARGIN, y);
-  y += lines.length * 5 + 6;
+  // Long sections (e.g. a SOAP plan) continue on the next page
+  const lines: string[] = doc.splitTextToSize(content, CONTENT_WIDTH);
+  for (const line of lines) {
+    if (y > PAGE_HEIGHT - 20) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.text(line, MARGIN, y);
+    y += 5;
+  }
 
-  return y;
+  return y + 6;
 }
 
 function drawBulletList(
@@ -438,71 +595,205 @@ function drawNumberedList(
 function drawMedicationsAllergies(
   doc: jsPDF,
   y: number,
-  report: IntakeReport
+  patient: PatientReport
 ): number {
   if (y > PAGE_HEIGHT - 40) {
     doc.addPage();
     y = MARGIN;
   }
 
-  const colWidth = CONTENT_WIDTH / 2 - 5;
-
   // Medications
   doc.setTextColor(...COLORS.primary);
   doc.setFontSize(10);
   doc.setFont("helvetica", "bold");
 
-  doc.setFillColor(...getConfidenceColor(report.currentMedications.confidence.level));
+  doc.setFillColor(...getConfidenceColor(patient.currentMedications.confidence.level));
   doc.circle(MARGIN + 2, y - 1, 1.5, "F");
   doc.text("CURRENT MEDICATIONS", MARGIN + 6, y);
+  y += 5;
 
-  doc.setTextColor(...COLORS.text);
-  doc.setFontSize(9);
-  doc.setFont("helvetica", "normal");
-
-  let medY = y + 5;
-  if (report.currentMedications.value.length > 0) {
-    for (const med of report.currentMedications.value) {
-      doc.text(`• ${med}`, MARGIN, medY);
-      medY += 4;
-    }
+  if (patient.currentMedications.value.length > 0) {
+    y = drawMedicationTable(doc, y, patient.currentMedications.value);
   } else {
-    doc.text("None", MARGIN, medY);
-    medY += 4;
+    doc.setTextColor(...COLORS.text);
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.text("None", MARGIN, y);
+    y += 4;
   }
+  y += 4;
 
   // Allergies
-  const allergyX = MARGIN + colWidth + 10;
+  if (y > PAGE_HEIGHT - 20) {
+    doc.addPage();
+    y = MARGIN;
+  }
   doc.setTextColor(...COLORS.primary);
   doc.setFontSize(10);
   doc.setFont("helvetica", "bold");
 
-  doc.setFillColor(...getConfidenceColor(report.allergies.confidence.level));
-  doc.circle(allergyX + 2, y - 1, 1.5, "F");
-  doc.text("ALLERGIES", allergyX + 6, y);
+  doc.setFillColor(...getConfidenceColor(patient.allergies.confidence.level));
+  doc.circle(MARGIN + 2, y - 1, 1.5, "F");
+  doc.text("ALLERGIES", MARGIN + 6, y);
 
   doc.setTextColor(...COLORS.text);
   doc.setFontSize(9);
   doc.setFont("helvetica", "normal");
 
-  let allergyY = y + 5;
-  if (report.allergies.value.length > 0) {
-    for (const allergy of report.allergies.value) {
-      doc.text(`• ${allergy}`, allergyX, allergyY);
-      allergyY += 4;
+  y += 5;
+  if (patient.allergies.value.length > 0) {
+    for (const allergy of patient.allergies.value) {
+      doc.text(`• ${allergy}`, MARGIN, y);
+      y += 4;
     }
   } else {
-    doc.text("None known", allergyX, allergyY);
-    allergyY += 4;
+    doc.text("None known", MARGIN, y);
+    y += 4;
+  }
+
+  return y + 8;
+}
+
+/**
+ * One row per medication and a column per detail; each mentioned
+ * detail has its own confidence dot
+ */
+function drawMedicationTable(
+  doc: jsPDF,
+  y: number,
+  medications: Medication[]
+): number {
+  const columnX = MEDICATION_COLUMN_WIDTHS.map((_, i) =>
+    MEDICATION_COLUMN_WIDTHS.slice(0, i).reduce((sum, w) => sum + w, MARGIN)
+  );
+
+  // Header
+  doc.setTextColor(...COLORS.muted);
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "bold");
+  MEDICATION_FIELDS.forEach(({ label }, i) => {
+    doc.text(label.toUpperCase(), columnX[i]! + 3, y);
+  });
+  doc.setDrawColor(...COLORS.border);
+  doc.line(MARGIN, y + 1.5, MARGIN + CONTENT_WIDTH, y + 1.5);
+  y += 5.5;
+
+  doc.setFontSize(9);
+  for (const medication of medications) {
+    const cells = MEDICATION_FIELDS.map(({ key }, i) => {
+      const field = medication[key];
+      const text = isMentioned(field) ? field.value : "-";
+      const lines: string[] = doc.splitTextToSize(
+        text,
+        MEDICATION_COLUMN_WIDTHS[i]! - 4
+      );
+      return { field, lines };
+    });
+    const rowHeight = Math.max(...cells.map((c) => c.lines.length)) * 4;
+
+    if (y + rowHeight > PAGE_HEIGHT - 20) {
+      doc.addPage();
+      y = MARGIN;
+    }
+
+    cells.forEach(({ field, lines }, i) => {
+      const x = columnX[i]!;
+      if (isMentioned(field)) {
+        doc.setFillColor(...getConfidenceColor(field.confidence.level));
+        doc.circle(x + 1, y - 1.2, 1, "F");
+      }
+      doc.setTextColor(...COLORS.text);
+      doc.setFont("helvetica", i === 0 ? "bold" : "normal");
+      doc.text(lines, x + 3, y);
+    });
+    y += rowHeight + 1;
+  }
+
+  return y;
+}
+
+/**
+ * Recorded vital signs, with out-of-range values in red next to the
+ * species' reference range
+ */
+function drawVitalSigns(
+  doc: jsPDF,
+  y: number,
+  patient: PatientReport
+): number {
+  const { vitalSigns } = patient;
+  const recorded = VITAL_SIGN_FIELDS.filter(({ key }) =>
+    isMentioned(vitalSigns[key])
+  );
+  const hasOther = isMentioned(vitalSigns.other);
+  if (recorded.length === 0 && !hasOther) return y;
+
+  if (y > PAGE_HEIGHT - 50) {
+    doc.addPage();
+    y = MARGIN;
   }
 
-  return Math.max(medY, allergyY) + 8;
+  doc.setTextColor(...COLORS.primary);
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.text("VITAL SIGNS", MARGIN, y);
+  y += 6;
+
+  doc.setFontSize(10);
+  for (const { key, label } of recorded) {
+    if (y > PAGE_HEIGHT - 20) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    const field = vitalSigns[key];
+    const value =
+      key === "mucousMembranes"
+        ? vitalSigns.mucousMembranes.value
+        : formatMeasurement(vitalSigns[key].value);
+    const check = checkVitalSign(key, vitalSigns, patient.patient.species.value);
+    const isFlagged = check !== null && check.status !== "normal";
+
+    doc.setFillColor(...getConfidenceColor(field.confidence.level));
+    doc.circle(MARGIN + 2, y - 1.5, 1.5, "F");
+    doc.setTextColor(...COLORS.muted);
+    doc.setFont("helvetica", "normal");
+    doc.text(`${label}:`, MARGIN + 6, y);
+
+    doc.setFont("helvetica", "bold");
+    if (isFlagged) {
+      doc.setTextColor(...COLORS.confidenceLow);
+      doc.text(
+        `${value}  ${check.status.toUpperCase()} (ref ${check.range})`,
+        MARGIN + 50,
+        y
+      );
+    } else {
+      doc.setTextColor(...COLORS.text);
+      doc.text(value, MARGIN + 50, y);
+    }
+    y += 5;
+  }
+
+  if (hasOther) {
+    doc.setTextColor(...COLORS.text);
+    doc.setFont("helvetica", "normal");
+    const lines: string[] = doc.splitTextToSize(
+      vitalSigns.other.value,
+      CONTENT_WIDTH - 6
+    );
+    doc.setFillColor(...getConfidenceColor(vitalSigns.other.confidence.level));
+    doc.circle(MARGIN + 2, y - 1.5, 1.5, "F");
+    doc.text(lines, MARGIN + 6, y);
+    y += lines.length * 5;
+  }
+
+  return y + 6;
 }
 
 function drawAssessmentSection(
   doc: jsPDF,
   y: number,
-  report: IntakeReport
+  patient: PatientReport
 ): number {
   if (y > PAGE_HEIGHT - 50) {
     doc.addPage();
@@ -514,7 +805,7 @@ function drawAssessmentSection(
   doc.setDrawColor(...COLORS.primary);
 
   const assessmentLines = doc.splitTextToSize(
-    report.assessment.value,
+    patient.assessment.value,
     CONTENT_WIDTH - 10
   );
   const boxHeight = assessmentLines.length * 5 + 15;
@@ -526,7 +817,7 @@ function drawAssessmentSection(
   doc.setFont("helvetica", "bold");
 
   // Confidence dot for assessment
-  doc.setFillColor(...getConfidenceColor(report.assessment.confidence.level));
+  doc.setFillColor(...getConfidenceColor(patient.assessment.confidence.level));
   doc.circle(MARGIN + 4, y + 5, 1.5, "F");
   doc.text("CLINICAL ASSESSMENT", MARGIN + 8, y + 8);
 
@@ -538,6 +829,80 @@ function drawAssessmentSection(
   return y + boxHeight + 8;
 }
 
+/**
+ * Ranked differentials, marked as decision support
+ */
+function drawDifferentialsSection(
+  doc: jsPDF,
+  y: number,
+  differentials: ConfidentField<DifferentialDiagnosis[]>
+): number {
+  if (y > PAGE_HEIGHT - 50) {
+    doc.addPage();
+    y = MARGIN;
+  }
+
+  doc.setTextColor(...COLORS.primary);
+  doc.setFontSize(11);
+  doc.setFont("helvetica", "bold");
+  doc.setFillColor(...getConfidenceColor(differentials.confidence.level));
+  doc.circle(MARGIN + 2, y - 1.5, 1.5, "F");
+  doc.text("DIFFERENTIAL DIAGNOSES", MARGIN + 6, y);
+  y += 5;
+
+  doc.setTextColor(...COLORS.muted);
+  doc.setFontSize(8);
+  doc.setFont("helvetica", "italic");
+  doc.text(
+    "Decision support: AI-suggested possibilities, not a diagnosis. Confirm with examination and diagnostics.",
+    MARGIN,
+    y
+  );
+  y += 6;
+
+  differentials.value.forEach((differential, i) => {
+    if (y > PAGE_HEIGHT - 30) {
+      doc.addPage();
+      y = MARGIN;
+    }
+    doc.setTextColor(...COLORS.text);
+    doc.setFontSize(10);
+    doc.setFont("helvetica", "bold");
+    doc.text(
+      `${i + 1}. ${differential.condition} (${capitalize(differential.likelihood)} likelihood)`,
+      MARGIN,
+      y
+    );
+    y += 5;
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    const details: [string, string[]][] = [
+      ["For", differential.supportingFindings],
+      ["Against", differential.contradictingFindings],
+      ["Tests", differential.suggestedDiagnostics],
+    ];
+    for (const [label, items] of details) {
+      if (items.length === 0) continue;
+      const lines: string[] = doc.splitTextToSize(
+        `${label}: ${items.join("; ")}`,
+        CONTENT_WIDTH - 7
+      );
+      for (const line of lines) {
+        if (y > PAGE_HEIGHT - 20) {
+          doc.addPage();
+          y = MARGIN;
+        }
+        doc.text(line, MARGIN + 7, y);
+        y += 4;
+      }
+    }
+    y += 2;
+  });
+
+  return y + 6;
+}
+
 function drawFooter(doc: jsPDF): void {
   const y = PAGE_HEIGHT - 10;
 
@@ -0,0 +1,78 @@
+import type { RecordingPause, TranscriptSegment } from "../types/transcript";
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE } from "../types/language";
+import { calculateRelativeTimes } from "../types/transcript";
+import { transcribeAudio } from "./whisper";
+import { alignTimedTextToSpeakers } from "../utils/transcriptAlignment";
+
+export interface RetranscriptionResult {
+  success: true;
+  segments: TranscriptSegment[];
+}
+
+export interface RetranscriptionError {
+  success: false;
+  error: string;
+}
+
+export type RetranscriptionResponse =
+  | RetranscriptionResult
+  | RetranscriptionError;
+
+/**
+ * Re-transcribe a saved recording with Whisper and replace the live
+ * transcript, keeping the live speaker labels where timing allows.
+ * Recordings over Whisper's 25 MB upload limit are rejected before
+ * upload with a message asking to trim or compress them.
+ *
+ * @param audioBlob - The full recording
+ * @param previousSegments - Live transcript (used for speaker labels)
+ * @param recordingStartTime - Absolute start time of the recording (ms)
+ * @param language - Language spoken in the recording
+ * @param pauses - Pauses during the recording (not present in the audio)
+ */
+export async function retranscribeRecording(
+  audioBlob: Blob,
+  previousSegments: TranscriptSegment[],
+  recordingStartTime: number,
+  language: LanguageCode = DEFAULT_LANGUAGE,
+  pauses: RecordingPause[] = []
+): Promise<RetranscriptionResponse> {
+  const result = await transcribeAudio(audioBlob, {
+    timestamps: true,
+    language,
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  // Prefer word-level timing; fall back to phrase segments
+  const timed =
+    result.words.length > 0
+      ? result.words.map((w) => ({ text: w.word, start: w.start }))
+      : result.segments.map((s) => ({ text: s.text, start: s.start }));
+
+  if (timed.length === 0) {
+    return {
+      success: false,
+      error: "Whisper returned no speech for this recording.",
+    };
+  }
+
+  const previousWithTimes = calculateRelativeTimes(
+    previousSegments,
+    recordingStartTime,
+    pauses
+  );
+
+  return {
+    success: true,
+    segments: alignTimedTextToSpeakers(
+      timed,
+      previousWithTimes,
+      recordingStartTime,
+      pauses
+    ),
+  };
+}
@@ -1,29 +1,52 @@
 /**
  * IndexedDB-based session storage for VetTriage
- * Persists ONE active session across page refreshes
+ * Persists ONE active session across page refreshes, plus the audio
+ * chunks of the recording in progress so a crash doesn't lose it
  */
 
-import type { TranscriptSegment } from "../types/transcript";
+import type {
+  Participant,
+  RecordingPause,
+  TranscriptSegment,
+} from "../types/transcript";
+import type { LanguageCode } from "../types/language";
 import type { IntakeReport } from "../types/report";
+import { upgradeIntakeReport } from "../types/report";
+import type { ReportMode, SoapNote } from "../types/soap";
 
 const DB_NAME = "vettriage-session";
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const STORE_NAME = "session";
+const CHUNK_STORE_NAME = "audioChunks";
 const SESSION_KEY = "current";
 
 export interface SessionData {
   /** Transcript segments with speaker labels */
   segments: TranscriptSegment[];
+  /** Visit participants (speaker ids in segments refer to these) */
+  participants: Participant[] | null;
+  /** Language the conversation was recorded in */
+  language: LanguageCode | null;
   /** Audio recording as Blob */
   audioBlob: Blob | null;
   /** Audio MIME type for playback */
   audioMimeType: string | null;
   /** Recording start time (for relative timestamps) */
   recordingStartTime: number | null;
+  /** Pauses during the recording (excluded from relative timestamps) */
+  recordingPauses: RecordingPause[] | null;
   /** AI-generated report */
   report: IntakeReport | null;
   /** User-edited report (if different from original) */
   editedReport: IntakeReport | null;
+  /** Whether this session produces an intake report or a SOAP note */
+  reportMode: ReportMode | null;
+  /** AI-generated SOAP note */
+  soapNote: SoapNote | null;
+  /** User-edited SOAP note (if different from original) */
+  editedSoapNote: SoapNote | null;
+  /** True from recording start until the final audio blob is saved */
+  recordingInProgress: boolean;
   /** Timestamp when session was saved */
   savedAt: number;
 }
@@ -47,18 +70,36 @@ function openDB(): Promise<IDBDatabase> {
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       
-      // Create object store if it doesn't exist
+      // Create object stores if they don't exist
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME);
       }
+      if (!db.objectStoreNames.contains(CHUNK_STORE_NAME)) {
+        db.createObjectStore(CHUNK_STORE_NAME, { autoIncrement: true });
+      }
     };
   });
 }
 
+// Session writes run one at a time, in call order: each save reads the
+// stored session and merges into it, so two overlapping saves would
+// otherwise both start from the same copy and one would undo the other
+let sessionWrites: Promise<void> = Promise.resolve();
+
+function queueSessionWrite(write: () => Promise<void>): Promise<void> {
+  const result = sessionWrites.then(write);
+  sessionWrites = result.catch(() => undefined);
+  return result;
+}
+
 /**
- * Save session data to IndexedDB
+ * Save session data to IndexedDB, merged into what is already stored
  */
-export async function saveSession(data: Partial<SessionData>): Promise<void> {
+export function saveSession(data: Partial<SessionData>): Promise<void> {
+  return queueSessionWrite(() => writeSession(data));
+}
+
+async function writeSession(data: Partial<SessionData>): Promise<void> {
   try {
     const db = await openDB();
     
@@ -67,15 +108,22 @@ export async function saveSession(data: Partial<SessionData>): Promise<void> {
     
     const sessionData: SessionData = {
       segments: data.segments ?? existing?.segments ?? [],
+      participants: data.participants !== undefined ? data.participants : (existing?.participants ?? null),
+      language: data.language !== undefined ? data.language : (existing?.language ?? null),
       audioBlob: data.audioBlob !== undefined ? data.audioBlob : (existing?.audioBlob ?? null),
       audioMimeType: data.audioMimeType !== undefined ? data.audioMimeType : (existing?.audioMimeType ?? null),
       recordingStartTime: data.recordingStartTime !== undefined ? data.recordingStartTime : (existing?.recordingStartTime ?? null),
+      recordingPauses: data.recordingPauses !== undefined ? data.recordingPauses : (existing?.recordingPauses ?? null),
       report: data.report !== undefined ? data.report : (existing?.report ?? null),
       editedReport: data.editedReport !== undefined ? data.editedReport : (existing?.editedReport ?? null),
+      reportMode: data.reportMode !== undefined ? data.reportMode : (existing?.reportMode ?? null),
+      soapNote: data.soapNote !== undefined ? data.soapNote : (existing?.soapNote ?? null),
+      editedSoapNote: data.editedSoapNote !== undefined ? data.editedSoapNote : (existing?.editedSoapNote ?? null),
+      recordingInProgress: data.recordingInProgress ?? existing?.recordingInProgress ?? false,
       savedAt: Date.now(),
     };
 
-    return new Promise((resolve, reject) => {
+    return await new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, "readwrite");
       const store = transaction.objectStore(STORE_NAME);
       const request = store.put(sessionData, SESSION_KEY);
@@ -125,7 +173,18 @@ export async function loadSession(): Promise<SessionData | null> {
     const db = await openDB();
     const session = await getSessionInternal(db);
     db.close();
-    return session;
+    if (!session) return null;
+    // Reports saved before multi-pet visits have a single patient
+    return {
+      ...session,
+      report: session.report && upgradeIntakeReport(session.report),
+      editedReport:
+        session.editedReport && upgradeIntakeReport(session.editedReport),
+      // Sessions saved before SOAP notes were supported
+      reportMode: session.reportMode ?? null,
+      soapNote: session.soapNote ?? null,
+      editedSoapNote: session.editedSoapNote ?? null,
+    };
   } catch (error) {
     console.error("Error loading session:", error);
     return null;
@@ -133,24 +192,87 @@ export async function loadSession(): Promise<SessionData | null> {
 }
 
 /**
- * Clear all session data from IndexedDB
+ * Clear all session data (including stored audio chunks) from IndexedDB,
+ * after any saves already queued
  */
-export async function clearSession(): Promise<void> {
+export function clearSession(): Promise<void> {
+  return queueSessionWrite(deleteSession);
+}
+
+async function deleteSession(): Promise<void> {
   try {
     const db = await openDB();
     
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(SESSION_KEY);
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, CHUNK_STORE_NAME],
+        "readwrite"
+      );
+      transaction.objectStore(STORE_NAME).delete(SESSION_KEY);
+      transaction.objectStore(CHUNK_STORE_NAME).clear();
+
+      transaction.onerror = () => {
+        console.error("Failed to clear session:", transaction.error);
+        reject(transaction.error);
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    });
+  } catch (error) {
+    console.error("Error clearing session:", error);
+  }
+}
+
+/**
+ * Append a recorded audio chunk for the recording in progress
+ */
+export async function appendAudioChunk(chunk: Blob): Promise<void> {
+  try {
+    const db = await openDB();
+
+    // Awaited so a failed write is caught here: useAudioRecorder chains
+    // every write and must keep going after one fails
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE_NAME, "readwrite");
+      transaction.objectStore(CHUNK_STORE_NAME).add(chunk);
+
+      // Failed requests and a full quota both abort the transaction
+      transaction.onabort = () => {
+        console.error("Failed to store audio chunk:", transaction.error);
+        db.close();
+        reject(transaction.error);
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    });
+  } catch (error) {
+    console.error("Error storing audio chunk:", error);
+  }
+}
+
+/**
+ * Load stored audio chunks in recording order
+ */
+export async function loadAudioChunks(): Promise<Blob[]> {
+  try {
+    const db = await openDB();
+
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE_NAME, "readonly");
+      const request = transaction.objectStore(CHUNK_STORE_NAME).getAll();
 
       request.onerror = () => {
-        console.error("Failed to clear session:", request.error);
         reject(request.error);
       };
 
       request.onsuccess = () => {
-        resolve();
+        resolve(request.result as Blob[]);
       };
 
       transaction.oncomplete = () => {
@@ -158,16 +280,80 @@ export async function clearSession(): Promise<void> {
       };
     });
   } catch (error) {
-    console.error("Error clearing session:", error);
+    console.error("Error loading audio chunks:", error);
+    return [];
+  }
+}
+
+/**
+ * Delete stored audio chunks (once the final blob is saved)
+ */
+export async function clearAudioChunks(): Promise<void> {
+  try {
+    const db = await openDB();
+
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(CHUNK_STORE_NAME, "readwrite");
+      transaction.objectStore(CHUNK_STORE_NAME).clear();
+
+      // Failed requests and a full quota both abort the transaction
+      transaction.onabort = () => {
+        console.error("Failed to clear audio chunks:", transaction.error);
+        db.close();
+        reject(transaction.error);
+      };
+
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    });
+  } catch (error) {
+    console.error("Error clearing audio chunks:", error);
   }
 }
 
+/**
+ * A recording that was still running when the page closed
+ */
+export interface UnfinishedRecording {
+  session: SessionData;
+  /** Audio rebuilt from the stored chunks (null if none were stored) */
+  audioBlob: Blob | null;
+}
+
+/**
+ * Find a recording that never reached stop (tab crash, reload).
+ * Returns null when the last session finished normally.
+ */
+export async function loadUnfinishedRecording(): Promise<UnfinishedRecording | null> {
+  const session = await loadSession();
+  if (!session?.recordingInProgress) return null;
+
+  const chunks = await loadAudioChunks();
+  if (chunks.length === 0 && session.segments.length === 0) return null;
+
+  const audioBlob =
+    chunks.length > 0
+      ? new Blob(chunks, {
+          type: session.audioMimeType || chunks[0]?.type || "audio/webm",
+        })
+      : null;
+
+  return { session, audioBlob };
+}
+
 /**
  * Check if a session exists
  */
 export async function hasSession(): Promise<boolean> {
   const session = await loadSession();
-  return session !== null && (session.segments.length > 0 || session.report !== null);
+  return (
+    session !== null &&
+    (session.segments.length > 0 ||
+      session.report !== null ||
+      session.soapNote !== null)
+  );
 }
 
 /**
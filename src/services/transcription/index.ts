@@ -0,0 +1,87 @@
+import type {
+  TranscriptionProvider,
+  TranscriptionProviderId,
+} from "../../types/transcription";
+import { createWebSpeechProvider } from "./webSpeechProvider";
+import { createWhisperProvider } from "./whisperProvider";
+import { createScriptedProvider } from "./scriptedProvider";
+
+const PROVIDER_STORAGE_KEY = "transcription_provider";
+
+// Order in which live providers are tried when no preference is set
+const FALLBACK_ORDER: TranscriptionProviderId[] = ["web-speech", "whisper"];
+
+/**
+ * Create a transcription provider by id
+ */
+export function createTranscriptionProvider(
+  id: TranscriptionProviderId
+): TranscriptionProvider {
+  switch (id) {
+    case "web-speech":
+      return createWebSpeechProvider();
+    case "whisper":
+      return createWhisperProvider();
+    case "scripted":
+      return createScriptedProvider();
+  }
+}
+
+/**
+ * Get the user's preferred transcription provider (if any)
+ */
+export function getPreferredProviderId(): TranscriptionProviderId | null {
+  const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+  if (stored === "web-speech" || stored === "whisper" || stored === "scripted") {
+    return stored;
+  }
+  return null;
+}
+
+/**
+ * Persist the user's preferred transcription provider
+ */
+export function setPreferredProviderId(id: TranscriptionProviderId | null): void {
+  if (id) {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  }
+}
+
+/**
+ * Live providers the user can choose between, with whether each runs in
+ * this browser
+ */
+export function getLiveProviderOptions(): {
+  id: TranscriptionProviderId;
+  label: string;
+  isSupported: boolean;
+}[] {
+  return FALLBACK_ORDER.map((id) => {
+    const provider = createTranscriptionProvider(id);
+    return { id, label: provider.label, isSupported: provider.isSupported() };
+  });
+}
+
+/**
+ * Pick the transcription provider to use at runtime.
+ * Honors an explicit or stored preference when that provider is
+ * supported, otherwise falls back to the first supported live provider.
+ */
+export function selectTranscriptionProvider(
+  requested?: TranscriptionProviderId
+): TranscriptionProvider | null {
+  const preferred = requested ?? getPreferredProviderId();
+  if (preferred) {
+    const provider = createTranscriptionProvider(preferred);
+    if (provider.isSupported()) return provider;
+  }
+
+  for (const id of FALLBACK_ORDER) {
+    const provider = createTranscriptionProvider(id);
+    if (provider.isSupported()) return provider;
+  }
+
+  return null;
+}
@@ -0,0 +1,99 @@
+import { getMockTranscript } from "../../utils/mockTranscript";
+import type { TranscriptSegment } from "../../types/transcript";
+import type {
+  TranscriptionProvider,
+  TranscriptionCallbacks,
+} from "../../types/transcription";
+
+// Cap delays between scripted lines so demos don't stall
+const MAX_LINE_DELAY_MS = 3000;
+
+/**
+ * Transcription provider that replays a fixed script with realistic
+ * pacing. Useful for demos and for exercising the live pipeline
+ * without a microphone.
+ */
+export function createScriptedProvider(
+  getScript: () => TranscriptSegment[] = getMockTranscript
+): TranscriptionProvider {
+  let timers: number[] = [];
+  let callbacks: TranscriptionCallbacks | null = null;
+  let script: TranscriptSegment[] = [];
+  // Index of the next line to emit (kept across pause/resume)
+  let nextLine = 0;
+
+  const clearTimers = () => {
+    timers.forEach((id) => window.clearTimeout(id));
+    timers = [];
+  };
+
+  // Schedule the remaining lines, starting now with the next one
+  const scheduleFrom = (fromIndex: number) => {
+    const firstOffset = script[fromIndex]?.timestamp ?? 0;
+    let delay = 0;
+    let previousOffset = firstOffset;
+
+    script.slice(fromIndex).forEach((line, i) => {
+      const index = fromIndex + i;
+      delay += Math.min(line.timestamp - previousOffset, MAX_LINE_DELAY_MS);
+      previousOffset = line.timestamp;
+      const lineDelay = delay;
+
+      timers.push(
+        window.setTimeout(() => {
+          nextLine = index + 1;
+          callbacks?.onResult({
+            text: line.text,
+            timestamp: Date.now(),
+            speaker: line.speaker,
+          });
+          if (index === script.length - 1) {
+            callbacks?.onEnd();
+          }
+        }, lineDelay)
+      );
+    });
+  };
+
+  const start = (cb: TranscriptionCallbacks) => {
+    clearTimers();
+    callbacks = cb;
+    script = getScript();
+    nextLine = 0;
+    cb.onStart();
+    scheduleFrom(0);
+  };
+
+  const stop = () => {
+    clearTimers();
+    callbacks?.onEnd();
+    callbacks = null;
+  };
+
+  const abort = () => {
+    clearTimers();
+    callbacks = null;
+  };
+
+  const pause = () => {
+    clearTimers();
+  };
+
+  const resume = () => {
+    if (!callbacks) return;
+    clearTimers();
+    scheduleFrom(nextLine);
+  };
+
+  return {
+    id: "scripted",
+    label: "Scripted demo",
+    detectsPauses: false,
+    isSupported: () => true,
+    start,
+    stop,
+    abort,
+    pause,
+    resume,
+  };
+}
@@ -0,0 +1,144 @@
+import {
+  isSpeechRecognitionSupported,
+  getSpeechRecognition,
+} from "../../utils/browserSupport";
+import type {
+  TranscriptionProvider,
+  TranscriptionCallbacks,
+  TranscriptionStartOptions,
+} from "../../types/transcription";
+import { getLanguage } from "../../types/language";
+
+/**
+ * Transcription provider backed by the browser Web Speech API
+ */
+export function createWebSpeechProvider(): TranscriptionProvider {
+  let recognition: SpeechRecognition | null = null;
+  let shouldRestart = false;
+
+  const start = (
+    callbacks: TranscriptionCallbacks,
+    options: TranscriptionStartOptions
+  ) => {
+    const SpeechRecognitionClass = getSpeechRecognition();
+    if (!SpeechRecognitionClass) {
+      callbacks.onError("not-supported");
+      return;
+    }
+
+    if (!recognition) {
+      recognition = new SpeechRecognitionClass();
+    }
+    const instance = recognition;
+
+    // Configure for continuous recognition with interim results
+    instance.continuous = true;
+    instance.interimResults = true;
+    instance.lang = getLanguage(options.language).speechLocale;
+
+    instance.onstart = () => {
+      callbacks.onStart();
+    };
+
+    instance.onend = () => {
+      callbacks.onInterim("");
+
+      // Auto-restart if we should still be listening
+      if (shouldRestart) {
+        setTimeout(() => {
+          try {
+            instance.start();
+          } catch {
+            // Ignore if already started
+          }
+        }, 100);
+      } else {
+        callbacks.onEnd();
+      }
+    };
+
+    instance.onerror = (event: SpeechRecognitionErrorEvent) => {
+      // Handle no-speech gracefully - just restart if we should be recording
+      if (event.error === "no-speech") {
+        return;
+      }
+
+      // Handle aborted gracefully (happens when stopping)
+      if (event.error === "aborted") {
+        return;
+      }
+
+      switch (event.error) {
+        case "not-allowed":
+          shouldRestart = false;
+          callbacks.onError("permission-denied");
+          break;
+        case "network":
+          callbacks.onError("network");
+          break;
+        default:
+          callbacks.onError("unknown");
+      }
+    };
+
+    instance.onresult = (event: SpeechRecognitionEvent) => {
+      const now = Date.now();
+      let finalTranscript = "";
+      let currentInterim = "";
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result) {
+          const transcriptText = result[0]?.transcript || "";
+          if (result.isFinal) {
+            finalTranscript += transcriptText;
+          } else {
+            currentInterim += transcriptText;
+          }
+        }
+      }
+
+      callbacks.onInterim(currentInterim);
+
+      if (finalTranscript.trim()) {
+        callbacks.onResult({ text: finalTranscript.trim(), timestamp: now });
+      }
+    };
+
+    shouldRestart = true;
+    try {
+      instance.start();
+    } catch {
+      // Already started, ignore
+    }
+  };
+
+  const stop = () => {
+    shouldRestart = false;
+    if (!recognition) return;
+
+    try {
+      recognition.stop();
+    } catch {
+      // Already stopped, ignore
+    }
+  };
+
+  const abort = () => {
+    shouldRestart = false;
+    if (!recognition) return;
+
+    recognition.abort();
+    recognition = null;
+  };
+
+  return {
+    id: "web-speech",
+    label: "Browser speech recognition",
+    detectsPauses: true,
+    isSupported: isSpeechRecognitionSupported,
+    start,
+    stop,
+    abort,
+  };
+}
@@ -0,0 +1,225 @@
+import { transcribeAudio } from "../whisper";
+import type {
+  TranscriptionProvider,
+  TranscriptionCallbacks,
+  TranscriptionStartOptions,
+} from "../../types/transcription";
+import type { LanguageCode } from "../../types/language";
+import { DEFAULT_LANGUAGE } from "../../types/language";
+
+// How much audio to collect before sending a window to Whisper
+const WINDOW_MS = 8000;
+// Attempts per window before its audio is carried into the next one
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+// Audio of failed windows kept for the next one, at most this many windows
+const MAX_CARRIED_WINDOWS = 4;
+
+// Where audio data starts after the container header
+const WEBM_CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const MP4_FRAGMENT_BOX = [0x6d, 0x6f, 0x6f, 0x66]; // "moof"
+const OGG_PAGE = [0x4f, 0x67, 0x67, 0x53]; // "OggS"
+// Ogg Opus starts with an identification page and a comment page
+const OGG_HEADER_PAGES = 2;
+
+function indexOfBytes(bytes: Uint8Array, pattern: number[], from = 0): number {
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    for (let j = 0; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Offset of the first audio data in a recording's first chunk, or null
+ * when the chunk holds only the header
+ */
+function findAudioStart(bytes: Uint8Array): number | null {
+  const cluster = indexOfBytes(bytes, WEBM_CLUSTER_ID);
+  if (cluster >= 0) return cluster;
+
+  // The box type follows its 4-byte size
+  const fragment = indexOfBytes(bytes, MP4_FRAGMENT_BOX);
+  if (fragment >= 4) return fragment - 4;
+
+  if (indexOfBytes(bytes, OGG_PAGE) === 0) {
+    let page = 0;
+    for (let i = 0; i < OGG_HEADER_PAGES; i++) {
+      page = indexOfBytes(bytes, OGG_PAGE, page + 1);
+      if (page < 0) return null;
+    }
+    return page;
+  }
+  return null;
+}
+
+/**
+ * The container header at the start of a recording's first chunk,
+ * without the audio that follows it
+ */
+async function readContainerHeader(chunk: Blob): Promise<Blob> {
+  const bytes = new Uint8Array(await chunk.arrayBuffer());
+  return chunk.slice(0, findAudioStart(bytes) ?? bytes.length, chunk.type);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+/**
+ * Transcription provider that sends recorded audio to Groq Whisper in
+ * fixed windows. Audio arrives through pushAudio() from useAudioRecorder.
+ *
+ * MediaRecorder only writes the container header into its first chunk,
+ * so later windows are prefixed with the header bytes of that chunk
+ * (not its audio) to make them decodable on their own.
+ *
+ * A failed window is retried; if it still fails, the error is reported
+ * and its audio is sent again with the next window.
+ */
+export function createWhisperProvider(): TranscriptionProvider {
+  let callbacks: TranscriptionCallbacks | null = null;
+  let isActive = false;
+  let headerChunk: Blob | null = null;
+  let header: Promise<Blob> | null = null;
+  let pendingChunks: Blob[] = [];
+  // Windows whose transcription failed, oldest first
+  let carried: { chunks: Blob[]; timestamp: number }[] = [];
+  let windowStartTime: number | null = null;
+  let flushTimer: number | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  let abortController: AbortController | null = null;
+  let language: LanguageCode = DEFAULT_LANGUAGE;
+
+  const clearTimer = () => {
+    if (flushTimer !== null) {
+      window.clearInterval(flushTimer);
+      flushTimer = null;
+    }
+  };
+
+  const flush = () => {
+    if (pendingChunks.length === 0 || !headerChunk || !header) return;
+
+    const first = headerChunk;
+    const headerBytes = header;
+    const current = { chunks: pendingChunks, timestamp: windowStartTime ?? Date.now() };
+    pendingChunks = [];
+    windowStartTime = null;
+    const signal = abortController?.signal;
+
+    // Process windows sequentially so results arrive in order
+    queue = queue.then(async () => {
+      if (signal?.aborted) return;
+      const windows = [...carried, current];
+      const chunks = windows.flatMap((w) => w.chunks);
+      const blob = new Blob(
+        chunks[0] === first ? chunks : [await headerBytes, ...chunks],
+        { type: first.type || "audio/webm" }
+      );
+
+      callbacks?.onInterim("Transcribing…");
+      let result = await transcribeAudio(blob, { signal, language });
+      for (let attempt = 1; !result.success && attempt < MAX_ATTEMPTS; attempt++) {
+        if (signal?.aborted || !navigator.onLine) break;
+        // A 429 sets a cooldown that transcribeAudio waits out itself
+        if (!result.rateLimited) await delay(RETRY_DELAY_MS * attempt);
+        result = await transcribeAudio(blob, { signal, language });
+      }
+      callbacks?.onInterim("");
+
+      if (result.success) {
+        carried = [];
+        if (result.text) {
+          callbacks?.onResult({ text: result.text, timestamp: windows[0]!.timestamp });
+        }
+      } else if (!signal?.aborted) {
+        console.warn("Whisper window failed:", result.error);
+        carried = windows.slice(-MAX_CARRIED_WINDOWS);
+        callbacks?.onError(navigator.onLine ? "unknown" : "network");
+      }
+    });
+  };
+
+  const start = (
+    cb: TranscriptionCallbacks,
+    options: TranscriptionStartOptions
+  ) => {
+    callbacks = cb;
+    language = options.language;
+    isActive = true;
+    headerChunk = null;
+    header = null;
+    pendingChunks = [];
+    carried = [];
+    windowStartTime = null;
+    abortController = new AbortController();
+
+    clearTimer();
+    flushTimer = window.setInterval(flush, WINDOW_MS);
+    cb.onStart();
+  };
+
+  const stop = () => {
+    if (!isActive) return;
+    isActive = false;
+    clearTimer();
+    flush();
+
+    const cb = callbacks;
+    queue = queue.then(() => {
+      cb?.onEnd();
+    });
+  };
+
+  // Keep the header chunk: MediaRecorder continues the same stream on resume
+  const pause = () => {
+    if (!isActive) return;
+    clearTimer();
+    flush();
+  };
+
+  const resume = () => {
+    if (!isActive) return;
+    clearTimer();
+    flushTimer = window.setInterval(flush, WINDOW_MS);
+  };
+
+  const abort = () => {
+    isActive = false;
+    clearTimer();
+    abortController?.abort();
+    abortController = null;
+    pendingChunks = [];
+    carried = [];
+    callbacks = null;
+  };
+
+  const pushAudio = (chunk: Blob) => {
+    if (!isActive) return;
+    if (!headerChunk) {
+      headerChunk = chunk;
+      header = readContainerHeader(chunk);
+    }
+    if (windowStartTime === null) {
+      windowStartTime = Date.now();
+    }
+    pendingChunks.push(chunk);
+  };
+
+  return {
+    id: "whisper",
+    label: "Groq Whisper",
+    detectsPauses: false,
+    isSupported: () =>
+      typeof MediaRecorder !== "undefined" && !!navigator.mediaDevices,
+    start,
+    stop,
+    abort,
+    pause,
+    resume,
+    pushAudio,
+  };
+}
@@ -0,0 +1,20 @@
+import type { WeightUnit } from "../types/report";
+import { DEFAULT_WEIGHT_UNIT, isWeightUnit } from "../types/report";
+
+const CLINIC_WEIGHT_UNIT_KEY = "clinic_weight_unit";
+
+/**
+ * The unit the clinic works in: weights are shown converted to it,
+ * whatever unit the owner used
+ */
+export function getClinicWeightUnit(): WeightUnit {
+  const stored = localStorage.getItem(CLINIC_WEIGHT_UNIT_KEY);
+  return isWeightUnit(stored) ? stored : DEFAULT_WEIGHT_UNIT;
+}
+
+/**
+ * Persist the clinic's weight unit
+ */
+export function setClinicWeightUnit(unit: WeightUnit): void {
+  localStorage.setItem(CLINIC_WEIGHT_UNIT_KEY, unit);
+}
@@ -3,26 +3,11 @@ import {
   URGENCY_DETECTION_SYSTEM_PROMPT,
   createUrgencyPrompt,
 } from "../prompts/urgency-detection";
-import { getApiKey } from "./groq";
-import { waitForRateLimit, markRequestComplete, setCooldown } from "./rateLimiter";
-
-const GROQ_API_URL = "https://api.groq.com/openai/v1/chat/completions";
-const MODEL = "llama-3.3-70b-versatile";
-
-interface GroqMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
-}
-
-interface GroqChoice {
-  message: {
-    content: string;
-  };
-}
-
-interface GroqResponse {
-  choices: GroqChoice[];
-}
+import { createChatCompletion } from "./llm";
+import type { ChatMessage } from "../types/llm";
+import type { Participant } from "../types/transcript";
+import { DEFAULT_PARTICIPANTS } from "../types/transcript";
+import { redactTranscript, rehydrate } from "../utils/phiRedaction";
 
 /**
  * Parse urgency assessment from AI response
@@ -70,88 +55,47 @@ function parseUrgencyResponse(text: string): UrgencyAssessment | null {
  * Lightweight API call focused only on urgency assessment
  * @param transcript - The transcript text to analyze
  * @param signal - Optional AbortSignal to cancel the request
+ * @param participants - Visit participants (owner names are redacted)
  */
 export async function detectUrgency(
   transcript: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  participants: Participant[] = DEFAULT_PARTICIPANTS
 ): Promise<UrgencyAssessment | null> {
   // Check if already aborted
   if (signal?.aborted) {
     return null;
   }
 
-  // Check online status
-  if (!navigator.onLine) {
-    return null;
-  }
-
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    return null;
-  }
-
   if (!transcript.trim()) {
     return null;
   }
 
-  const messages: GroqMessage[] = [
+  // Owner identifiers never leave the browser
+  const redacted = redactTranscript(transcript, participants);
+
+  const messages: ChatMessage[] = [
     { role: "system", content: URGENCY_DETECTION_SYSTEM_PROMPT },
-    { role: "user", content: createUrgencyPrompt(transcript) },
+    { role: "user", content: createUrgencyPrompt(redacted.transcript) },
   ];
 
-  // Wait for global rate limit before making the call
-  await waitForRateLimit();
-
-  // Check again if aborted while waiting for rate limit
-  if (signal?.aborted) {
-    markRequestComplete();
-    return null;
-  }
-
-  try {
-    const response = await fetch(GROQ_API_URL, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages,
-        temperature: 0.1, // Low temperature for consistent output
-        max_tokens: 200, // Lightweight - only need urgency assessment
-      }),
-      signal, // Pass AbortSignal to fetch
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
-        console.warn("Rate limit exceeded for urgency detection - skipping");
-        setCooldown(15);
-        return null;
-      }
-      console.warn("Urgency detection API error:", response.status);
-      return null;
+  const completion = await createChatCompletion("urgency", messages, {
+    temperature: 0.1, // Low temperature for consistent output
+    maxTokens: 200, // Lightweight - only need urgency assessment
+    signal,
+  });
+
+  if (!completion.success) {
+    // Aborts are expected; other failures just skip this check
+    if (completion.rateLimited) {
+      console.warn("Rate limit exceeded for urgency detection - skipping");
+    } else if (!completion.aborted) {
+      console.warn("Urgency detection error:", completion.error);
     }
-
-    const data = (await response.json()) as GroqResponse;
-    const content = data.choices[0]?.message?.content;
-
-    if (!content) {
-      return null;
-    }
-
-    return parseUrgencyResponse(content);
-  } catch (error) {
-    // Don't log abort errors - they're expected
-    if (error instanceof Error && error.name === "AbortError") {
-      return null;
-    }
-    console.error("Urgency detection error:", error);
     return null;
-  } finally {
-    // Always mark request complete to release the lock
-    markRequestComplete();
   }
+
+  const assessment = parseUrgencyResponse(completion.content);
+  return assessment && rehydrate(assessment, redacted.map);
 }
 
@@ -0,0 +1,217 @@
+import { getApiKey } from "./groq";
+import {
+  waitForRateLimit,
+  markRequestComplete,
+  setCooldown,
+} from "./rateLimiter";
+import type { LanguageCode } from "../types/language";
+import { DEFAULT_LANGUAGE } from "../types/language";
+
+// Any OpenAI-compatible server exposing /audio/transcriptions works here
+const DEFAULT_TRANSCRIPTION_BASE_URL = "https://api.groq.com/openai/v1";
+const WHISPER_MODEL = "whisper-large-v3-turbo";
+
+// Upload limit of the Groq transcription endpoint
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+/**
+ * A single word with timing from verbose Whisper output
+ */
+export interface WhisperWord {
+  word: string;
+  /** Start time in seconds from the beginning of the audio */
+  start: number;
+  /** End time in seconds from the beginning of the audio */
+  end: number;
+}
+
+/**
+ * A phrase-level segment from verbose Whisper output
+ */
+export interface WhisperSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface AudioTranscriptionResult {
+  success: true;
+  text: string;
+  /** Phrase-level segments (only with timestamps requested) */
+  segments: WhisperSegment[];
+  /** Word-level timestamps (only with timestamps requested) */
+  words: WhisperWord[];
+}
+
+export interface AudioTranscriptionError {
+  success: false;
+  error: string;
+  /** Whether the failure was a 429 (caller may retry after cooldown) */
+  rateLimited?: boolean;
+}
+
+export type AudioTranscriptionResponse =
+  | AudioTranscriptionResult
+  | AudioTranscriptionError;
+
+interface TranscribeOptions {
+  /** Request word- and segment-level timestamps */
+  timestamps?: boolean;
+  /** Language spoken in the audio (defaults to English) */
+  language?: LanguageCode;
+  signal?: AbortSignal;
+}
+
+interface VerboseTranscriptionResponse {
+  text?: string;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
+}
+
+/**
+ * Get the base URL of the OpenAI-compatible transcription server
+ */
+function getTranscriptionBaseUrl(): string {
+  const envUrl = import.meta.env?.VITE_TRANSCRIPTION_BASE_URL as
+    | string
+    | undefined;
+  return (envUrl || DEFAULT_TRANSCRIPTION_BASE_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Get the key for the transcription server: its own key when set,
+ * otherwise the Groq key, which is only handed to Groq
+ */
+function getTranscriptionApiKey(baseUrl: string): string | null {
+  const envKey = (
+    import.meta.env?.VITE_TRANSCRIPTION_API_KEY as string | undefined
+  )?.trim();
+  if (envKey) return envKey;
+  return baseUrl.startsWith(DEFAULT_TRANSCRIPTION_BASE_URL) ? getApiKey() : null;
+}
+
+/**
+ * Why audio is too large to transcribe in one request, or null when it
+ * fits (name is how the message refers to it, e.g. a file name)
+ */
+export function getAudioSizeError(name: string, size: number): string | null {
+  return size > MAX_UPLOAD_BYTES
+    ? `${name} is larger than 25 MB. Please trim or compress the recording.`
+    : null;
+}
+
+/**
+ * Map a MIME type to a file extension Whisper recognizes
+ */
+function getAudioExtension(mimeType: string): string {
+  if (mimeType.includes("m4a")) return "m4a";
+  if (mimeType.includes("mp4")) return "mp4";
+  if (mimeType.includes("flac")) return "flac";
+  if (mimeType.includes("ogg")) return "ogg";
+  if (mimeType.includes("mpeg")) return "mp3";
+  if (mimeType.includes("wav")) return "wav";
+  return "webm";
+}
+
+/**
+ * Transcribe an audio blob with Whisper via an OpenAI-compatible
+ * /audio/transcriptions endpoint
+ */
+export async function transcribeAudio(
+  audio: Blob,
+  options: TranscribeOptions = {}
+): Promise<AudioTranscriptionResponse> {
+  const { timestamps = false, language = DEFAULT_LANGUAGE, signal } = options;
+
+  if (!navigator.onLine) {
+    return {
+      success: false,
+      error: "You're offline. Whisper transcription requires an internet connection.",
+    };
+  }
+
+  const sizeError = getAudioSizeError("The recording", audio.size);
+  if (sizeError) {
+    return { success: false, error: sizeError };
+  }
+
+  const baseUrl = getTranscriptionBaseUrl();
+  const apiKey = getTranscriptionApiKey(baseUrl);
+  // Self-hosted servers may not need a key; Groq always does
+  if (!apiKey && baseUrl.startsWith(DEFAULT_TRANSCRIPTION_BASE_URL)) {
+    return {
+      success: false,
+      error: "No API key configured. Please add your Groq API key.",
+    };
+  }
+
+  const mimeType = audio.type || "audio/webm";
+  const formData = new FormData();
+  formData.append("file", audio, `audio.${getAudioExtension(mimeType)}`);
+  formData.append("model", WHISPER_MODEL);
+  formData.append("language", language);
+  if (timestamps) {
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "word");
+    formData.append("timestamp_granularities[]", "segment");
+  } else {
+    formData.append("response_format", "json");
+  }
+
+  // Wait for global rate limit before making the call
+  await waitForRateLimit();
+
+  try {
+    const response = await fetch(
+      `${baseUrl}/audio/transcriptions`,
+      {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: formData,
+        signal,
+      }
+    );
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        return {
+          success: false,
+          error: "Invalid API key. Please check your Groq API key.",
+        };
+      }
+      if (response.status === 429) {
+        // Set 15 second cooldown on rate limit error
+        setCooldown(15);
+        return {
+          success: false,
+          error: "Rate limit exceeded. Please wait 15 seconds and try again.",
+          rateLimited: true,
+        };
+      }
+      return {
+        success: false,
+        error: `API error: ${response.status} ${response.statusText}`,
+      };
+    }
+
+    const data = (await response.json()) as VerboseTranscriptionResponse;
+    return {
+      success: true,
+      text: (data.text ?? "").trim(),
+      segments: data.segments ?? [],
+      words: data.words ?? [],
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      return { success: false, error: "Transcription cancelled." };
+    }
+    console.error("Whisper API error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred.",
+    };
+  } finally {
+    // Always mark request complete to release the lock
+    markRequestComplete();
+  }
+}
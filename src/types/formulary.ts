@@ -0,0 +1,81 @@
+/**
+ * Drug classes in the formulary
+ */
+export type DrugClass =
+  | "NSAID"
+  | "opioid"
+  | "analgesic"
+  | "antibiotic"
+  | "corticosteroid"
+  | "immunomodulator"
+  | "antihistamine"
+  | "gastrointestinal"
+  | "antiemetic"
+  | "cardiac"
+  | "endocrine"
+  | "anticonvulsant"
+  | "behavioural"
+  | "sedative"
+  | "anaesthetic"
+  | "parasiticide";
+
+/**
+ * A drug in the local formulary
+ */
+export interface FormularyDrug {
+  /** Generic name written into reports, e.g. "Meloxicam" */
+  name: string;
+  /** Brand names and other spellings, e.g. "Metacam" */
+  aliases: string[];
+  drugClass: DrugClass;
+}
+
+/**
+ * A parsed dose: an amount of drug, a volume, a count of tablets or a
+ * dose already given per kg of body weight
+ */
+export interface DoseAmount {
+  value: number;
+  unit: "mg" | "mL" | "tablet" | "mg/kg";
+}
+
+/**
+ * A parsed product strength: mg per tablet (or capsule) or per mL
+ */
+export interface DrugStrength {
+  mg: number;
+  per: "tablet" | "mL";
+}
+
+/**
+ * Usual single dose of a drug for one species, in mg/kg
+ */
+export interface DoseRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * How serious a medication warning is
+ * - caution: worth a second look, e.g. a dose below the usual range
+ * - danger: likely harmful, e.g. a drug toxic to the species
+ */
+export type WarningSeverity = "caution" | "danger";
+
+/**
+ * A dose or contraindication problem found for one medication
+ */
+export interface MedicationWarning {
+  severity: WarningSeverity;
+  message: string;
+}
+
+/**
+ * Result of checking one medication against the patient
+ */
+export interface MedicationCheck {
+  /** Dose in mg/kg, when the dose, strength and weight give one */
+  dosePerKg: number | null;
+  /** Most serious first */
+  warnings: MedicationWarning[];
+}
@@ -0,0 +1,42 @@
+/**
+ * Languages supported for recording and reports
+ * - code: ISO 639-1 code (sent to Whisper)
+ * - speechLocale: BCP 47 locale for the Web Speech API
+ * - name: English name (used in AI prompts)
+ * - nativeName: Name shown in the language picker
+ */
+export type LanguageCode = "en" | "es" | "zh";
+
+export interface LanguageOption {
+  code: LanguageCode;
+  speechLocale: string;
+  name: string;
+  nativeName: string;
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageOption> = {
+  en: { code: "en", speechLocale: "en-US", name: "English", nativeName: "English" },
+  es: { code: "es", speechLocale: "es-US", name: "Spanish", nativeName: "Español" },
+  zh: {
+    code: "zh",
+    speechLocale: "zh-CN",
+    name: "Mandarin Chinese",
+    nativeName: "中文 (普通话)",
+  },
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+/**
+ * Type guard for stored/untrusted language codes
+ */
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === "string" && value in LANGUAGES;
+}
+
+/**
+ * Get language details by code
+ */
+export function getLanguage(code: LanguageCode): LanguageOption {
+  return LANGUAGES[code];
+}
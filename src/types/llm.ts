@@ -0,0 +1,52 @@
+/**
+ * Tasks that call a chat-completion model. Each can point at its own
+ * endpoint and model (e.g. a large cloud model for extraction and a
+ * small local one for urgency).
+ * - extraction: full intake report from a finished transcript
+ * - urgency: lightweight urgency check during recording
+ */
+export type LlmTask = "extraction" | "urgency";
+
+/**
+ * Connection settings for an OpenAI-compatible chat-completion server
+ * (Groq, OpenAI, Ollama, llama.cpp server, ...)
+ */
+export interface LlmConfig {
+  /** Base URL up to and including the API version, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  /** Bearer token (local servers usually need none) */
+  apiKey: string | null;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * Per-request generation settings
+ */
+export interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  /** Stream the reply; called with all text received so far */
+  onDelta?: (content: string) => void;
+}
+
+export interface ChatCompletionResult {
+  success: true;
+  content: string;
+}
+
+export interface ChatCompletionError {
+  success: false;
+  error: string;
+  /** Whether the failure was a 429 (caller may retry after cooldown) */
+  rateLimited?: boolean;
+  /** Whether the request was cancelled through its AbortSignal */
+  aborted?: boolean;
+}
+
+export type ChatCompletionResponse = ChatCompletionResult | ChatCompletionError;
@@ -6,6 +6,16 @@
  */
 export type ConfidenceLevel = "high" | "medium" | "low";
 
+/**
+ * Where in the transcript a field's value came from
+ */
+export interface FieldEvidence {
+  /** Index of the supporting TranscriptSegment */
+  segmentIndex: number;
+  /** Words quoted from that segment */
+  quote: string;
+}
+
 /**
  * Metadata about AI extraction confidence
  */
@@ -16,6 +26,8 @@ export interface ConfidenceMetadata {
   level: ConfidenceLevel;
   /** Optional note explaining assumptions or ambiguity */
   note?: string;
+  /** Transcript segments supporting the value (empty when not mentioned) */
+  evidence?: FieldEvidence[];
 }
 
 /**
@@ -62,29 +74,285 @@ export interface PatientInfo {
   sex: ConfidentField<string>;
 }
 
+/**
+ * A measured value with its unit, e.g. { value: 38.6, unit: "°C" }
+ */
+export interface Measurement {
+  value: number;
+  unit: string;
+}
+
+/**
+ * Unit weights are shown in (a clinic preference)
+ */
+export type WeightUnit = "kg" | "lb";
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "kg";
+
+/**
+ * Type guard for stored/untrusted weight units
+ */
+export function isWeightUnit(value: unknown): value is WeightUnit {
+  return value === "kg" || value === "lb";
+}
+
+/**
+ * A weight parsed from what was said, e.g. "about 75 pounds"
+ */
+export interface NormalizedWeight {
+  kg: number;
+  /** Unit the weight was given in */
+  unit: WeightUnit;
+  /** An estimate ("about", "around", a range) */
+  approximate: boolean;
+  /** The phrasing it was parsed from */
+  original: string;
+}
+
+/**
+ * An age parsed from what was said, e.g. "five and a half"
+ */
+export interface NormalizedAge {
+  months: number;
+  approximate: boolean;
+  original: string;
+}
+
+/**
+ * Vital signs taken during the visit (measurements are null when not
+ * recorded)
+ */
+export interface VitalSigns {
+  /** Body temperature in °C or °F */
+  temperature: ConfidentField<Measurement | null>;
+  /** Beats per minute */
+  heartRate: ConfidentField<Measurement | null>;
+  /** Breaths per minute */
+  respiratoryRate: ConfidentField<Measurement | null>;
+  /** Mucous membrane colour, e.g. "pink" or "pale" */
+  mucousMembranes: ConfidentField<string>;
+  /** Capillary refill time in seconds */
+  capillaryRefillTime: ConfidentField<Measurement | null>;
+  /** Body condition score on the 9-point ("/9") or 5-point ("/5") scale */
+  bodyConditionScore: ConfidentField<Measurement | null>;
+  /** Anything else recorded, e.g. hydration or pulse quality */
+  other: ConfidentField<string>;
+}
+
+export type VitalSignKey = keyof VitalSigns;
+
+/**
+ * Typed vital signs in display order ("other" is shown separately)
+ */
+export const VITAL_SIGN_FIELDS: {
+  key: Exclude<VitalSignKey, "other">;
+  label: string;
+}[] = [
+  { key: "temperature", label: "Temperature" },
+  { key: "heartRate", label: "Heart rate" },
+  { key: "respiratoryRate", label: "Respiratory rate" },
+  { key: "mucousMembranes", label: "Mucous membranes" },
+  { key: "capillaryRefillTime", label: "CRT" },
+  { key: "bodyConditionScore", label: "Body condition" },
+];
+
+/**
+ * A medication the pet is on; each detail has its own confidence
+ * ("Not mentioned" when it wasn't said)
+ */
+export interface Medication {
+  /** Generic name from the formulary when matched, e.g. "Meloxicam" */
+  name: ConfidentField<string>;
+  /** Product strength, e.g. "1.5 mg/mL" or "75 mg tablets" */
+  strength: ConfidentField<string>;
+  /** Amount given each time, e.g. "1 tablet" or "2.5 mg" */
+  dose: ConfidentField<string>;
+  /** e.g. "PO", "SC" or "topical" */
+  route: ConfidentField<string>;
+  /** e.g. "SID" or "every 12 hours" */
+  frequency: ConfidentField<string>;
+  /** When it was last given, e.g. "this morning" */
+  lastGiven: ConfidentField<string>;
+}
+
+export type MedicationKey = keyof Medication;
+
+/**
+ * Medication details in display order
+ */
+export const MEDICATION_FIELDS: { key: MedicationKey; label: string }[] = [
+  { key: "name", label: "Drug" },
+  { key: "strength", label: "Strength" },
+  { key: "dose", label: "Dose" },
+  { key: "route", label: "Route" },
+  { key: "frequency", label: "Frequency" },
+  { key: "lastGiven", label: "Last given" },
+];
+
+/**
+ * A medication with only a name, e.g. from a report that listed
+ * medications as text; the other details are "Not mentioned"
+ */
+export function createMedication(
+  name: string,
+  confidence: ConfidenceMetadata
+): Medication {
+  const notMentioned = () => createConfidentField("Not mentioned", 0);
+  return {
+    name: { value: name, confidence },
+    strength: notMentioned(),
+    dose: notMentioned(),
+    route: notMentioned(),
+    frequency: notMentioned(),
+    lastGiven: notMentioned(),
+  };
+}
+
 export interface OwnerInfo {
   name: ConfidentField<string>;
   phone: ConfidentField<string>;
   email: ConfidentField<string>;
 }
 
-export interface IntakeReport {
+/**
+ * How likely a differential diagnosis is given what was discussed
+ */
+export type DifferentialLikelihood = "high" | "moderate" | "low";
+
+/**
+ * A candidate condition suggested as decision support, not a diagnosis
+ */
+export interface DifferentialDiagnosis {
+  condition: string;
+  likelihood: DifferentialLikelihood;
+  /** Findings from the transcript that point to the condition */
+  supportingFindings: string[];
+  /** Findings from the transcript that argue against it */
+  contradictingFindings: string[];
+  /** Tests that would confirm or rule it out */
+  suggestedDiagnostics: string[];
+}
+
+/**
+ * Everything the report records about one pet
+ */
+export interface PatientReport {
   patient: PatientInfo;
-  owner: OwnerInfo;
   chiefComplaint: ConfidentField<string>;
   symptoms: ConfidentField<string[]>;
   duration: ConfidentField<string>;
   severity: ConfidentField<"mild" | "moderate" | "severe" | "critical">;
   medicalHistory: ConfidentField<string>;
-  currentMedications: ConfidentField<string[]>;
+  currentMedications: ConfidentField<Medication[]>;
   allergies: ConfidentField<string[]>;
-  vitalSigns: ConfidentField<string>;
+  vitalSigns: VitalSigns;
   assessment: ConfidentField<string>;
+  /**
+   * Candidate conditions, most likely first (absent from reports made
+   * before differentials were added, or when the AI did not provide any)
+   */
+  differentials?: ConfidentField<DifferentialDiagnosis[]>;
   recommendedActions: ConfidentField<string[]>;
   urgencyLevel: ConfidentField<1 | 2 | 3 | 4 | 5>;
   notes: ConfidentField<string>;
 }
 
+/**
+ * Intake report for a visit: the owner block is shared by every pet
+ * brought in (there is always at least one patient)
+ */
+export interface IntakeReport {
+  owner: OwnerInfo;
+  patients: PatientReport[];
+}
+
+/**
+ * A patient as saved by older versions (vital signs were one text field,
+ * medications a list of text)
+ */
+export type StoredPatientReport = Omit<
+  PatientReport,
+  "vitalSigns" | "currentMedications"
+> & {
+  vitalSigns: VitalSigns | ConfidentField<string>;
+  currentMedications: ConfidentField<Medication[] | string[]>;
+};
+
+/**
+ * Report format from before multi-pet visits (one patient at the top level)
+ */
+export type SinglePatientIntakeReport = StoredPatientReport & {
+  owner: OwnerInfo;
+};
+
+/**
+ * Any report format saved by this or an older version
+ */
+export type StoredIntakeReport =
+  | { owner: OwnerInfo; patients: StoredPatientReport[] }
+  | SinglePatientIntakeReport;
+
+/**
+ * Structured vital signs from the free text saved by older versions
+ * (kept as "other")
+ */
+function upgradeVitalSigns(
+  vitalSigns: VitalSigns | ConfidentField<string>
+): VitalSigns {
+  if (!("value" in vitalSigns)) return vitalSigns;
+  const notRecorded = () => createConfidentField<Measurement | null>(null, 0);
+  return {
+    temperature: notRecorded(),
+    heartRate: notRecorded(),
+    respiratoryRate: notRecorded(),
+    mucousMembranes: createConfidentField("Not mentioned", 0),
+    capillaryRefillTime: notRecorded(),
+    bodyConditionScore: notRecorded(),
+    other: vitalSigns,
+  };
+}
+
+/**
+ * Structured medications from the text list saved by older versions
+ * (each entry becomes the drug name)
+ */
+function upgradeMedications(
+  medications: ConfidentField<Medication[] | string[]>
+): ConfidentField<Medication[]> {
+  const { value, confidence } = medications;
+  return {
+    value: value.map((item) =>
+      typeof item === "string" ? createMedication(item, confidence) : item
+    ),
+    confidence,
+  };
+}
+
+/**
+ * Upgrade a report saved before multi-pet visits, structured vital
+ * signs or structured medications were supported
+ */
+export function upgradeIntakeReport(report: StoredIntakeReport): IntakeReport {
+  const upgradePatient = (patient: StoredPatientReport): PatientReport => ({
+    ...patient,
+    vitalSigns: upgradeVitalSigns(patient.vitalSigns),
+    currentMedications: upgradeMedications(patient.currentMedications),
+  });
+  if ("patients" in report) {
+    return { owner: report.owner, patients: report.patients.map(upgradePatient) };
+  }
+  const { owner, ...patient } = report;
+  return { owner, patients: [upgradePatient(patient)] };
+}
+
+/**
+ * Name to show for a patient ("Pet 2" when no name was mentioned)
+ */
+export function getPatientLabel(patient: PatientReport, index: number): string {
+  const name = patient.patient.name.value.trim();
+  return name && name !== "Not mentioned" ? name : `Pet ${index + 1}`;
+}
+
 /**
  * Legacy report format (for backward compatibility during migration)
  */
@@ -126,7 +394,7 @@ export function migrateFromLegacy(legacy: LegacyIntakeReport): IntakeReport {
     note: "Migrated from previous session",
   });
 
-  return {
+  return upgradeIntakeReport({
     patient: {
       name: { value: legacy.patient.name, confidence: defaultConfidence(legacy.patient.name) },
       species: { value: legacy.patient.species, confidence: defaultConfidence(legacy.patient.species) },
@@ -152,12 +420,28 @@ export function migrateFromLegacy(legacy: LegacyIntakeReport): IntakeReport {
     recommendedActions: { value: legacy.recommendedActions, confidence: defaultConfidence(legacy.recommendedActions) },
     urgencyLevel: { value: legacy.urgencyLevel, confidence: defaultConfidence(legacy.urgencyLevel) },
     notes: { value: legacy.notes, confidence: defaultConfidence(legacy.notes) },
-  };
+  });
+}
+
+/**
+ * How much the model's answer had to be fixed before it became a report.
+ * Field entries are report paths such as "patients.0.patient.name".
+ */
+export interface ExtractionRepairSummary {
+  /** Repair round-trips sent to the model */
+  repairAttempts: number;
+  /** Fields that were invalid at first and fixed by a repair */
+  repairedFields: string[];
+  /** Fields still invalid after all repairs, replaced by defaults */
+  defaultedFields: string[];
+  /** Fields with conflicting statements across parts of a long visit */
+  conflictingFields?: string[];
 }
 
 export interface AnalysisResult {
   success: true;
   report: IntakeReport;
+  repairs: ExtractionRepairSummary;
 }
 
 export interface AnalysisError {
@@ -166,3 +450,20 @@ export interface AnalysisError {
 }
 
 export type AnalysisResponse = AnalysisResult | AnalysisError;
+
+export interface FieldExtractionResult {
+  success: true;
+  field: ConfidentField<unknown>;
+}
+
+export type FieldExtractionResponse = FieldExtractionResult | AnalysisError;
+
+/**
+ * A report that is still streaming in from the model
+ */
+export interface ReportProgress {
+  /** Report built from the fields received so far (the rest hold defaults) */
+  report: IntakeReport;
+  /** Paths of fields not received yet, e.g. "patients.0.symptoms" */
+  pendingFields: string[];
+}
@@ -0,0 +1,46 @@
+import type {
+  AnalysisError,
+  ConfidentField,
+  ExtractionRepairSummary,
+} from "./report";
+
+/**
+ * What the AI writes from a session's transcript: the intake report or
+ * a SOAP note for the medical record
+ */
+export type ReportMode = "intake" | "soap";
+
+/**
+ * SOAP note (Subjective, Objective, Assessment, Plan) with confidence
+ * per section
+ */
+export interface SoapNote {
+  /** History and complaints as reported by the owner */
+  subjective: ConfidentField<string>;
+  /** Findings observed or measured by clinical staff */
+  objective: ConfidentField<string>;
+  /** Clinical interpretation and differentials */
+  assessment: ConfidentField<string>;
+  /** Diagnostics, treatment, client communication and follow-up */
+  plan: ConfidentField<string>;
+}
+
+export type SoapSection = keyof SoapNote;
+
+/**
+ * Sections in charting order
+ */
+export const SOAP_SECTIONS: { key: SoapSection; label: string }[] = [
+  { key: "subjective", label: "Subjective" },
+  { key: "objective", label: "Objective" },
+  { key: "assessment", label: "Assessment" },
+  { key: "plan", label: "Plan" },
+];
+
+export interface SoapNoteResult {
+  success: true;
+  note: SoapNote;
+  repairs: ExtractionRepairSummary;
+}
+
+export type SoapNoteResponse = SoapNoteResult | AnalysisError;
@@ -0,0 +1,37 @@
+/**
+ * A species the app knows, with the other words people use for it
+ */
+export interface SpeciesEntry {
+  /** Canonical name written into reports, e.g. "Dog" */
+  name: string;
+  /** Other names and spellings, e.g. "canine", "puppy" */
+  aliases: string[];
+}
+
+/**
+ * A breed the app knows, with its nicknames and abbreviations
+ */
+export interface BreedEntry {
+  /** Canonical name written into reports, e.g. "Golden Retriever" */
+  name: string;
+  /** Canonical name of the breed's species */
+  species: string;
+  /** Nicknames and abbreviations, e.g. "golden", "GR" */
+  aliases: string[];
+}
+
+/**
+ * How free text was matched to the taxonomy
+ * - exact: it is the canonical name (ignoring case and spacing)
+ * - alias: it is a known alias
+ * - fuzzy: it is a likely misspelling of a name or alias
+ */
+export type TaxonomyMatchKind = "exact" | "alias" | "fuzzy";
+
+export interface TaxonomyMatch {
+  /** Canonical name, e.g. "Golden Retriever" or "Labrador Retriever mix" */
+  name: string;
+  kind: TaxonomyMatchKind;
+  /** Species of a matched breed */
+  species?: string;
+}
@@ -1,4 +1,93 @@
-export type Speaker = "vet" | "owner";
+import type { TranscriptCorrection } from "./vocabulary";
+
+/**
+ * Role a participant plays in the visit
+ */
+export type ParticipantRole =
+  | "vet"
+  | "vet-tech"
+  | "owner"
+  | "family"
+  | "interpreter"
+  | "other";
+
+/**
+ * Someone taking part in the conversation
+ */
+export interface Participant {
+  /** Stable id referenced by TranscriptSegment.speaker */
+  id: string;
+  /** Display name (e.g. "Dr. Patel", "Owner") */
+  name: string;
+  role: ParticipantRole;
+}
+
+/**
+ * Participant id of whoever is speaking.
+ * The default ids "vet" and "owner" match transcripts recorded before
+ * participants were configurable.
+ */
+export type Speaker = string;
+
+/** Roles that count as clinical staff (their statements are clinical observations) */
+export const CLINICAL_STAFF_ROLES: ParticipantRole[] = ["vet", "vet-tech"];
+
+export const ROLE_LABELS: Record<ParticipantRole, string> = {
+  vet: "Vet",
+  "vet-tech": "Vet Tech",
+  owner: "Owner",
+  family: "Family Member",
+  interpreter: "Interpreter",
+  other: "Other",
+};
+
+/** Default two-person visit */
+export const DEFAULT_PARTICIPANTS: Participant[] = [
+  { id: "vet", name: "Vet", role: "vet" },
+  { id: "owner", name: "Owner", role: "owner" },
+];
+
+/**
+ * Check whether a role counts as clinical staff
+ */
+export function isClinicalStaff(role: ParticipantRole): boolean {
+  return CLINICAL_STAFF_ROLES.includes(role);
+}
+
+/**
+ * Speaker to start a transcript with: the owner if present, otherwise
+ * the first non-clinical participant
+ */
+export function getInitialSpeaker(participants: Participant[]): Speaker {
+  const owner = participants.find((p) => p.role === "owner");
+  const nonStaff = participants.find((p) => !isClinicalStaff(p.role));
+  return (owner ?? nonStaff ?? participants[0])?.id ?? "owner";
+}
+
+/**
+ * Look up a participant by id, falling back to a generic entry
+ */
+export function getParticipant(
+  participants: Participant[],
+  id: Speaker
+): Participant {
+  const found = participants.find((p) => p.id === id);
+  if (found) return found;
+
+  // Unknown ids: recognize the legacy defaults, otherwise "other"
+  const fallback = DEFAULT_PARTICIPANTS.find((p) => p.id === id);
+  return fallback ?? { id, name: id, role: "other" };
+}
+
+/**
+ * Label used for a speaker in AI prompts, e.g. "VET TECH (Jamie)"
+ */
+export function getSpeakerPromptLabel(participant: Participant): string {
+  const roleLabel = ROLE_LABELS[participant.role].toUpperCase();
+  const name = participant.name.trim();
+  if (!name || name.toUpperCase() === roleLabel) return roleLabel;
+  return `${roleLabel} (${name})`;
+}
 
 export interface TranscriptSegment {
   speaker: Speaker;
@@ -7,6 +96,19 @@ export interface TranscriptSegment {
   timestamp: number;
   /** Relative time in seconds from recording start */
   relativeTime?: number;
+  /** Vocabulary corrections applied to text (see utils/vocabularyCorrection) */
+  corrections?: TranscriptCorrection[];
+}
+
+/**
+ * A stretch of wall-clock time during which recording was paused.
+ * Paused time is not in the audio, so it is left out of relativeTime.
+ */
+export interface RecordingPause {
+  /** Absolute time the recording was paused (ms) */
+  start: number;
+  /** Absolute time it resumed (ms) */
+  end: number;
 }
 
 export interface DiarizedTranscript {
@@ -18,21 +120,29 @@ export interface DiarizedTranscript {
  * Format diarized transcript for display
  */
 export function formatTranscriptForDisplay(
-  segments: TranscriptSegment[]
+  segments: TranscriptSegment[],
+  participants: Participant[] = DEFAULT_PARTICIPANTS
 ): string {
   return segments
-    .map((seg) => `[${seg.speaker === "vet" ? "Vet" : "Owner"}]: ${seg.text}`)
+    .map((seg) => `[${getParticipant(participants, seg.speaker).name}]: ${seg.text}`)
     .join("\n");
 }
 
 /**
  * Format diarized transcript for AI analysis
+ * @param numbered - Prefix each line with its segment index ("[3] VET: ...")
+ *   so the AI can cite the segments it used
  */
 export function formatTranscriptForAnalysis(
-  segments: TranscriptSegment[]
+  segments: TranscriptSegment[],
+  participants: Participant[] = DEFAULT_PARTICIPANTS,
+  numbered = false
 ): string {
   return segments
-    .map((seg) => `${seg.speaker === "vet" ? "VET" : "OWNER"}: ${seg.text}`)
+    .map((seg, i) => {
+      const line = `${getSpeakerPromptLabel(getParticipant(participants, seg.speaker))}: ${seg.text}`;
+      return numbered ? `[${i}] ${line}` : line;
+    })
     .join("\n");
 }
 
@@ -44,15 +154,53 @@ export function getPlainTranscript(segments: TranscriptSegment[]): string {
 }
 
 /**
- * Calculate relative times for segments based on recording start time
+ * Total paused time (ms) before an absolute timestamp
+ */
+export function getPausedDuration(
+  timestamp: number,
+  pauses: RecordingPause[]
+): number {
+  return pauses.reduce(
+    (total, pause) =>
+      total + Math.max(0, Math.min(pause.end, timestamp) - pause.start),
+    0
+  );
+}
+
+/**
+ * Convert a position in the recorded audio (seconds) back to an
+ * absolute timestamp, skipping over pauses
+ */
+export function getAbsoluteTimestamp(
+  relativeTime: number,
+  recordingStartTime: number,
+  pauses: RecordingPause[] = []
+): number {
+  let timestamp = recordingStartTime + relativeTime * 1000;
+  for (const pause of [...pauses].sort((a, b) => a.start - b.start)) {
+    if (pause.start <= timestamp) {
+      timestamp += pause.end - pause.start;
+    }
+  }
+  return timestamp;
+}
+
+/**
+ * Calculate relative times for segments based on recording start time.
+ * Paused time is subtracted so relativeTime matches the audio timeline.
  */
 export function calculateRelativeTimes(
   segments: TranscriptSegment[],
-  recordingStartTime: number
+  recordingStartTime: number,
+  pauses: RecordingPause[] = []
 ): TranscriptSegment[] {
   return segments.map((seg) => ({
     ...seg,
-    relativeTime: (seg.timestamp - recordingStartTime) / 1000,
+    relativeTime:
+      (seg.timestamp -
+        recordingStartTime -
+        getPausedDuration(seg.timestamp, pauses)) /
+      1000,
   }));
 }
 
@@ -0,0 +1,84 @@
+import type { Speaker } from "./transcript";
+import type { LanguageCode } from "./language";
+
+/**
+ * Available transcription backends
+ * - web-speech: Browser-native Web Speech API (live, Chrome/Edge/Safari)
+ * - whisper: Groq Whisper endpoint fed from recorded audio chunks
+ * - scripted: Replays a fixed script (demos, testing)
+ */
+export type TranscriptionProviderId = "web-speech" | "whisper" | "scripted";
+
+export type SpeechError =
+  | "not-supported"
+  | "permission-denied"
+  | "network"
+  | "unknown";
+
+/**
+ * A finalized piece of speech emitted by a provider
+ */
+export interface TranscriptionResultEvent {
+  text: string;
+  /** Absolute timestamp when the speech started */
+  timestamp: number;
+  /** Speaker, if the provider knows it (otherwise the hook decides) */
+  speaker?: Speaker;
+}
+
+/**
+ * Callbacks a provider uses to report progress back to the hook
+ */
+export interface TranscriptionCallbacks {
+  onStart: () => void;
+  onEnd: () => void;
+  onInterim: (text: string) => void;
+  onResult: (result: TranscriptionResultEvent) => void;
+  onError: (error: SpeechError) => void;
+}
+
+/**
+ * Per-recording settings passed to a provider when it starts
+ */
+export interface TranscriptionStartOptions {
+  /** Language spoken in the conversation */
+  language: LanguageCode;
+}
+
+/**
+ * Common interface implemented by every transcription backend.
+ * Providers only emit raw text; segment assembly and speaker
+ * attribution stay in useSpeechRecognition so every backend produces
+ * the same TranscriptSegment stream.
+ */
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  /** Human-readable name for settings UI */
+  readonly label: string;
+  /**
+   * Whether result timing reflects real speech pauses. The hook only
+   * uses the pause heuristic for speaker changes when this is true.
+   */
+  readonly detectsPauses: boolean;
+  /** Whether the provider can run in the current environment */
+  isSupported: () => boolean;
+  /** Begin transcribing */
+  start: (
+    callbacks: TranscriptionCallbacks,
+    options: TranscriptionStartOptions
+  ) => void;
+  /** Stop gracefully, flushing any pending audio */
+  stop: () => void;
+  /** Stop immediately, discarding pending audio */
+  abort: () => void;
+  /**
+   * Suspend without ending the session. Providers that carry state
+   * across a pause (audio headers, script position) implement this;
+   * others are stopped and started again.
+   */
+  pause?: () => void;
+  /** Continue after pause() */
+  resume?: () => void;
+  /** Feed a recorded audio chunk (only used by audio-based providers) */
+  pushAudio?: (chunk: Blob) => void;
+}
@@ -0,0 +1,32 @@
+/**
+ * Kinds of veterinary terms the transcript corrector knows about
+ */
+export type LexiconCategory = "drug" | "breed" | "condition";
+
+export interface LexiconEntry {
+  /** Canonical spelling inserted into the transcript */
+  term: string;
+  category: LexiconCategory;
+}
+
+export const LEXICON_CATEGORY_LABELS: Record<LexiconCategory, string> = {
+  drug: "Drugs",
+  breed: "Breeds",
+  condition: "Conditions",
+};
+
+/**
+ * A span of segment text replaced by a lexicon term.
+ * Offsets refer to the corrected text.
+ */
+export interface TranscriptCorrection {
+  /** Start offset of the replacement in TranscriptSegment.text */
+  start: number;
+  /** End offset (exclusive) of the replacement */
+  end: number;
+  /** What speech recognition originally produced */
+  original: string;
+  /** Lexicon term that replaced it */
+  term: string;
+  category: LexiconCategory;
+}
@@ -0,0 +1,328 @@
+import type {
+  DoseRange,
+  FormularyDrug,
+  MedicationCheck,
+  MedicationWarning,
+  WarningSeverity,
+} from "../types/formulary";
+import type { Medication, PatientReport } from "../types/report";
+import { resolveDrug } from "./formulary";
+import { parseDose, parseStrength, parseWeight } from "./normalization";
+import { isMentioned } from "./reportMerge";
+import { resolveSpecies } from "./taxonomy";
+
+/**
+ * Usual single doses in mg/kg per species (canonical taxonomy names),
+ * from standard veterinary formularies. Drugs dosed by route or per
+ * animal (e.g. acepromazine, insulin) are left out.
+ */
+export const DOSE_RANGES: Record<string, Partial<Record<string, DoseRange>>> = {
+  Meloxicam: { Dog: { min: 0.1, max: 0.2 }, Cat: { min: 0.01, max: 0.1 } },
+  Carprofen: { Dog: { min: 2, max: 4.4 } },
+  Robenacoxib: { Dog: { min: 1, max: 2 }, Cat: { min: 1, max: 2.4 } },
+  Grapiprant: { Dog: { min: 1.5, max: 2.5 } },
+  Firocoxib: { Dog: { min: 4, max: 6 } },
+  Gabapentin: { Dog: { min: 5, max: 20 }, Cat: { min: 5, max: 30 } },
+  Amantadine: { Dog: { min: 3, max: 5 }, Cat: { min: 3, max: 5 } },
+  Tramadol: { Dog: { min: 2, max: 5 }, Cat: { min: 1, max: 4 } },
+  Buprenorphine: { Dog: { min: 0.01, max: 0.03 }, Cat: { min: 0.01, max: 0.24 } },
+  Methadone: { Dog: { min: 0.1, max: 0.5 }, Cat: { min: 0.1, max: 0.3 } },
+  Amoxicillin: { Dog: { min: 10, max: 25 }, Cat: { min: 10, max: 25 } },
+  Cephalexin: { Dog: { min: 15, max: 30 }, Cat: { min: 15, max: 30 } },
+  Cefovecin: { Dog: { min: 8, max: 8 }, Cat: { min: 8, max: 8 } },
+  Cefpodoxime: { Dog: { min: 5, max: 10 } },
+  Enrofloxacin: { Dog: { min: 5, max: 20 }, Cat: { min: 2.5, max: 5 } },
+  Marbofloxacin: { Dog: { min: 2.75, max: 5.5 }, Cat: { min: 2.75, max: 5.5 } },
+  Doxycycline: { Dog: { min: 5, max: 10 }, Cat: { min: 5, max: 10 } },
+  Metronidazole: { Dog: { min: 10, max: 25 }, Cat: { min: 10, max: 25 } },
+  Clindamycin: { Dog: { min: 5.5, max: 11 }, Cat: { min: 5.5, max: 25 } },
+  Prednisolone: { Dog: { min: 0.25, max: 2 }, Cat: { min: 0.5, max: 4 } },
+  Prednisone: { Dog: { min: 0.25, max: 2 } },
+  Dexamethasone: { Dog: { min: 0.05, max: 0.5 }, Cat: { min: 0.05, max: 0.5 } },
+  Oclacitinib: { Dog: { min: 0.4, max: 0.6 } },
+  Ciclosporin: { Dog: { min: 5, max: 5 }, Cat: { min: 7, max: 7 } },
+  Diphenhydramine: { Dog: { min: 1, max: 4 }, Cat: { min: 1, max: 4 } },
+  Cetirizine: { Dog: { min: 0.5, max: 2 }, Cat: { min: 0.5, max: 1 } },
+  Famotidine: { Dog: { min: 0.5, max: 1 }, Cat: { min: 0.5, max: 1 } },
+  Omeprazole: { Dog: { min: 0.5, max: 1.5 }, Cat: { min: 0.5, max: 1.5 } },
+  Maropitant: { Dog: { min: 1, max: 8 }, Cat: { min: 1, max: 2 } },
+  Ondansetron: { Dog: { min: 0.1, max: 1 }, Cat: { min: 0.1, max: 1 } },
+  Metoclopramide: { Dog: { min: 0.2, max: 0.5 }, Cat: { min: 0.2, max: 0.5 } },
+  Furosemide: { Dog: { min: 1, max: 4 }, Cat: { min: 0.5, max: 2 } },
+  Pimobendan: { Dog: { min: 0.2, max: 0.3 }, Cat: { min: 0.2, max: 0.3 } },
+  Enalapril: { Dog: { min: 0.25, max: 0.5 }, Cat: { min: 0.25, max: 0.5 } },
+  Benazepril: { Dog: { min: 0.25, max: 0.5 }, Cat: { min: 0.5, max: 1 } },
+  Amlodipine: { Dog: { min: 0.1, max: 0.5 }, Cat: { min: 0.125, max: 0.25 } },
+  Spironolactone: { Dog: { min: 1, max: 2 }, Cat: { min: 1, max: 2 } },
+  Methimazole: { Cat: { min: 0.3, max: 1.25 } },
+  Levothyroxine: { Dog: { min: 0.01, max: 0.022 } },
+  Trilostane: { Dog: { min: 0.5, max: 3 } },
+  Phenobarbital: { Dog: { min: 2, max: 5 }, Cat: { min: 1, max: 2.5 } },
+  Levetiracetam: { Dog: { min: 20, max: 60 }, Cat: { min: 20, max: 60 } },
+  "Potassium Bromide": { Dog: { min: 20, max: 40 } },
+  Trazodone: { Dog: { min: 2, max: 10 }, Cat: { min: 5, max: 12 } },
+  Fluoxetine: { Dog: { min: 1, max: 2 }, Cat: { min: 0.5, max: 1.5 } },
+  Clomipramine: { Dog: { min: 1, max: 3 }, Cat: { min: 0.25, max: 0.5 } },
+  Fenbendazole: { Dog: { min: 50, max: 50 }, Cat: { min: 50, max: 50 } },
+  Praziquantel: { Dog: { min: 5, max: 10 }, Cat: { min: 5, max: 10 } },
+};
+
+// A dose a little off the textbook range (rounding to a whole or half
+// tablet) isn't worth a warning
+const RANGE_TOLERANCE = 0.1;
+
+// Breeds that may carry the MDR1 mutation (ivermectin sensitivity)
+const MDR1_BREEDS = [
+  "collie",
+  "sheltie",
+  "shetland",
+  "australian shepherd",
+  "aussie",
+  "old english sheepdog",
+  "english shepherd",
+  "german shepherd",
+  "whippet",
+  "silken windhound",
+];
+
+const KIDNEY_WORDS = ["kidney", "renal", "ckd", "azotemia", "azotaemia"];
+const GI_BLEEDING_WORDS = [
+  "melena",
+  "melaena",
+  "hematemesis",
+  "haematemesis",
+  "vomiting blood",
+  "bloody vomit",
+  "ulcer",
+];
+const LIQUID_WORDS = ["solution", "liquid", "syrup", "suspension"];
+
+// NSAIDs licensed for cats; the others need extra care in them
+const FELINE_NSAIDS = ["Meloxicam", "Robenacoxib"];
+
+/**
+ * What a contraindication rule can look at for one medication
+ */
+interface CheckContext {
+  medication: Medication;
+  /** The drug in the formulary, when it is one */
+  drug: FormularyDrug | undefined;
+  /** Canonical species, when known */
+  species: string | undefined;
+  breed: string;
+  /** The patient's other current medications in the formulary */
+  others: FormularyDrug[];
+  /** Medical history, complaint and symptoms, lowercased */
+  history: string;
+  /** Every detail of the medication, lowercased */
+  details: string;
+}
+
+/**
+ * A species or context in which a drug (or drug class) is risky; a rule
+ * without drugs applies to every medication
+ */
+interface ContraindicationRule {
+  drugs?: string[];
+  drugClass?: FormularyDrug["drugClass"];
+  species?: string;
+  severity: WarningSeverity;
+  /** The warning when the rule applies to the context, otherwise null */
+  check: (context: CheckContext) => string | null;
+}
+
+const CONTRAINDICATIONS: ContraindicationRule[] = [
+  {
+    drugs: ["Permethrin"],
+    species: "Cat",
+    severity: "danger",
+    check: () => "Permethrin is toxic to cats, even from dog spot-on products",
+  },
+  {
+    drugs: ["Acetaminophen"],
+    species: "Cat",
+    severity: "danger",
+    check: () => "Acetaminophen is toxic to cats at any dose",
+  },
+  {
+    drugs: ["Ibuprofen"],
+    severity: "danger",
+    check: () => "Ibuprofen causes GI ulceration and kidney injury in dogs and cats at low doses",
+  },
+  {
+    drugClass: "NSAID",
+    species: "Cat",
+    severity: "caution",
+    check: ({ drug }) =>
+      drug && !FELINE_NSAIDS.includes(drug.name)
+        ? `${drug.name} isn't licensed for cats, which clear NSAIDs slowly`
+        : null,
+  },
+  {
+    drugClass: "NSAID",
+    severity: "danger",
+    check: ({ others }) => {
+      const other = others.find((o) => o.drugClass === "NSAID");
+      return other ? `Given with ${other.name}: NSAIDs together risk GI ulceration` : null;
+    },
+  },
+  {
+    drugClass: "NSAID",
+    severity: "danger",
+    check: ({ others }) => {
+      const steroid = others.find((o) => o.drugClass === "corticosteroid");
+      return steroid
+        ? `Given with ${steroid.name}: NSAIDs with corticosteroids risk GI ulceration`
+        : null;
+    },
+  },
+  {
+    drugClass: "NSAID",
+    severity: "caution",
+    check: ({ history }) =>
+      mentions(history, KIDNEY_WORDS) ? "Kidney disease mentioned: NSAIDs can worsen it" : null,
+  },
+  {
+    drugClass: "NSAID",
+    severity: "caution",
+    check: ({ history }) =>
+      mentions(history, GI_BLEEDING_WORDS)
+        ? "GI bleeding or ulceration mentioned: NSAIDs can worsen it"
+        : null,
+  },
+  {
+    species: "Dog",
+    severity: "danger",
+    check: ({ details }) =>
+      details.includes("xylitol") ? "Contains xylitol, which is toxic to dogs" : null,
+  },
+  {
+    drugs: ["Gabapentin"],
+    species: "Dog",
+    severity: "caution",
+    check: ({ medication, details }) =>
+      mentions(details, LIQUID_WORDS) || parseStrength(medication.strength.value)?.per === "mL"
+        ? "Human gabapentin oral solutions can contain xylitol, which is toxic to dogs"
+        : null,
+  },
+  {
+    drugs: ["Ivermectin"],
+    species: "Dog",
+    severity: "caution",
+    check: ({ breed }) =>
+      mentions(breed, MDR1_BREEDS)
+        ? "Breed may carry the MDR1 mutation: ivermectin above heartworm-preventive doses can cause neurotoxicity"
+        : null,
+  },
+];
+
+function mentions(text: string, words: string[]): boolean {
+  return words.some((word) => text.includes(word));
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toPrecision(2)));
+}
+
+/**
+ * The dose in mg/kg from the dose, the product strength and the
+ * patient's weight; null when they don't say enough (e.g. "one tablet"
+ * without a strength)
+ */
+export function getDosePerKg(medication: Medication, weight: string): number | null {
+  const dose = isMentioned(medication.dose) ? parseDose(medication.dose.value) : null;
+  if (!dose) return null;
+  if (dose.unit === "mg/kg") return dose.value;
+
+  let mg = dose.value;
+  if (dose.unit !== "mg") {
+    const strength = isMentioned(medication.strength)
+      ? parseStrength(medication.strength.value)
+      : null;
+    if (!strength || strength.per !== dose.unit) return null;
+    mg = dose.value * strength.mg;
+  }
+
+  const kg = weight !== "Not mentioned" ? parseWeight(weight)?.kg : undefined;
+  return kg ? mg / kg : null;
+}
+
+function checkDoseRange(
+  drug: FormularyDrug,
+  species: string | undefined,
+  dosePerKg: number | null
+): MedicationWarning | null {
+  const range = species ? DOSE_RANGES[drug.name]?.[species] : undefined;
+  if (!range || dosePerKg === null) return null;
+
+  const usual = range.min === range.max
+    ? `${range.min} mg/kg`
+    : `${range.min}-${range.max} mg/kg`;
+  const dose = `${formatNumber(dosePerKg)} mg/kg`;
+  const forSpecies = `for a ${species!.toLowerCase()}`;
+  if (dosePerKg > range.max * (1 + RANGE_TOLERANCE)) {
+    return { severity: "danger", message: `${dose} is above the usual ${usual} ${forSpecies}` };
+  }
+  if (dosePerKg < range.min * (1 - RANGE_TOLERANCE)) {
+    return { severity: "caution", message: `${dose} is below the usual ${usual} ${forSpecies}` };
+  }
+  return null;
+}
+
+/**
+ * Check one of a patient's current medications: the dose against the
+ * usual mg/kg range for the species, and the drug against known
+ * contraindications for the species, breed, history and other
+ * medications. Only contraindications that don't name a drug apply to
+ * drugs outside the formulary.
+ */
+export function checkMedication(
+  medication: Medication,
+  patient: PatientReport
+): MedicationCheck {
+  const weight = patient.patient.weight.value;
+  const dosePerKg = getDosePerKg(medication, weight);
+  const drug = isMentioned(medication.name) ? resolveDrug(medication.name.value)?.drug : undefined;
+  const species = isMentioned(patient.patient.species)
+    ? resolveSpecies(patient.patient.species.value)?.name
+    : undefined;
+  const others = patient.currentMedications.value
+    .filter((other) => other !== medication && isMentioned(other.name))
+    .flatMap((other) => resolveDrug(other.name.value)?.drug ?? [])
+    .filter((other) => other.name !== drug?.name);
+  const context: CheckContext = {
+    medication,
+    drug,
+    species,
+    breed: patient.patient.breed.value.toLowerCase(),
+    others,
+    history: [
+      patient.medicalHistory.value,
+      patient.chiefComplaint.value,
+      ...patient.symptoms.value,
+    ].join(" ").toLowerCase(),
+    details: Object.values(medication)
+      .map((detail) => detail.value)
+      .join(" ")
+      .toLowerCase(),
+  };
+
+  const warnings = CONTRAINDICATIONS.filter(
+    (rule) =>
+      (!rule.drugs || (drug !== undefined && rule.drugs.includes(drug.name))) &&
+      (!rule.drugClass || rule.drugClass === drug?.drugClass) &&
+      (!rule.species || rule.species === species)
+  ).flatMap((rule) => {
+    const message = rule.check(context);
+    return message ? [{ severity: rule.severity, message }] : [];
+  });
+
+  const range = drug ? checkDoseRange(drug, species, dosePerKg) : null;
+  if (range) warnings.push(range);
+  return {
+    dosePerKg,
+    warnings: warnings.sort(
+      (a, b) => Number(b.severity === "danger") - Number(a.severity === "danger")
+    ),
+  };
+}
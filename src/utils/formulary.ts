@@ -0,0 +1,148 @@
+import type { FormularyDrug } from "../types/formulary";
+import type { Medication } from "../types/report";
+import type { TaxonomyMatchKind } from "../types/taxonomy";
+import {
+  applyNameMatch,
+  findNameMatch,
+  suggestNames,
+  toNameCandidates,
+} from "./nameMatching";
+import { isMentioned } from "./reportMerge";
+
+/**
+ * Drugs commonly seen in small animal practice, by generic name with
+ * brand names as aliases
+ */
+export const FORMULARY: FormularyDrug[] = [
+  // Pain and inflammation
+  { name: "Meloxicam", aliases: ["Metacam", "Loxicom"], drugClass: "NSAID" },
+  { name: "Carprofen", aliases: ["Rimadyl", "Carprieve"], drugClass: "NSAID" },
+  { name: "Robenacoxib", aliases: ["Onsior"], drugClass: "NSAID" },
+  { name: "Grapiprant", aliases: ["Galliprant"], drugClass: "NSAID" },
+  { name: "Firocoxib", aliases: ["Previcox"], drugClass: "NSAID" },
+  { name: "Aspirin", aliases: ["acetylsalicylic acid"], drugClass: "NSAID" },
+  { name: "Ibuprofen", aliases: ["Advil", "Motrin"], drugClass: "NSAID" },
+  { name: "Acetaminophen", aliases: ["paracetamol", "Tylenol"], drugClass: "analgesic" },
+  { name: "Gabapentin", aliases: ["Neurontin"], drugClass: "analgesic" },
+  { name: "Amantadine", aliases: [], drugClass: "analgesic" },
+  { name: "Tramadol", aliases: ["Ultram"], drugClass: "opioid" },
+  { name: "Buprenorphine", aliases: ["Buprenex", "Simbadol", "Vetergesic"], drugClass: "opioid" },
+  { name: "Methadone", aliases: [], drugClass: "opioid" },
+  // Antibiotics
+  { name: "Amoxicillin", aliases: ["amoxycillin"], drugClass: "antibiotic" },
+  {
+    name: "Amoxicillin-Clavulanate",
+    aliases: ["Clavamox", "Synulox", "Augmentin", "amox-clav"],
+    drugClass: "antibiotic",
+  },
+  { name: "Cephalexin", aliases: ["cefalexin", "Keflex", "Rilexine"], drugClass: "antibiotic" },
+  { name: "Cefovecin", aliases: ["Convenia"], drugClass: "antibiotic" },
+  { name: "Cefpodoxime", aliases: ["Simplicef"], drugClass: "antibiotic" },
+  { name: "Enrofloxacin", aliases: ["Baytril"], drugClass: "antibiotic" },
+  { name: "Marbofloxacin", aliases: ["Zeniquin", "Marbocyl"], drugClass: "antibiotic" },
+  { name: "Doxycycline", aliases: ["Ronaxan"], drugClass: "antibiotic" },
+  { name: "Metronidazole", aliases: ["Flagyl", "Metrobactin"], drugClass: "antibiotic" },
+  { name: "Clindamycin", aliases: ["Antirobe"], drugClass: "antibiotic" },
+  // Steroids, allergy and immune
+  { name: "Prednisolone", aliases: ["Prednidale"], drugClass: "corticosteroid" },
+  { name: "Prednisone", aliases: [], drugClass: "corticosteroid" },
+  { name: "Dexamethasone", aliases: [], drugClass: "corticosteroid" },
+  { name: "Oclacitinib", aliases: ["Apoquel"], drugClass: "immunomodulator" },
+  { name: "Lokivetmab", aliases: ["Cytopoint"], drugClass: "immunomodulator" },
+  { name: "Ciclosporin", aliases: ["cyclosporine", "Atopica"], drugClass: "immunomodulator" },
+  { name: "Diphenhydramine", aliases: ["Benadryl"], drugClass: "antihistamine" },
+  { name: "Cetirizine", aliases: ["Zyrtec"], drugClass: "antihistamine" },
+  // Gastrointestinal
+  { name: "Famotidine", aliases: ["Pepcid"], drugClass: "gastrointestinal" },
+  { name: "Omeprazole", aliases: ["Prilosec"], drugClass: "gastrointestinal" },
+  { name: "Sucralfate", aliases: ["Carafate"], drugClass: "gastrointestinal" },
+  { name: "Maropitant", aliases: ["Cerenia"], drugClass: "antiemetic" },
+  { name: "Ondansetron", aliases: ["Zofran"], drugClass: "antiemetic" },
+  { name: "Metoclopramide", aliases: ["Reglan"], drugClass: "antiemetic" },
+  // Cardiac and renal
+  { name: "Furosemide", aliases: ["frusemide", "Lasix", "Salix"], drugClass: "cardiac" },
+  { name: "Pimobendan", aliases: ["Vetmedin"], drugClass: "cardiac" },
+  { name: "Enalapril", aliases: ["Enacard"], drugClass: "cardiac" },
+  { name: "Benazepril", aliases: ["Fortekor"], drugClass: "cardiac" },
+  { name: "Amlodipine", aliases: ["Norvasc"], drugClass: "cardiac" },
+  { name: "Spironolactone", aliases: [], drugClass: "cardiac" },
+  // Endocrine
+  { name: "Methimazole", aliases: ["thiamazole", "Tapazole", "Felimazole"], drugClass: "endocrine" },
+  { name: "Levothyroxine", aliases: ["Soloxine", "Thyro-Tabs"], drugClass: "endocrine" },
+  { name: "Insulin", aliases: ["Vetsulin", "Caninsulin", "ProZinc", "glargine", "Lantus"], drugClass: "endocrine" },
+  { name: "Trilostane", aliases: ["Vetoryl"], drugClass: "endocrine" },
+  // Neurology and behaviour
+  { name: "Phenobarbital", aliases: ["phenobarbitone", "Epiphen"], drugClass: "anticonvulsant" },
+  { name: "Levetiracetam", aliases: ["Keppra"], drugClass: "anticonvulsant" },
+  { name: "Potassium Bromide", aliases: ["KBr"], drugClass: "anticonvulsant" },
+  { name: "Trazodone", aliases: [], drugClass: "behavioural" },
+  { name: "Fluoxetine", aliases: ["Reconcile", "Prozac"], drugClass: "behavioural" },
+  { name: "Clomipramine", aliases: ["Clomicalm"], drugClass: "behavioural" },
+  // Sedation and anaesthesia
+  { name: "Acepromazine", aliases: ["ACP", "ace"], drugClass: "sedative" },
+  { name: "Dexmedetomidine", aliases: ["Dexdomitor", "Sileo"], drugClass: "sedative" },
+  { name: "Ketamine", aliases: [], drugClass: "anaesthetic" },
+  { name: "Propofol", aliases: [], drugClass: "anaesthetic" },
+  // Parasite control
+  { name: "Selamectin", aliases: ["Revolution", "Stronghold"], drugClass: "parasiticide" },
+  { name: "Fluralaner", aliases: ["Bravecto"], drugClass: "parasiticide" },
+  { name: "Sarolaner", aliases: ["Simparica"], drugClass: "parasiticide" },
+  { name: "Afoxolaner", aliases: ["NexGard"], drugClass: "parasiticide" },
+  { name: "Ivermectin", aliases: ["Heartgard"], drugClass: "parasiticide" },
+  { name: "Milbemycin Oxime", aliases: ["milbemycin", "Interceptor", "Milbemax"], drugClass: "parasiticide" },
+  { name: "Praziquantel", aliases: ["Droncit"], drugClass: "parasiticide" },
+  { name: "Fenbendazole", aliases: ["Panacur"], drugClass: "parasiticide" },
+  { name: "Fipronil", aliases: ["Frontline"], drugClass: "parasiticide" },
+  { name: "Imidacloprid", aliases: ["Advantage"], drugClass: "parasiticide" },
+  { name: "Permethrin", aliases: ["Advantix", "K9 Advantix"], drugClass: "parasiticide" },
+];
+
+const DRUG_CANDIDATES = toNameCandidates(FORMULARY);
+
+// A strength or dose said with the name, e.g. "Metacam 1.5 mg/mL"
+const TRAILING_AMOUNT = /\s*\d.*$/;
+
+/**
+ * A free-text drug name matched to the formulary
+ */
+export interface FormularyMatch {
+  drug: FormularyDrug;
+  kind: TaxonomyMatchKind;
+}
+
+/**
+ * Formulary drug for a free-text name such as "Metacam" or "carprofin";
+ * null when it isn't in the formulary
+ */
+export function resolveDrug(text: string): FormularyMatch | null {
+  const match =
+    findNameMatch(text, DRUG_CANDIDATES) ??
+    findNameMatch(text.replace(TRAILING_AMOUNT, ""), DRUG_CANDIDATES);
+  return match && { drug: match.entry, kind: match.kind };
+}
+
+/**
+ * Generic names for an autocomplete; brand names find their drug too
+ */
+export function suggestDrugs(query: string, limit = 6): string[] {
+  return suggestNames(query, DRUG_CANDIDATES, limit);
+}
+
+/**
+ * Match an extracted medication's name to the formulary: the name
+ * becomes the generic name, and confidence drops for a misspelling or a
+ * drug that isn't in the formulary
+ */
+export function resolveMedication(medication: Medication): Medication {
+  const { name } = medication;
+  if (!isMentioned(name)) return medication;
+  const match = resolveDrug(name.value);
+  return {
+    ...medication,
+    name: applyNameMatch(
+      name,
+      match && { name: match.drug.name, kind: match.kind },
+      "Not in the formulary; check the name"
+    ),
+  };
+}
@@ -0,0 +1,164 @@
+import type { ConfidentField } from "../types/report";
+import { getConfidenceLevel } from "../types/report";
+import type { TaxonomyMatchKind } from "../types/taxonomy";
+import { similarity, toLetters } from "./vocabularyCorrection";
+
+// Names shorter than this (in letters) are only matched exactly
+const MIN_FUZZY_LENGTH = 5;
+// How alike a misspelling must be to the name it is corrected to
+const MIN_FUZZY_SIMILARITY = 0.8;
+// How alike a partly typed word must be to be suggested
+const MIN_SUGGESTION_SIMILARITY = 0.75;
+
+// Resolution adjusts confidence: misspellings are likely right but not
+// certain, and unknown values need the vet's eye
+const FUZZY_PENALTY = 0.9;
+const UNKNOWN_PENALTY = 0.8;
+
+/**
+ * An entry of a bundled name list (species, breeds, drugs)
+ */
+export interface NamedEntry {
+  name: string;
+  aliases: string[];
+}
+
+/**
+ * A canonical name or alias of an entry, as letters for matching
+ */
+export interface NameCandidate<T extends NamedEntry> {
+  entry: T;
+  letters: string;
+  kind: Exclude<TaxonomyMatchKind, "fuzzy">;
+}
+
+export interface NameMatch<T extends NamedEntry> {
+  entry: T;
+  kind: TaxonomyMatchKind;
+}
+
+export function toNameCandidates<T extends NamedEntry>(
+  entries: T[]
+): NameCandidate<T>[] {
+  return entries.flatMap((entry) => [
+    { entry, letters: toLetters(entry.name), kind: "exact" as const },
+    ...entry.aliases.map((alias) => ({
+      entry,
+      letters: toLetters(alias),
+      kind: "alias" as const,
+    })),
+  ]);
+}
+
+/**
+ * Match text to a name or alias: exactly first, then as a misspelling
+ */
+export function findNameMatch<T extends NamedEntry>(
+  text: string,
+  candidates: NameCandidate<T>[]
+): NameMatch<T> | null {
+  const letters = toLetters(text);
+  if (!letters) return null;
+
+  const direct = candidates.find((c) => c.letters === letters);
+  if (direct) return { entry: direct.entry, kind: direct.kind };
+  if (letters.length < MIN_FUZZY_LENGTH) return null;
+
+  let best: { candidate: NameCandidate<T>; score: number } | null = null;
+  for (const candidate of candidates) {
+    if (candidate.letters.length < MIN_FUZZY_LENGTH) continue;
+    const score = similarity(letters, candidate.letters);
+    if (score >= MIN_FUZZY_SIMILARITY && (!best || score > best.score)) {
+      best = { candidate, score };
+    }
+  }
+  return best ? { entry: best.candidate.entry, kind: "fuzzy" } : null;
+}
+
+/**
+ * Canonical names matching partly typed text, best first
+ */
+export function suggestNames<T extends NamedEntry>(
+  query: string,
+  candidates: NameCandidate<T>[],
+  limit: number
+): string[] {
+  const letters = toLetters(query);
+  if (!letters) {
+    return [...new Set(candidates.map((c) => c.entry.name))].slice(0, limit);
+  }
+
+  const scores = new Map<string, number>();
+  for (const candidate of candidates) {
+    let score: number;
+    if (candidate.letters.startsWith(letters)) {
+      score = 3;
+    } else if (candidate.letters.includes(letters)) {
+      score = 2;
+    } else if (letters.length >= 3) {
+      // Tolerate typos in what has been typed so far
+      const prefix = candidate.letters.slice(0, letters.length);
+      score = Math.max(
+        similarity(letters, prefix),
+        similarity(letters, candidate.letters)
+      );
+      if (score < MIN_SUGGESTION_SIMILARITY) continue;
+    } else {
+      continue;
+    }
+    const name = candidate.entry.name;
+    scores.set(name, Math.max(score, scores.get(name) ?? 0));
+  }
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([name]) => name);
+}
+
+/**
+ * A field with a new value and score, the note put before any existing one
+ */
+export function adjustConfidence(
+  field: ConfidentField<string>,
+  value: string,
+  score: number,
+  note: string | undefined
+): ConfidentField<string> {
+  const notes = [note, field.confidence.note].filter(Boolean);
+  return {
+    value,
+    confidence: {
+      ...field.confidence,
+      score,
+      level: getConfidenceLevel(score),
+      note: notes.length > 0 ? notes.join(". ") : undefined,
+    },
+  };
+}
+
+/**
+ * Replace a field's value with its canonical name, noting what was
+ * heard when it differs and lowering confidence for a misspelling or a
+ * name that isn't in the list
+ */
+export function applyNameMatch(
+  field: ConfidentField<string>,
+  match: { name: string; kind: TaxonomyMatchKind } | null,
+  unknownNote: string
+): ConfidentField<string> {
+  const { score } = field.confidence;
+  if (!match) {
+    return adjustConfidence(field, field.value, score * UNKNOWN_PENALTY, unknownNote);
+  }
+  if (match.kind === "exact") return { ...field, value: match.name };
+  if (match.kind === "alias") {
+    return adjustConfidence(field, match.name, score, `Standardized from "${field.value}"`);
+  }
+  return adjustConfidence(
+    field,
+    match.name,
+    score * FUZZY_PENALTY,
+    `Corrected from "${field.value}"`
+  );
+}
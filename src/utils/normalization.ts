@@ -0,0 +1,440 @@
+import type { DoseAmount, DrugStrength } from "../types/formulary";
+import type {
+  NormalizedAge,
+  NormalizedWeight,
+  WeightUnit,
+} from "../types/report";
+
+const KG_PER_LB = 0.45359237;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+  couple: 2,
+  few: 3,
+};
+
+// Words that make a spoken value an estimate
+const APPROXIMATE_WORDS = [
+  "about",
+  "around",
+  "approximately",
+  "approx",
+  "roughly",
+  "maybe",
+  "probably",
+  "almost",
+  "nearly",
+  "over",
+  "under",
+  "ish",
+  "few",
+  "couple",
+];
+
+// Unit words, with the size of each unit in kg (weight) or months (age)
+const WEIGHT_UNITS: Record<string, { unit: WeightUnit; kg: number }> = {
+  kg: { unit: "kg", kg: 1 },
+  kgs: { unit: "kg", kg: 1 },
+  kilo: { unit: "kg", kg: 1 },
+  kilos: { unit: "kg", kg: 1 },
+  kilogram: { unit: "kg", kg: 1 },
+  kilograms: { unit: "kg", kg: 1 },
+  g: { unit: "kg", kg: 0.001 },
+  gram: { unit: "kg", kg: 0.001 },
+  grams: { unit: "kg", kg: 0.001 },
+  lb: { unit: "lb", kg: KG_PER_LB },
+  lbs: { unit: "lb", kg: KG_PER_LB },
+  pound: { unit: "lb", kg: KG_PER_LB },
+  pounds: { unit: "lb", kg: KG_PER_LB },
+  oz: { unit: "lb", kg: KG_PER_LB / 16 },
+  ounce: { unit: "lb", kg: KG_PER_LB / 16 },
+  ounces: { unit: "lb", kg: KG_PER_LB / 16 },
+};
+
+const AGE_UNITS: Record<string, number> = {
+  y: 12,
+  yo: 12,
+  yr: 12,
+  yrs: 12,
+  year: 12,
+  years: 12,
+  mo: 1,
+  mos: 1,
+  month: 1,
+  months: 1,
+  wk: 12 / 52,
+  wks: 12 / 52,
+  week: 12 / 52,
+  weeks: 12 / 52,
+  d: 12 / 365,
+  day: 12 / 365,
+  days: 12 / 365,
+};
+
+// Dose and strength units, with the size of each in mg (amounts) or
+// in itself (volumes and tablets)
+const DOSE_UNITS: Record<string, { unit: DoseAmount["unit"]; size: number }> = {
+  mg: { unit: "mg", size: 1 },
+  mgs: { unit: "mg", size: 1 },
+  milligram: { unit: "mg", size: 1 },
+  milligrams: { unit: "mg", size: 1 },
+  mcg: { unit: "mg", size: 0.001 },
+  ug: { unit: "mg", size: 0.001 },
+  microgram: { unit: "mg", size: 0.001 },
+  micrograms: { unit: "mg", size: 0.001 },
+  g: { unit: "mg", size: 1000 },
+  gram: { unit: "mg", size: 1000 },
+  grams: { unit: "mg", size: 1000 },
+  ml: { unit: "mL", size: 1 },
+  mls: { unit: "mL", size: 1 },
+  cc: { unit: "mL", size: 1 },
+  milliliter: { unit: "mL", size: 1 },
+  milliliters: { unit: "mL", size: 1 },
+  millilitre: { unit: "mL", size: 1 },
+  millilitres: { unit: "mL", size: 1 },
+  tablet: { unit: "tablet", size: 1 },
+  tablets: { unit: "tablet", size: 1 },
+  tab: { unit: "tablet", size: 1 },
+  tabs: { unit: "tablet", size: 1 },
+  pill: { unit: "tablet", size: 1 },
+  pills: { unit: "tablet", size: 1 },
+  capsule: { unit: "tablet", size: 1 },
+  capsules: { unit: "tablet", size: 1 },
+  cap: { unit: "tablet", size: 1 },
+  caps: { unit: "tablet", size: 1 },
+  chew: { unit: "tablet", size: 1 },
+  chews: { unit: "tablet", size: 1 },
+};
+
+// Older than this is not an animal's age (e.g. a misheard year)
+const MAX_AGE_YEARS = 40;
+// A bare number from this year on is a birth year, e.g. "born in 2019"
+const MIN_BIRTH_YEAR = 1950;
+
+const RANGE_PATTERN = /(\d+(?:\.\d+)?)\s*(?:-|–|to|or)\s*(\d+(?:\.\d+)?)/g;
+
+/**
+ * A number found in text and the word after it (a possible unit)
+ */
+interface Quantity {
+  value: number;
+  unit: string | null;
+}
+
+/**
+ * Split text into number and word tokens; a spoken range such as
+ * "3-4" or "3 to 4" becomes its midpoint
+ */
+function tokenize(text: string): { tokens: string[]; isRange: boolean } {
+  let isRange = false;
+  const collapsed = text
+    .toLowerCase()
+    .replace(/½/g, ".5")
+    .replace(/¼/g, ".25")
+    .replace(/\b(\d+)\/(\d+)\b/g, (_, a: string, b: string) =>
+      String(Number(a) / Number(b))
+    )
+    .replace(/(\d),(\d{3})\b/g, "$1$2")
+    .replace(RANGE_PATTERN, (_, a: string, b: string) => {
+      isRange = true;
+      return String((Number(a) + Number(b)) / 2);
+    });
+  const tokens = collapsed.match(/\d+(?:[.,]\d+)?|[a-z]+/g) ?? [];
+  return { tokens, isRange };
+}
+
+/**
+ * Read a number (digits or words such as "seventy five" or "five and a
+ * half") starting at tokens[i]
+ */
+function readNumber(
+  tokens: string[],
+  i: number
+): { value: number; next: number } | null {
+  const token = tokens[i]!;
+  let value: number;
+  let next = i + 1;
+
+  const isArticle = token === "a" || token === "an";
+
+  if (/^\d/.test(token)) {
+    value = Number(token.replace(",", "."));
+  } else if (token === "half" || (isArticle && tokens[next] === "half")) {
+    // "half a kilo", "a half"
+    value = 0.5;
+    next = token === "half" ? next : next + 1;
+    if (tokens[next] === "a" || tokens[next] === "an") next++;
+  } else if (token in NUMBER_WORDS || (isArticle && tokens[next] === "hundred")) {
+    const tens = readTens(tokens, isArticle ? next : i);
+    value = isArticle ? 1 : tens.value;
+    next = isArticle ? next : tens.next;
+    // "a hundred and ten", "one hundred twenty"
+    if (tokens[next] === "hundred") {
+      value *= 100;
+      next++;
+      const at = tokens[next] === "and" ? next + 1 : next;
+      const rest = (tokens[at] ?? "") in NUMBER_WORDS ? readTens(tokens, at) : null;
+      if (rest) {
+        value += rest.value;
+        next = rest.next;
+      }
+    }
+    // "a couple of"
+    if (tokens[next] === "of") next++;
+  } else if (
+    (token === "a" || token === "an") &&
+    tokens[i + 1] !== undefined &&
+    (tokens[i + 1]! in WEIGHT_UNITS ||
+      tokens[i + 1]! in AGE_UNITS ||
+      tokens[i + 1]! in DOSE_UNITS)
+  ) {
+    // "a year", "an ounce", "a tablet"
+    value = 1;
+  } else {
+    return null;
+  }
+
+  const half = readAndAHalf(tokens, next);
+  return { value: value + half.value, next: half.next };
+}
+
+/**
+ * Read a number word below 100 such as "seventy five" at tokens[i]
+ */
+function readTens(tokens: string[], i: number): { value: number; next: number } {
+  const value = NUMBER_WORDS[tokens[i]!] ?? 0;
+  const following = NUMBER_WORDS[tokens[i + 1] ?? ""];
+  return value >= 20 && following !== undefined && following < 10
+    ? { value: value + following, next: i + 2 }
+    : { value, next: i + 1 };
+}
+
+/**
+ * Read "and a half" (or "and half") at tokens[i]; 0 when it isn't there
+ */
+function readAndAHalf(
+  tokens: string[],
+  i: number
+): { value: number; next: number } {
+  if (tokens[i] !== "and") return { value: 0, next: i };
+  if (tokens[i + 1] === "half") return { value: 0.5, next: i + 2 };
+  if (tokens[i + 1] === "a" && tokens[i + 2] === "half") {
+    return { value: 0.5, next: i + 3 };
+  }
+  return { value: 0, next: i };
+}
+
+/**
+ * Every number in the text with the unit word that follows it
+ */
+function readQuantities(tokens: string[], units: object): Quantity[] {
+  const quantities: Quantity[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const number = readNumber(tokens, i);
+    if (!number) {
+      i++;
+      continue;
+    }
+    const word = tokens[number.next];
+    const unit = word !== undefined && word in units ? word : null;
+    // "a year and a half" has the fraction after the unit
+    const half = unit
+      ? readAndAHalf(tokens, number.next + 1)
+      : { value: 0, next: number.next };
+    quantities.push({ value: number.value + half.value, unit });
+    i = half.next;
+  }
+  return quantities;
+}
+
+function isApproximate(tokens: string[], isRange: boolean): boolean {
+  return isRange || tokens.some((token) => APPROXIMATE_WORDS.includes(token));
+}
+
+/**
+ * Parse a spoken weight such as "about 75 pounds" or "12 lb 8 oz" into
+ * kilograms; null when no weight with a unit is found
+ */
+export function parseWeight(text: string): NormalizedWeight | null {
+  const { tokens, isRange } = tokenize(text);
+  const quantities = readQuantities(tokens, WEIGHT_UNITS).filter(
+    (q): q is Quantity & { unit: string } => q.unit !== null
+  );
+  const [first] = quantities;
+  if (!first) return null;
+
+  const kg = quantities.reduce(
+    (sum, q) => sum + q.value * WEIGHT_UNITS[q.unit]!.kg,
+    0
+  );
+  return {
+    kg,
+    unit: WEIGHT_UNITS[first.unit]!.unit,
+    approximate: isApproximate(tokens, isRange),
+    original: text,
+  };
+}
+
+/**
+ * Parse a spoken age such as "five and a half" or "2 years 3 months"
+ * into months. A number without a unit is taken as years, or as a birth
+ * year when it is one ("born in 2019"). Null for ages no animal reaches.
+ */
+export function parseAge(text: string, today = new Date()): NormalizedAge | null {
+  const { tokens, isRange } = tokenize(text);
+  const quantities = readQuantities(tokens, AGE_UNITS);
+  const withUnit = quantities.filter(
+    (q): q is Quantity & { unit: string } => q.unit !== null
+  );
+
+  let months: number;
+  let approximate = isApproximate(tokens, isRange);
+  const [only] = quantities;
+  if (
+    withUnit.length === 0 &&
+    only &&
+    quantities.length === 1 &&
+    Number.isInteger(only.value) &&
+    only.value >= MIN_BIRTH_YEAR &&
+    only.value <= today.getFullYear()
+  ) {
+    // The birth month is unknown
+    months = (today.getFullYear() - only.value) * 12;
+    approximate = true;
+  } else if (withUnit.length > 0) {
+    months = withUnit.reduce(
+      (sum, q) => sum + q.value * AGE_UNITS[q.unit]!,
+      0
+    );
+  } else if (quantities.length === 1) {
+    months = quantities[0]!.value * 12;
+  } else {
+    return null;
+  }
+  if (months > MAX_AGE_YEARS * 12) return null;
+  return {
+    months: Math.round(months * 10) / 10,
+    approximate,
+    original: text,
+  };
+}
+
+/**
+ * The first amount with a dose unit, in mg for amounts; next is the
+ * token after the unit
+ */
+function readDoseAmount(
+  tokens: string[]
+): { value: number; unit: DoseAmount["unit"]; next: number } | null {
+  let i = 0;
+  while (i < tokens.length) {
+    const number = readNumber(tokens, i);
+    if (!number) {
+      i++;
+      continue;
+    }
+    const unit = DOSE_UNITS[tokens[number.next] ?? ""];
+    if (unit) {
+      return {
+        value: number.value * unit.size,
+        unit: unit.unit,
+        next: number.next + 1,
+      };
+    }
+    i = number.next;
+  }
+  return null;
+}
+
+/**
+ * Parse a spoken dose such as "half a tablet", "0.5 mL" or "0.1 mg/kg";
+ * null when no amount with a unit is found
+ */
+export function parseDose(text: string): DoseAmount | null {
+  const { tokens } = tokenize(text);
+  const amount = readDoseAmount(tokens);
+  if (!amount) return null;
+
+  // "0.1 mg/kg", "0.1 mg per kg"
+  const per = tokens[amount.next] === "per" ? amount.next + 1 : amount.next;
+  const perKg = amount.unit === "mg" && WEIGHT_UNITS[tokens[per] ?? ""]?.kg === 1;
+  return { value: amount.value, unit: perKg ? "mg/kg" : amount.unit };
+}
+
+/**
+ * Parse a product strength such as "75 mg tablets" or "250 mg/5 mL";
+ * a strength without a volume is per tablet
+ */
+export function parseStrength(text: string): DrugStrength | null {
+  const { tokens } = tokenize(text);
+  const amount = readDoseAmount(tokens);
+  if (!amount || amount.unit !== "mg") return null;
+
+  // "50 mg/mL", "50 mg per mL", "250 mg in 5 mL"
+  const rest = tokens.slice(amount.next, amount.next + 3);
+  const mL = rest.findIndex((token) => DOSE_UNITS[token]?.unit === "mL");
+  if (mL < 0) return { mg: amount.value, per: "tablet" };
+  const volume = Number(rest[mL - 1]);
+  return { mg: amount.value / (volume > 0 ? volume : 1), per: "mL" };
+}
+
+/**
+ * A weight in kilograms expressed in the given unit
+ */
+export function convertWeight(kg: number, unit: WeightUnit): number {
+  return unit === "kg" ? kg : kg / KG_PER_LB;
+}
+
+/**
+ * Display text for a weight in the clinic's unit, e.g. "~ 34.0 kg"
+ */
+export function formatWeight(
+  weight: NormalizedWeight,
+  unit: WeightUnit
+): string {
+  const value = convertWeight(weight.kg, unit).toFixed(1);
+  return `${weight.approximate ? "~ " : ""}${value} ${unit}`;
+}
+
+/**
+ * Display text for an age, e.g. "5 y 6 mo", "8 mo" or "3 wk"
+ */
+export function formatAge(age: NormalizedAge): string {
+  const prefix = age.approximate ? "~ " : "";
+  const totalMonths = Math.round(age.months);
+  if (age.months < 2) {
+    return `${prefix}${Math.round((age.months * 52) / 12)} wk`;
+  }
+  if (totalMonths < 24) return `${prefix}${totalMonths} mo`;
+  const years = Math.floor(totalMonths / 12);
+  const months = totalMonths % 12;
+  return `${prefix}${years} y${months > 0 ? ` ${months} mo` : ""}`;
+}
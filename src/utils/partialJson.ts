@@ -0,0 +1,95 @@
+/**
+ * Best-effort parsing of JSON that is still being streamed.
+ *
+ * Closes any open string, array and object so the prefix received so far
+ * can be parsed. When the text ends mid-token (a key without a value, a
+ * half-written number or literal), it backs off to the last point where
+ * a value was complete.
+ */
+
+interface CutPoint {
+  /** Text up to (not including) this index forms a closable prefix */
+  index: number;
+  /** Closing brackets needed at that point, innermost first */
+  closers: string;
+}
+
+function closersFor(stack: string[]): string {
+  return stack
+    .map((open) => (open === "{" ? "}" : "]"))
+    .reverse()
+    .join("");
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the longest usable prefix of a streamed JSON document.
+ * Returns undefined when nothing parseable has arrived yet.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start < 0) return undefined;
+  const json = text.slice(start);
+
+  const stack: string[] = [];
+  const cutPoints: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      stack.push(char);
+      // An empty container is always closable
+      cutPoints.push({ index: i + 1, closers: closersFor(stack) });
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+      if (stack.length === 0) {
+        // The document is complete
+        return tryParse(json.slice(0, i + 1));
+      }
+      cutPoints.push({ index: i + 1, closers: closersFor(stack) });
+    } else if (char === ",") {
+      // Everything before a comma is a complete member or element
+      cutPoints.push({ index: i, closers: closersFor(stack) });
+    }
+  }
+
+  // Optimistic: close an open string value and all containers
+  let tail = json;
+  if (inString) {
+    // Drop a dangling escape so the closing quote isn't escaped
+    tail = (escaped ? tail.slice(0, -1) : tail) + '"';
+  }
+  const optimistic = tryParse(tail + closersFor(stack));
+  if (optimistic !== undefined) return optimistic;
+
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const cut = cutPoints[i]!;
+    const parsed = tryParse(json.slice(0, cut.index) + cut.closers);
+    if (parsed !== undefined) return parsed;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,278 @@
+/**
+ * Local redaction of owner identifiers before a transcript is sent to an
+ * LLM. Owner and family names, phone numbers and emails are replaced by
+ * placeholders such as [NAME_1], [PHONE_1] and [EMAIL_1]; the map back to
+ * the real values only ever lives in memory and is used to restore them
+ * in the AI's answer.
+ */
+
+import type { Participant, ParticipantRole } from "../types/transcript";
+import {
+  DEFAULT_PARTICIPANTS,
+  ROLE_LABELS,
+  formatTranscriptForAnalysis,
+} from "../types/transcript";
+import { getMockTranscript } from "./mockTranscript";
+
+/** Placeholder → original value */
+export type RedactionMap = Record<string, string>;
+
+export interface RedactedTranscript {
+  transcript: string;
+  /** Participants with owner/family names replaced */
+  participants: Participant[];
+  map: RedactionMap;
+}
+
+type PlaceholderKind = "NAME" | "PHONE" | "EMAIL";
+
+// Roles whose names identify the owner's household
+const OWNER_ROLES: ParticipantRole[] = ["owner", "family"];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// 555-123-4567, (555) 123 4567, +1 555.123.4567, 555-1234
+const PHONE_PATTERN =
+  /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])?\b\d{3}[\s.-]\d{4}\b/g;
+
+// "my name is Sarah", "call me Mrs. Johnson"
+const INTRODUCTION_PATTERN =
+  /\b(?:[Mm]y name is|[Mm]y name's|[Cc]all me)\s+((?:(?:Mr|Mrs|Ms|Miss|Dr)\.?\s+)?[A-Z][a-z'’-]+(?:\s+[A-Z][a-z'’-]+)?)/g;
+
+// "I'm" precedes far more than names, so it only counts with a full name
+// or a title: "I'm Sarah Johnson", "I am Mrs. Johnson"
+const SELF_INTRODUCTION_PATTERN =
+  /\b(?:I'm|I am)\s+((?:Mr|Mrs|Ms|Miss|Dr)\.?\s+[A-Z][a-z'’-]+|[A-Z][a-z'’-]+\s+[A-Z][a-z'’-]+)/g;
+
+// Capitalized words that follow an introduction without being a name
+const NOT_NAMES = new Set(
+  (
+    "monday tuesday wednesday thursday friday saturday sunday january " +
+    "february march april may june july august september october " +
+    "november december today tomorrow tonight later back anytime not so " +
+    "just really very sorry sure fine okay here the his her their your " +
+    "doctor vet owner"
+  ).split(" ")
+);
+
+// Lines spoken by the owner's household, e.g. "[4] OWNER (Sarah): ..."
+const OWNER_LINE_PATTERN = /^(?:\[\d+\]\s*)?(?:OWNER|FAMILY MEMBER)\b/;
+
+const PLACEHOLDER_PATTERN = /\[(?:NAME|PHONE|EMAIL)_\d+\]/g;
+
+const TITLE_PATTERN = /^(?:Mr|Mrs|Ms|Miss|Dr)\.?\s+/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+interface PlaceholderRegistry {
+  map: RedactionMap;
+  placeholderFor: (kind: PlaceholderKind, value: string) => string;
+}
+
+/**
+ * Hands out one placeholder per distinct value
+ */
+function createPlaceholderRegistry(): PlaceholderRegistry {
+  const map: RedactionMap = {};
+  const byValue = new Map<string, string>();
+  const counts: Record<PlaceholderKind, number> = {
+    NAME: 0,
+    PHONE: 0,
+    EMAIL: 0,
+  };
+
+  return {
+    map,
+    placeholderFor: (kind, value) => {
+      const key = `${kind}:${value.toLowerCase()}`;
+      const existing = byValue.get(key);
+      if (existing) return existing;
+
+      const placeholder = `[${kind}_${++counts[kind]}]`;
+      byValue.set(key, placeholder);
+      map[placeholder] = value;
+      return placeholder;
+    },
+  };
+}
+
+/**
+ * Owner/family names from the participant list and from introductions
+ * in their own lines, with the full name before its parts
+ */
+function isLikelyName(candidate: string): boolean {
+  return candidate
+    .split(/\s+/)
+    .every(
+      (word) =>
+        !NOT_NAMES.has(word.toLowerCase()) &&
+        // "I'm Buddy's Dad" names the pet, not the owner
+        !/['’]s$/.test(word)
+    );
+}
+
+function collectOwnerNames(
+  transcript: string,
+  participants: Participant[]
+): string[] {
+  const names = new Set<string>();
+
+  for (const participant of participants) {
+    const name = participant.name.trim();
+    // Default names such as "Owner" are role labels, not identifiers
+    if (
+      OWNER_ROLES.includes(participant.role) &&
+      name &&
+      name.toUpperCase() !== ROLE_LABELS[participant.role].toUpperCase()
+    ) {
+      names.add(name);
+    }
+  }
+
+  for (const line of transcript.split("\n")) {
+    if (!OWNER_LINE_PATTERN.test(line)) continue;
+    const matches = [
+      ...line.matchAll(INTRODUCTION_PATTERN),
+      ...line.matchAll(SELF_INTRODUCTION_PATTERN),
+    ];
+    for (const match of matches) {
+      const name = match[1]?.replace(TITLE_PATTERN, "");
+      if (name && isLikelyName(name)) names.add(name);
+    }
+  }
+
+  // Also catch "Sarah" or "Mrs. Johnson" on their own
+  const parts = [...names].flatMap((name) =>
+    name.split(/\s+/).filter((part) => part.length >= 3)
+  );
+  return [...new Set([...names, ...parts])].sort(
+    (a, b) => b.length - a.length
+  );
+}
+
+function replaceNames(
+  text: string,
+  names: string[],
+  registry: PlaceholderRegistry
+): string {
+  return names.reduce(
+    (result, name) =>
+      result.replace(
+        new RegExp(`\\b${escapeRegExp(name)}\\b`, "gi"),
+        (match) => registry.placeholderFor("NAME", match)
+      ),
+    text
+  );
+}
+
+/**
+ * Replace owner identifiers in a formatted transcript (and in the
+ * participant names sent with it) with placeholders
+ */
+export function redactTranscript(
+  transcript: string,
+  participants: Participant[]
+): RedactedTranscript {
+  const registry = createPlaceholderRegistry();
+  const names = collectOwnerNames(transcript, participants);
+
+  const redact = (text: string) =>
+    replaceNames(
+      text
+        .replace(EMAIL_PATTERN, (email) =>
+          registry.placeholderFor("EMAIL", email)
+        )
+        .replace(PHONE_PATTERN, (phone) =>
+          registry.placeholderFor("PHONE", phone.trim())
+        ),
+      names,
+      registry
+    );
+
+  return {
+    transcript: redact(transcript),
+    participants: participants.map((p) =>
+      OWNER_ROLES.includes(p.role) ? { ...p, name: redact(p.name) } : p
+    ),
+    map: registry.map,
+  };
+}
+
+/**
+ * Apply a string transform to every string inside a value
+ */
+function mapStrings<T>(value: T, transform: (text: string) => string): T {
+  if (typeof value === "string") return transform(value) as T;
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => mapStrings(item, transform)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        mapStrings(item, transform),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Replace values already in the map with their placeholders, e.g. a
+ * report value that is sent back to the model
+ */
+export function redactKnownValues<T>(value: T, map: RedactionMap): T {
+  const entries = Object.entries(map).sort(
+    ([, a], [, b]) => b.length - a.length
+  );
+  return mapStrings(value, (text) =>
+    entries.reduce(
+      (result, [placeholder, original]) =>
+        result.split(original).join(placeholder),
+      text
+    )
+  );
+}
+
+/**
+ * Restore the original values for every placeholder in a value
+ * (strings inside objects and arrays included)
+ */
+export function rehydrate<T>(value: T, map: RedactionMap): T {
+  return mapStrings(value, (text) =>
+    text.replace(
+      PLACEHOLDER_PATTERN,
+      (placeholder) => map[placeholder] ?? placeholder
+    )
+  );
+}
+
+/**
+ * Redact the mock transcript (owner Sarah Johnson, patient Buddy) and
+ * return what went wrong: leaked owner names, a redacted patient name,
+ * or a rehydration that doesn't restore the original
+ */
+export function checkRedaction(): string[] {
+  const transcript = formatTranscriptForAnalysis(
+    getMockTranscript(),
+    DEFAULT_PARTICIPANTS,
+    true
+  );
+  const redacted = redactTranscript(transcript, DEFAULT_PARTICIPANTS);
+  const problems: string[] = [];
+
+  for (const name of ["Sarah", "Johnson"]) {
+    if (new RegExp(`\\b${name}\\b`, "i").test(redacted.transcript)) {
+      problems.push(`Owner name "${name}" was not redacted`);
+    }
+  }
+  if (!redacted.transcript.includes("Buddy")) {
+    problems.push('Patient name "Buddy" was redacted');
+  }
+  if (rehydrate(redacted.transcript, redacted.map) !== transcript) {
+    problems.push("Rehydrating the redacted transcript changed it");
+  }
+  return problems;
+}
@@ -0,0 +1,492 @@
+import type {
+  ConfidentField,
+  FieldEvidence,
+  IntakeReport,
+  Medication,
+} from "../types/report";
+import { MEDICATION_FIELDS, getConfidenceLevel } from "../types/report";
+import {
+  OWNER_FIELDS,
+  PATIENT_FIELDS,
+  getReportField,
+  setReportField,
+  patientFieldPath,
+} from "./reportSchema";
+
+/**
+ * How values for a field from different parts of a conversation combine
+ * - fact: one true value; differing statements are flagged as a conflict
+ * - narrative: the best-supported description wins
+ * - combine: every distinct description is kept, in order (windows
+ *   overlap, so sentences already stated in an earlier part are dropped)
+ * - union: list items from every part, without duplicates
+ * - highest: the most serious value wins (ratings change as the visit
+ *   goes on, so differing values are noted but not a conflict)
+ */
+type MergeStrategy = "fact" | "narrative" | "combine" | "union" | "highest";
+
+// Owner fields and patient fields (relative to the patient)
+const MERGE_STRATEGIES: Record<string, MergeStrategy> = {
+  "patient.name": "fact",
+  "patient.species": "fact",
+  "patient.breed": "fact",
+  "patient.age": "fact",
+  "patient.weight": "fact",
+  "patient.sex": "fact",
+  "owner.name": "fact",
+  "owner.phone": "fact",
+  "owner.email": "fact",
+  chiefComplaint: "narrative",
+  symptoms: "union",
+  duration: "fact",
+  severity: "highest",
+  medicalHistory: "combine",
+  currentMedications: "union",
+  allergies: "union",
+  // Vitals are re-taken during a visit; keep the best-supported reading
+  "vitalSigns.temperature": "narrative",
+  "vitalSigns.heartRate": "narrative",
+  "vitalSigns.respiratoryRate": "narrative",
+  "vitalSigns.mucousMembranes": "narrative",
+  "vitalSigns.capillaryRefillTime": "narrative",
+  "vitalSigns.bodyConditionScore": "narrative",
+  "vitalSigns.other": "combine",
+  assessment: "narrative",
+  differentials: "narrative",
+  recommendedActions: "union",
+  urgencyLevel: "highest",
+  notes: "combine",
+};
+
+// Order used by "highest" for enum values
+const SEVERITY_ORDER = ["mild", "moderate", "severe", "critical"];
+
+// Conflicting statements lower the confidence of the chosen value
+const CONFLICT_PENALTY = 0.6;
+
+const NOT_MENTIONED = ["not mentioned", "not recorded", "none", ""];
+
+// Share of the shorter sentence's words found in the other for two
+// sentences to count as the same fact
+const NEAR_DUPLICATE_OVERLAP = 0.8;
+// Shorter sentences are only duplicates when identical
+const MIN_OVERLAP_WORDS = 3;
+
+const NEGATION_PATTERN = /\b(?:no|not|never|none|without|denies|denied)\b|n't\b/;
+
+/**
+ * Whether a field holds information (not a "Not mentioned" placeholder)
+ */
+export function isMentioned(field: ConfidentField<unknown>): boolean {
+  const { value } = field;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") {
+    return !NOT_MENTIONED.includes(value.trim().toLowerCase());
+  }
+  return value !== undefined && value !== null;
+}
+
+function normalizeText(value: unknown): string {
+  return String(value)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?]+$/, "");
+}
+
+function sentenceWords(sentence: string): Set<string> {
+  return new Set(
+    normalizeText(sentence)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0)
+  );
+}
+
+/**
+ * Whether two sentences state the same fact, e.g. "Ear infection 6 months
+ * ago" and "Had an ear infection about 6 months ago". A negation on one
+ * side only ("is vaccinated" / "is not vaccinated") is never a duplicate.
+ */
+function isNearDuplicate(a: string, b: string): boolean {
+  const wordsA = sentenceWords(a);
+  const wordsB = sentenceWords(b);
+  if ([...wordsA].join(" ") === [...wordsB].join(" ")) return true;
+
+  const isNegated = (sentence: string) =>
+    NEGATION_PATTERN.test(sentence.toLowerCase());
+  if (isNegated(a) !== isNegated(b)) return false;
+
+  const shorter = Math.min(wordsA.size, wordsB.size);
+  if (shorter < MIN_OVERLAP_WORDS) return false;
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / shorter >= NEAR_DUPLICATE_OVERLAP;
+}
+
+/**
+ * Join descriptions from several parts, leaving out sentences that an
+ * earlier part already gave (the more detailed wording is kept)
+ */
+function combineDescriptions(texts: string[]): string {
+  const kept: string[][] = [];
+  for (const text of texts) {
+    const sentences: string[] = [];
+    for (const sentence of text.split(/(?<=[.!?;])\s+/)) {
+      const trimmed = sentence.trim();
+      if (!trimmed) continue;
+
+      let isDuplicate = false;
+      for (const part of [...kept, sentences]) {
+        const i = part.findIndex((existing) =>
+          isNearDuplicate(existing, trimmed)
+        );
+        if (i === -1) continue;
+        isDuplicate = true;
+        if (trimmed.length > part[i]!.length) part[i] = trimmed;
+        break;
+      }
+      if (!isDuplicate) sentences.push(trimmed);
+    }
+    if (sentences.length > 0) kept.push(sentences);
+  }
+  let combined = "";
+  for (const part of kept.map((sentences) => sentences.join(" "))) {
+    // Parts that already end a sentence need no separator
+    const separator = !combined ? "" : /[.!?;]$/.test(combined) ? " " : "; ";
+    combined += separator + part;
+  }
+  return combined;
+}
+
+function rank(value: unknown): number {
+  return typeof value === "number"
+    ? value
+    : SEVERITY_ORDER.indexOf(String(value));
+}
+
+function mergeEvidence(fields: ConfidentField<unknown>[]): FieldEvidence[] {
+  const seen = new Set<string>();
+  const merged: FieldEvidence[] = [];
+  for (const item of fields.flatMap((f) => f.confidence.evidence ?? [])) {
+    const key = `${item.segmentIndex}:${item.quote}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(item);
+  }
+  return merged.sort((a, b) => a.segmentIndex - b.segmentIndex);
+}
+
+function withConfidence<T>(
+  value: T,
+  score: number,
+  note: string | undefined,
+  sources: ConfidentField<unknown>[]
+): ConfidentField<T> {
+  return {
+    value,
+    confidence: {
+      score,
+      level: getConfidenceLevel(score),
+      note,
+      evidence: mergeEvidence(sources),
+    },
+  };
+}
+
+function isMedication(item: unknown): item is Medication {
+  return typeof item === "object" && item !== null && "name" in item;
+}
+
+/**
+ * What identifies a list item across parts: its text, or a medication's
+ * drug name
+ */
+function listItemKey(item: unknown): string {
+  return normalizeText(isMedication(item) ? item.name.value : item);
+}
+
+/**
+ * Combine two entries for the same list item. Details of a medication
+ * may be given in different parts of the visit, so each detail keeps
+ * its best-supported value.
+ */
+function mergeListItem(first: unknown, next: unknown): unknown {
+  if (!isMedication(first) || !isMedication(next)) return first;
+  return Object.fromEntries(
+    MEDICATION_FIELDS.map(({ key }) => [
+      key,
+      mergeField("narrative", [first[key], next[key]]).field,
+    ])
+  );
+}
+
+/**
+ * Where a value was said, for conflict notes, e.g. "segments 3, 7"
+ */
+function describeSource(field: ConfidentField<unknown>): string {
+  const segments = [
+    ...new Set((field.confidence.evidence ?? []).map((e) => e.segmentIndex)),
+  ];
+  if (segments.length === 0) return "";
+  return ` (segment${segments.length === 1 ? "" : "s"} ${segments.join(", ")})`;
+}
+
+/**
+ * The value with the best support; later parts win ties, since people
+ * correct themselves as a conversation goes on
+ */
+function pickBest(fields: ConfidentField<unknown>[]): ConfidentField<unknown> {
+  return fields.reduce((best, field) =>
+    field.confidence.score >= best.confidence.score ? field : best
+  );
+}
+
+interface MergedField {
+  field: ConfidentField<unknown>;
+  conflict: boolean;
+}
+
+function mergeField(
+  strategy: MergeStrategy,
+  fields: ConfidentField<unknown>[]
+): MergedField {
+  const mentioned = fields.filter(isMentioned);
+  // Nothing found in any part: keep the placeholder from the last one
+  if (mentioned.length === 0) {
+    return { field: fields[fields.length - 1]!, conflict: false };
+  }
+
+  const minScore = Math.min(...mentioned.map((f) => f.confidence.score));
+
+  switch (strategy) {
+    case "union": {
+      const items = new Map<string, unknown>();
+      for (const field of mentioned) {
+        for (const item of field.value as unknown[]) {
+          const key = listItemKey(item);
+          const existing = items.get(key);
+          items.set(key, existing === undefined ? item : mergeListItem(existing, item));
+        }
+      }
+      return {
+        field: withConfidence(
+          [...items.values()],
+          minScore,
+          undefined,
+          mentioned
+        ),
+        conflict: false,
+      };
+    }
+
+    case "combine": {
+      const notes = mentioned
+        .map((f) => f.confidence.note)
+        .filter((note): note is string => !!note);
+      return {
+        field: withConfidence(
+          combineDescriptions(mentioned.map((f) => String(f.value).trim())),
+          minScore,
+          notes.length > 0 ? [...new Set(notes)].join(" ") : undefined,
+          mentioned
+        ),
+        conflict: false,
+      };
+    }
+
+    case "narrative": {
+      const best = pickBest(mentioned);
+      return {
+        field: withConfidence(
+          best.value,
+          best.confidence.score,
+          best.confidence.note,
+          [best]
+        ),
+        conflict: false,
+      };
+    }
+
+    case "fact":
+    case "highest": {
+      const byValue = new Map<string, ConfidentField<unknown>[]>();
+      for (const field of mentioned) {
+        const key = normalizeText(field.value);
+        byValue.set(key, [...(byValue.get(key) ?? []), field]);
+      }
+
+      const candidates = [...byValue.values()].map((group) => pickBest(group));
+      const chosen =
+        strategy === "highest"
+          ? candidates.reduce((top, field) =>
+              rank(field.value) > rank(top.value) ? field : top
+            )
+          : pickBest(candidates);
+      const agreeing = byValue.get(normalizeText(chosen.value)) ?? [chosen];
+
+      if (strategy === "highest" && candidates.length > 1) {
+        const ratings = candidates.map((f) => String(f.value)).join(", ");
+        const note = `Rated ${ratings} in different parts of the visit; the highest is kept`;
+        return {
+          field: withConfidence(
+            chosen.value,
+            chosen.confidence.score,
+            chosen.confidence.note ? `${note}. ${chosen.confidence.note}` : note,
+            agreeing
+          ),
+          conflict: false,
+        };
+      }
+
+      if (candidates.length === 1) {
+        return {
+          field: withConfidence(
+            chosen.value,
+            Math.max(...agreeing.map((f) => f.confidence.score)),
+            chosen.confidence.note,
+            agreeing
+          ),
+          conflict: false,
+        };
+      }
+
+      const statements = candidates
+        .map((f) => `"${String(f.value)}"${describeSource(f)}`)
+        .join(" vs ");
+      const conflictNote = `Conflicting statements: ${statements}`;
+      return {
+        field: withConfidence(
+          chosen.value,
+          chosen.confidence.score * CONFLICT_PENALTY,
+          chosen.confidence.note
+            ? `${conflictNote}. ${chosen.confidence.note}`
+            : conflictNote,
+          agreeing
+        ),
+        conflict: true,
+      };
+    }
+  }
+}
+
+export interface MergedReport {
+  report: IntakeReport;
+  /** Fields with conflicting statements across parts */
+  conflictingFields: string[];
+  /**
+   * Where each input report's patients ended up: patientIndex[r][p] is
+   * the merged index of patient p of report r
+   */
+  patientIndex: number[][];
+}
+
+/** A patient of one input report */
+interface PatientSource {
+  report: number;
+  patient: number;
+}
+
+/**
+ * Match the patients of each part to the same pet in other parts: by
+ * name when one is known, otherwise by position
+ */
+function groupPatients(reports: IntakeReport[]): {
+  groups: PatientSource[][];
+  patientIndex: number[][];
+} {
+  const groups: PatientSource[][] = [];
+  const groupNames: (string | null)[] = [];
+
+  const patientIndex = reports.map((report, r) => {
+    // Two pets of one part are never the same pet
+    const used = new Set<number>();
+    const isFree = (group: number) => group >= 0 && !used.has(group);
+
+    return report.patients.map((patient, p) => {
+      const name = isMentioned(patient.patient.name)
+        ? normalizeText(patient.patient.name.value)
+        : null;
+
+      let group = name ? groupNames.indexOf(name) : -1;
+      // An unnamed pet (or a name not seen yet) joins the pet in the
+      // same position if that one has no other name
+      if (!isFree(group) && p < groups.length && isFree(p)) {
+        const positional = groupNames[p];
+        if (!name || positional === null) group = p;
+      }
+      if (!isFree(group) && !name) {
+        group = groups.findIndex((_, i) => isFree(i));
+      }
+      if (!isFree(group)) {
+        group = groups.length;
+        groups.push([]);
+        groupNames.push(null);
+      }
+
+      used.add(group);
+      groups[group]!.push({ report: r, patient: p });
+      groupNames[group] ??= name;
+      return group;
+    });
+  });
+
+  return { groups, patientIndex };
+}
+
+/**
+ * Merge reports extracted from consecutive parts of one conversation.
+ * Patients are matched across parts, confidence is reconciled per
+ * field, and conflicting statements are noted on the field with a
+ * lowered score.
+ */
+export function mergeReports(reports: IntakeReport[]): MergedReport {
+  const [first] = reports;
+  if (!first) throw new Error("mergeReports needs at least one report");
+
+  const { groups, patientIndex } = groupPatients(reports);
+  let report: IntakeReport = {
+    owner: first.owner,
+    patients: groups.map(
+      ([source]) => reports[source!.report]!.patients[source!.patient]!
+    ),
+  };
+  const conflictingFields: string[] = [];
+
+  const mergeInto = (
+    path: string,
+    strategy: MergeStrategy,
+    fields: (ConfidentField<unknown> | undefined)[]
+  ) => {
+    const present = fields.filter(
+      (field): field is ConfidentField<unknown> => !!field
+    );
+    if (present.length === 0) return;
+    const merged = mergeField(strategy, present);
+    report = setReportField(report, path, merged.field);
+    if (merged.conflict) conflictingFields.push(path);
+  };
+
+  for (const { path } of OWNER_FIELDS) {
+    mergeInto(
+      path,
+      MERGE_STRATEGIES[path] ?? "narrative",
+      reports.map((partial) => getReportField(partial, path))
+    );
+  }
+  groups.forEach((sources, index) => {
+    for (const { path } of PATIENT_FIELDS) {
+      mergeInto(
+        patientFieldPath(index, path),
+        MERGE_STRATEGIES[path] ?? "narrative",
+        sources.map((source) =>
+          getReportField(
+            reports[source.report]!,
+            patientFieldPath(source.patient, path)
+          )
+        )
+      );
+    }
+  });
+
+  return { report, conflictingFields, patientIndex };
+}
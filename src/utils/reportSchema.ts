@@ -0,0 +1,594 @@
+import type {
+  ConfidentField,
+  IntakeReport,
+  PatientReport,
+} from "../types/report";
+import { MEDICATION_FIELDS, getPatientLabel } from "../types/report";
+import { MUCOUS_MEMBRANE_COLOURS, VITAL_SIGN_UNITS } from "./vitalSigns";
+
+/**
+ * Value type of a report field as the model must return it
+ * - text: a string
+ * - list: an array of strings ("Not mentioned"/"None"/"" also accepted)
+ * - enum: one of a fixed set of strings
+ * - integer: a whole number within a range
+ * - measurement: { value, unit } with one of the given units ("Not
+ *   mentioned" also accepted)
+ * - differentials: a list of DifferentialDiagnosis objects
+ * - medications: a list of Medication objects, each detail wrapped as
+ *   { value, confidence }
+ */
+export type ReportFieldType =
+  | { kind: "text" }
+  | { kind: "list" }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "integer"; min: number; max: number }
+  | { kind: "measurement"; units: readonly string[] }
+  | { kind: "differentials" }
+  | { kind: "medications" };
+
+export interface ReportFieldSchema {
+  /**
+   * Dotted path in the raw report, e.g. "owner.name" or
+   * "patients.0.patient.name" (relative, "patient.name", in PATIENT_FIELDS)
+   */
+  path: string;
+  /** Human-readable name shown to the vet */
+  label: string;
+  type: ReportFieldType;
+  /** The model may leave the field out of a full report */
+  optional?: boolean;
+}
+
+/**
+ * A problem found while validating a raw model response
+ */
+export interface SchemaIssue {
+  /** Path of the report field the issue belongs to ("" for the response as a whole) */
+  field: string;
+  message: string;
+}
+
+// Strings the model uses for empty lists (normalized to [] later)
+const EMPTY_LIST_SENTINELS = ["Not mentioned", "None", ""];
+
+export const DIFFERENTIAL_LIKELIHOODS = ["high", "moderate", "low"] as const;
+
+// List properties of each raw differential
+const DIFFERENTIAL_LISTS = [
+  "supportingFindings",
+  "contradictingFindings",
+  "suggestedDiagnostics",
+];
+
+/**
+ * Owner fields of the raw IntakeReport, shared by every pet.
+ * Each is wrapped as { value, confidence: { score, note? } }.
+ */
+export const OWNER_FIELDS: ReportFieldSchema[] = [
+  { path: "owner.name", label: "Owner name", type: { kind: "text" } },
+  { path: "owner.phone", label: "Owner phone", type: { kind: "text" } },
+  { path: "owner.email", label: "Owner email", type: { kind: "text" } },
+];
+
+/**
+ * Fields of each entry in the raw report's "patients" list, relative to
+ * that entry
+ */
+export const PATIENT_FIELDS: ReportFieldSchema[] = [
+  { path: "patient.name", label: "Patient name", type: { kind: "text" } },
+  { path: "patient.species", label: "Species", type: { kind: "text" } },
+  { path: "patient.breed", label: "Breed", type: { kind: "text" } },
+  { path: "patient.age", label: "Age", type: { kind: "text" } },
+  { path: "patient.weight", label: "Weight", type: { kind: "text" } },
+  { path: "patient.sex", label: "Sex", type: { kind: "text" } },
+  { path: "chiefComplaint", label: "Chief complaint", type: { kind: "text" } },
+  { path: "symptoms", label: "Symptoms", type: { kind: "list" } },
+  { path: "duration", label: "Duration", type: { kind: "text" } },
+  {
+    path: "severity",
+    label: "Severity",
+    type: { kind: "enum", values: ["mild", "moderate", "severe", "critical"] },
+  },
+  { path: "medicalHistory", label: "Medical history", type: { kind: "text" } },
+  {
+    path: "currentMedications",
+    label: "Current medications",
+    type: { kind: "medications" },
+  },
+  { path: "allergies", label: "Allergies", type: { kind: "list" } },
+  {
+    path: "vitalSigns.temperature",
+    label: "Temperature",
+    type: { kind: "measurement", units: VITAL_SIGN_UNITS.temperature },
+  },
+  {
+    path: "vitalSigns.heartRate",
+    label: "Heart rate",
+    type: { kind: "measurement", units: VITAL_SIGN_UNITS.heartRate },
+  },
+  {
+    path: "vitalSigns.respiratoryRate",
+    label: "Respiratory rate",
+    type: { kind: "measurement", units: VITAL_SIGN_UNITS.respiratoryRate },
+  },
+  {
+    path: "vitalSigns.mucousMembranes",
+    label: "Mucous membranes",
+    type: {
+      kind: "enum",
+      values: [...MUCOUS_MEMBRANE_COLOURS, "Not mentioned"],
+    },
+  },
+  {
+    path: "vitalSigns.capillaryRefillTime",
+    label: "Capillary refill time",
+    type: { kind: "measurement", units: VITAL_SIGN_UNITS.capillaryRefillTime },
+  },
+  {
+    path: "vitalSigns.bodyConditionScore",
+    label: "Body condition score",
+    type: { kind: "measurement", units: VITAL_SIGN_UNITS.bodyConditionScore },
+  },
+  { path: "vitalSigns.other", label: "Other vitals", type: { kind: "text" } },
+  { path: "assessment", label: "Assessment", type: { kind: "text" } },
+  {
+    path: "differentials",
+    label: "Differential diagnoses",
+    type: { kind: "differentials" },
+    optional: true,
+  },
+  {
+    path: "recommendedActions",
+    label: "Recommended actions",
+    type: { kind: "list" },
+  },
+  {
+    path: "urgencyLevel",
+    label: "Urgency level",
+    type: { kind: "integer", min: 1, max: 5 },
+  },
+  { path: "notes", label: "Notes", type: { kind: "text" } },
+];
+
+/**
+ * Sections of the raw SOAP note (see generateSoapNote)
+ */
+export const SOAP_FIELDS: ReportFieldSchema[] = [
+  { path: "subjective", label: "Subjective", type: { kind: "text" } },
+  { path: "objective", label: "Objective", type: { kind: "text" } },
+  { path: "assessment", label: "Assessment", type: { kind: "text" } },
+  { path: "plan", label: "Plan", type: { kind: "text" } },
+];
+
+const PATIENT_PATH_PATTERN = /^patients\.(\d+)\.(.+)$/;
+
+/**
+ * Full path of a patient field, e.g. ("symptoms", 1) → "patients.1.symptoms"
+ */
+export function patientFieldPath(index: number, path: string): string {
+  return `patients.${index}.${path}`;
+}
+
+/**
+ * Split a full path into the patient index and the relative field path
+ * (null for owner fields)
+ */
+export function parsePatientFieldPath(
+  path: string
+): { index: number; field: string } | null {
+  const match = PATIENT_PATH_PATTERN.exec(path);
+  return match ? { index: Number(match[1]), field: match[2]! } : null;
+}
+
+/**
+ * Every field of a report with the given number of patients, by full path
+ */
+export function listReportFields(patientCount: number): ReportFieldSchema[] {
+  const patientFields = Array.from({ length: patientCount }, (_, i) =>
+    PATIENT_FIELDS.map((f) => ({ ...f, path: patientFieldPath(i, f.path) }))
+  );
+  return [...OWNER_FIELDS, ...patientFields.flat()];
+}
+
+/**
+ * Schema entry for a full report field path
+ */
+export function getReportFieldSchema(
+  path: string
+): ReportFieldSchema | undefined {
+  const patientPath = parsePatientFieldPath(path);
+  if (!patientPath) return OWNER_FIELDS.find((f) => f.path === path);
+  const schema = PATIENT_FIELDS.find((f) => f.path === patientPath.field);
+  return schema && { ...schema, path };
+}
+
+/**
+ * Human-readable label for a report field path; with several patients
+ * the pet is named too, e.g. "Symptoms (Luna)"
+ */
+export function getReportFieldLabel(
+  path: string,
+  patients?: PatientReport[]
+): string {
+  const label = getReportFieldSchema(path)?.label ?? path;
+  const patientPath = parsePatientFieldPath(path);
+  if (!patientPath || !patients || patients.length < 2) return label;
+  const patient = patients[patientPath.index];
+  return patient
+    ? `${label} (${getPatientLabel(patient, patientPath.index)})`
+    : label;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  return typeof value === "number" ? "a number" : `a ${typeof value}`;
+}
+
+function getAtPath(obj: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((node, key) => {
+    if (Array.isArray(node)) return node[Number(key)];
+    return isRecord(node) ? node[key] : undefined;
+  }, obj);
+}
+
+function isStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Check a list of differentials; returns an error message or null
+ */
+function checkDifferentials(value: unknown): string | null {
+  if (typeof value === "string" && EMPTY_LIST_SENTINELS.includes(value)) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return `expected a list of differentials, got ${describe(value)}`;
+  }
+  for (const [i, item] of value.entries()) {
+    if (!isRecord(item) || typeof item.condition !== "string") {
+      return `item ${i}: expected an object with a "condition" string`;
+    }
+    if (
+      !DIFFERENTIAL_LIKELIHOODS.includes(
+        item.likelihood as (typeof DIFFERENTIAL_LIKELIHOODS)[number]
+      )
+    ) {
+      return `item ${i}.likelihood: expected one of ${DIFFERENTIAL_LIKELIHOODS.map((v) => `"${v}"`).join(", ")}, got ${JSON.stringify(item.likelihood)}`;
+    }
+    const badList = DIFFERENTIAL_LISTS.find((key) => !isStringList(item[key]));
+    if (badList) {
+      return `item ${i}.${badList}: expected a list of strings`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a list of medications; returns an error message or null. Only
+ * the drug name is required; other details may be left out.
+ */
+function checkMedications(value: unknown): string | null {
+  if (typeof value === "string" && EMPTY_LIST_SENTINELS.includes(value)) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return `expected a list of medications, got ${describe(value)}`;
+  }
+  for (const [i, item] of value.entries()) {
+    if (!isRecord(item)) {
+      return `item ${i}: expected an object with ${MEDICATION_FIELDS.map(({ key }) => `"${key}"`).join(", ")}`;
+    }
+    for (const { key } of MEDICATION_FIELDS) {
+      const detail = item[key];
+      if (detail === undefined && key !== "name") continue;
+      if (
+        !isRecord(detail) ||
+        typeof detail.value !== "string" ||
+        !isRecord(detail.confidence) ||
+        typeof detail.confidence.score !== "number"
+      ) {
+        return `item ${i}.${key}: expected { "value": "<text>", "confidence": { "score": <number> } }`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a field value against its type; returns an error message or null
+ */
+function checkValue(value: unknown, type: ReportFieldType): string | null {
+  switch (type.kind) {
+    case "text":
+      return typeof value === "string"
+        ? null
+        : `expected a string, got ${describe(value)}`;
+    case "list":
+      if (typeof value === "string" && EMPTY_LIST_SENTINELS.includes(value)) {
+        return null;
+      }
+      if (!Array.isArray(value)) {
+        return `expected a list of strings, got ${describe(value)}`;
+      }
+      return isStringList(value)
+        ? null
+        : "expected every list item to be a string";
+    case "enum":
+      return typeof value === "string" && type.values.includes(value)
+        ? null
+        : `expected one of ${type.values.map((v) => `"${v}"`).join(", ")}, got ${JSON.stringify(value)}`;
+    case "integer":
+      return typeof value === "number" &&
+        Number.isInteger(value) &&
+        value >= type.min &&
+        value <= type.max
+        ? null
+        : `expected a whole number from ${type.min} to ${type.max}, got ${JSON.stringify(value)}`;
+    case "measurement":
+      if (value === "Not mentioned" || value === null) return null;
+      if (!isRecord(value)) {
+        return `expected { "value": <number>, "unit": "<unit>" } or "Not mentioned", got ${describe(value)}`;
+      }
+      if (typeof value.value !== "number" || !Number.isFinite(value.value)) {
+        return `expected "value" to be a number, got ${JSON.stringify(value.value)}`;
+      }
+      return typeof value.unit === "string" && type.units.includes(value.unit)
+        ? null
+        : `expected "unit" to be one of ${type.units.map((u) => `"${u}"`).join(", ")}, got ${JSON.stringify(value.unit)}`;
+    case "differentials":
+      return checkDifferentials(value);
+    case "medications":
+      return checkMedications(value);
+  }
+}
+
+function isValidEvidence(evidence: unknown): boolean {
+  return (
+    Array.isArray(evidence) &&
+    evidence.every(
+      (item) =>
+        isRecord(item) &&
+        typeof item.segment === "number" &&
+        Number.isInteger(item.segment) &&
+        item.segment >= 0 &&
+        typeof item.quote === "string"
+    )
+  );
+}
+
+/**
+ * Validate one raw { value, confidence } field; returns its issues
+ */
+function checkField(
+  path: string,
+  type: ReportFieldType,
+  field: unknown,
+  optional = false
+): SchemaIssue[] {
+  if (field === undefined) {
+    return optional ? [] : [{ field: path, message: `${path}: missing` }];
+  }
+  if (!isRecord(field) || !("value" in field) || !isRecord(field.confidence)) {
+    return [
+      {
+        field: path,
+        message: `${path}: expected an object with "value" and "confidence"`,
+      },
+    ];
+  }
+
+  const issues: SchemaIssue[] = [];
+  const valueError = checkValue(field.value, type);
+  if (valueError) {
+    issues.push({ field: path, message: `${path}.value: ${valueError}` });
+  }
+
+  const { score, note } = field.confidence;
+  if (typeof score !== "number" || score < 0 || score > 1) {
+    issues.push({
+      field: path,
+      message: `${path}.confidence.score: expected a number from 0.0 to 1.0, got ${JSON.stringify(score)}`,
+    });
+  }
+  if (note !== undefined && note !== null && typeof note !== "string") {
+    issues.push({
+      field: path,
+      message: `${path}.confidence.note: expected a string or null, got ${describe(note)}`,
+    });
+  }
+
+  const { evidence } = field.confidence;
+  if (evidence !== undefined && !isValidEvidence(evidence)) {
+    issues.push({
+      field: path,
+      message: `${path}.confidence.evidence: expected a list of { "segment": <number>, "quote": "<text>" }`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Number of patients in a raw response (at least one, so an empty or
+ * missing list still reports the first pet's fields as missing)
+ */
+export function countRawPatients(raw: unknown): number {
+  const patients = isRecord(raw) ? raw.patients : undefined;
+  return Array.isArray(patients) ? Math.max(1, patients.length) : 1;
+}
+
+/**
+ * Strictly validate a raw model response against the report schema.
+ * Returns every issue found (empty when the response is valid).
+ */
+export function validateRawReport(raw: unknown): SchemaIssue[] {
+  if (!isRecord(raw)) {
+    return [{ field: "", message: "the response must be a JSON object" }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (!Array.isArray(raw.patients) || raw.patients.length === 0) {
+    issues.push({
+      field: "",
+      message: "patients: expected a list with one entry per pet",
+    });
+  }
+
+  return [
+    ...issues,
+    ...listReportFields(countRawPatients(raw)).flatMap(
+      ({ path, type, optional }) =>
+        checkField(path, type, getAtPath(raw, path), optional)
+    ),
+  ];
+}
+
+/**
+ * Strictly validate a raw SOAP note response
+ */
+export function validateRawSoapNote(raw: unknown): SchemaIssue[] {
+  if (!isRecord(raw)) {
+    return [{ field: "", message: "the response must be a JSON object" }];
+  }
+  return SOAP_FIELDS.flatMap(({ path, type }) =>
+    checkField(path, type, raw[path])
+  );
+}
+
+/**
+ * Validate a single raw field returned on its own (see extractReportField)
+ */
+export function validateRawField(path: string, raw: unknown): SchemaIssue[] {
+  const schema = getReportFieldSchema(path);
+  if (!schema) {
+    return [{ field: path, message: `${path}: unknown report field` }];
+  }
+  return checkField(path, schema.type, raw);
+}
+
+/**
+ * Paths of known fields in the order they appear in a raw object;
+ * groups such as "patient" or "owner" are one level deep
+ */
+function listKeysInOrder(
+  raw: Record<string, unknown>,
+  known: Set<string>,
+  prefix = ""
+): string[] {
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (known.has(key)) {
+      paths.push(prefix + key);
+    } else if (isRecord(value)) {
+      for (const child of Object.keys(value)) {
+        if (known.has(`${key}.${child}`)) {
+          paths.push(`${prefix}${key}.${child}`);
+        }
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Paths of report fields in the order they appear in a raw response
+ */
+function listFieldsInOrder(raw: Record<string, unknown>): string[] {
+  const ownerFields = new Set(OWNER_FIELDS.map((f) => f.path));
+  const patientFields = new Set(PATIENT_FIELDS.map((f) => f.path));
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (key === "patients" && Array.isArray(value)) {
+      value.forEach((patient, i) => {
+        if (isRecord(patient)) {
+          paths.push(
+            ...listKeysInOrder(patient, patientFields, patientFieldPath(i, ""))
+          );
+        }
+      });
+    } else {
+      paths.push(...listKeysInOrder({ [key]: value }, ownerFields));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Fields of a partially streamed response that are finished and valid.
+ * The last field received may still be incomplete, so it never counts.
+ */
+export function getStreamedFields(partial: unknown): string[] {
+  if (!isRecord(partial)) return [];
+  const received = listFieldsInOrder(partial).slice(0, -1);
+  const invalid = new Set(validateRawReport(partial).map((i) => i.field));
+  return received.filter((path) => !invalid.has(path));
+}
+
+/**
+ * Copy of a raw response with the given fields removed, so they fall
+ * back to defaults instead of carrying invalid values into the report
+ */
+export function removeFields(
+  raw: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  const copy = JSON.parse(JSON.stringify(raw)) as Record<string, unknown>;
+  for (const path of paths) {
+    const keys = path.split(".");
+    const last = keys.pop();
+    const parent = keys.length > 0 ? getAtPath(copy, keys.join(".")) : copy;
+    if (last && isRecord(parent)) {
+      delete parent[last];
+    }
+  }
+  return copy;
+}
+
+/**
+ * Read a field of a normalized report by path
+ */
+export function getReportField(
+  report: IntakeReport,
+  path: string
+): ConfidentField<unknown> | undefined {
+  const field = getAtPath(report, path);
+  return isRecord(field)
+    ? (field as unknown as ConfidentField<unknown>)
+    : undefined;
+}
+
+/**
+ * Copy of a node with the value at keys replaced; containers on the way
+ * are copied, and a missing container leaves the node unchanged
+ */
+function setAtPath(node: unknown, keys: string[], value: unknown): unknown {
+  const [key, ...rest] = keys;
+  if (key === undefined) return value;
+  if (Array.isArray(node)) {
+    const index = Number(key);
+    if (!(index in node)) return node;
+    const copy = [...node];
+    copy[index] = setAtPath(node[index], rest, value);
+    return copy;
+  }
+  if (!isRecord(node) || (rest.length > 0 && !(key in node))) return node;
+  return { ...node, [key]: setAtPath(node[key], rest, value) };
+}
+
+/**
+ * Return a copy of the report with one field replaced
+ */
+export function setReportField(
+  report: IntakeReport,
+  path: string,
+  field: ConfidentField<unknown>
+): IntakeReport {
+  return setAtPath(report, path.split("."), field) as IntakeReport;
+}
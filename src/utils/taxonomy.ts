@@ -0,0 +1,238 @@
+import type { PatientInfo } from "../types/report";
+import { getConfidenceLevel } from "../types/report";
+import type {
+  BreedEntry,
+  SpeciesEntry,
+  TaxonomyMatch,
+} from "../types/taxonomy";
+import type { NameMatch } from "./nameMatching";
+import {
+  adjustConfidence,
+  applyNameMatch,
+  findNameMatch,
+  suggestNames,
+  toNameCandidates,
+} from "./nameMatching";
+import { isMentioned } from "./reportMerge";
+import { toLetters } from "./vocabularyCorrection";
+
+/**
+ * Species the app knows; aliases are matched ignoring case and spacing
+ */
+export const SPECIES: SpeciesEntry[] = [
+  { name: "Dog", aliases: ["canine", "puppy", "pup", "doggy", "doggo"] },
+  { name: "Cat", aliases: ["feline", "kitten", "kitty", "domestic cat"] },
+  { name: "Rabbit", aliases: ["bunny", "lapine"] },
+  {
+    name: "Horse",
+    aliases: ["equine", "pony", "foal", "mare", "gelding", "stallion", "colt", "filly"],
+  },
+  { name: "Guinea Pig", aliases: ["cavy", "guinea"] },
+  { name: "Ferret", aliases: [] },
+  { name: "Hamster", aliases: [] },
+  { name: "Rat", aliases: [] },
+  { name: "Mouse", aliases: ["mice"] },
+  { name: "Chinchilla", aliases: [] },
+  { name: "Budgerigar", aliases: ["budgie", "parakeet"] },
+  { name: "Cockatiel", aliases: [] },
+  { name: "Parrot", aliases: ["African grey", "macaw", "amazon parrot"] },
+  { name: "Chicken", aliases: ["hen", "rooster", "chick", "poultry"] },
+  { name: "Bearded Dragon", aliases: ["beardie"] },
+  { name: "Leopard Gecko", aliases: ["gecko"] },
+  { name: "Tortoise", aliases: [] },
+  { name: "Snake", aliases: ["python", "ball python", "corn snake"] },
+  { name: "Goat", aliases: ["caprine"] },
+  { name: "Sheep", aliases: ["ovine", "ewe"] },
+  { name: "Cattle", aliases: ["cow", "bovine", "calf", "heifer"] },
+  { name: "Pig", aliases: ["porcine", "piglet", "sow", "boar", "hog"] },
+];
+
+/**
+ * Common breeds per species with their nicknames and abbreviations
+ */
+export const BREEDS: BreedEntry[] = [
+  // Dogs
+  { name: "Mixed Breed", species: "Dog", aliases: ["mixed", "mix", "mutt", "mongrel", "crossbreed"] },
+  { name: "Labrador Retriever", species: "Dog", aliases: ["lab", "labrador", "lab retriever"] },
+  { name: "Golden Retriever", species: "Dog", aliases: ["golden", "goldie", "GR"] },
+  { name: "German Shepherd", species: "Dog", aliases: ["GSD", "German Shepherd Dog", "Alsatian"] },
+  { name: "French Bulldog", species: "Dog", aliases: ["frenchie", "French bully"] },
+  { name: "Bulldog", species: "Dog", aliases: ["English Bulldog", "British Bulldog"] },
+  { name: "Poodle", species: "Dog", aliases: ["standard poodle", "toy poodle", "miniature poodle", "mini poodle"] },
+  { name: "Beagle", species: "Dog", aliases: [] },
+  { name: "Rottweiler", species: "Dog", aliases: ["rottie", "rotty", "rott"] },
+  { name: "Dachshund", species: "Dog", aliases: ["doxie", "sausage dog", "wiener dog"] },
+  { name: "Yorkshire Terrier", species: "Dog", aliases: ["yorkie"] },
+  { name: "Boxer", species: "Dog", aliases: [] },
+  { name: "Cavalier King Charles Spaniel", species: "Dog", aliases: ["cavalier", "CKCS", "King Charles"] },
+  { name: "Cocker Spaniel", species: "Dog", aliases: ["cocker"] },
+  { name: "Shih Tzu", species: "Dog", aliases: [] },
+  { name: "Chihuahua", species: "Dog", aliases: ["chi"] },
+  { name: "Pomeranian", species: "Dog", aliases: ["pom"] },
+  { name: "Border Collie", species: "Dog", aliases: ["collie"] },
+  { name: "Australian Shepherd", species: "Dog", aliases: ["aussie", "aussie shepherd"] },
+  { name: "Siberian Husky", species: "Dog", aliases: ["husky"] },
+  { name: "Great Dane", species: "Dog", aliases: ["dane"] },
+  { name: "Doberman Pinscher", species: "Dog", aliases: ["doberman", "dobie", "dobermann"] },
+  { name: "Miniature Schnauzer", species: "Dog", aliases: ["schnauzer", "mini schnauzer"] },
+  { name: "Pembroke Welsh Corgi", species: "Dog", aliases: ["corgi", "welsh corgi"] },
+  { name: "Bernese Mountain Dog", species: "Dog", aliases: ["berner", "bernese"] },
+  { name: "Boston Terrier", species: "Dog", aliases: [] },
+  { name: "Havanese", species: "Dog", aliases: [] },
+  { name: "Maltese", species: "Dog", aliases: [] },
+  { name: "Pug", species: "Dog", aliases: [] },
+  { name: "Weimaraner", species: "Dog", aliases: ["weim"] },
+  { name: "Vizsla", species: "Dog", aliases: [] },
+  { name: "Bichon Frise", species: "Dog", aliases: ["bichon"] },
+  { name: "Whippet", species: "Dog", aliases: [] },
+  { name: "Greyhound", species: "Dog", aliases: [] },
+  { name: "Labradoodle", species: "Dog", aliases: [] },
+  { name: "Goldendoodle", species: "Dog", aliases: ["groodle"] },
+  { name: "Jack Russell Terrier", species: "Dog", aliases: ["Jack Russell", "JRT"] },
+  { name: "Staffordshire Bull Terrier", species: "Dog", aliases: ["staffy", "staffie", "SBT"] },
+  { name: "American Pit Bull Terrier", species: "Dog", aliases: ["pit bull", "pittie", "APBT"] },
+  // Cats
+  {
+    name: "Domestic Shorthair",
+    species: "Cat",
+    aliases: ["DSH", "domestic short hair", "moggy", "moggie", "mixed breed", "mixed", "mix"],
+  },
+  { name: "Domestic Medium Hair", species: "Cat", aliases: ["DMH"] },
+  { name: "Domestic Longhair", species: "Cat", aliases: ["DLH", "domestic long hair"] },
+  { name: "Maine Coon", species: "Cat", aliases: ["coon cat"] },
+  { name: "Ragdoll", species: "Cat", aliases: [] },
+  { name: "Siamese", species: "Cat", aliases: [] },
+  { name: "Persian", species: "Cat", aliases: [] },
+  { name: "Bengal", species: "Cat", aliases: [] },
+  { name: "Sphynx", species: "Cat", aliases: ["sphinx"] },
+  { name: "British Shorthair", species: "Cat", aliases: ["BSH", "British blue"] },
+  { name: "Abyssinian", species: "Cat", aliases: ["aby"] },
+  { name: "Scottish Fold", species: "Cat", aliases: [] },
+  { name: "Devon Rex", species: "Cat", aliases: [] },
+  { name: "Russian Blue", species: "Cat", aliases: [] },
+  // Rabbits
+  { name: "Holland Lop", species: "Rabbit", aliases: [] },
+  { name: "Netherland Dwarf", species: "Rabbit", aliases: [] },
+  { name: "Lionhead", species: "Rabbit", aliases: [] },
+  { name: "Mini Rex", species: "Rabbit", aliases: [] },
+  // Horses
+  { name: "Thoroughbred", species: "Horse", aliases: ["TB"] },
+  { name: "Quarter Horse", species: "Horse", aliases: ["QH", "American Quarter Horse"] },
+  { name: "Arabian", species: "Horse", aliases: ["Arab"] },
+  { name: "Warmblood", species: "Horse", aliases: [] },
+];
+
+// Trailing words that mark a cross of the named breed, e.g. "Lab mix"
+const MIX_SUFFIX = /^(.+?)[\s-]+(?:mix|mixed|cross|x)$/i;
+
+// A breed of another species than the one recorded needs the vet's eye
+const MISMATCH_PENALTY = 0.6;
+const INFERRED_SPECIES_SCORE = 0.6;
+
+const SPECIES_CANDIDATES = toNameCandidates(SPECIES);
+const BREED_CANDIDATES = toNameCandidates(BREEDS);
+
+function toTaxonomyMatch(
+  match: NameMatch<SpeciesEntry | BreedEntry> | null
+): TaxonomyMatch | null {
+  if (!match) return null;
+  const { entry, kind } = match;
+  return { name: entry.name, kind, ...("species" in entry && { species: entry.species }) };
+}
+
+/**
+ * Canonical species for free text such as "canine" or "domestic cat";
+ * null when it isn't in the taxonomy
+ */
+export function resolveSpecies(text: string): TaxonomyMatch | null {
+  const match = findNameMatch(text, SPECIES_CANDIDATES);
+  if (match) return toTaxonomyMatch(match);
+
+  // A species word inside a longer phrase, e.g. "male neutered canine";
+  // names win over aliases
+  const words = new Set(text.split(/[^\p{L}]+/u).map(toLetters));
+  const candidate =
+    SPECIES_CANDIDATES.find((c) => c.kind === "exact" && words.has(c.letters)) ??
+    SPECIES_CANDIDATES.find((c) => words.has(c.letters));
+  return candidate ? { name: candidate.entry.name, kind: "alias" } : null;
+}
+
+/**
+ * Canonical breed for free text such as "golden" or "Lab mix"; breeds
+ * of the given species are preferred. Null when it isn't in the taxonomy.
+ */
+export function resolveBreed(text: string, species?: string): TaxonomyMatch | null {
+  const sameSpecies = species
+    ? BREED_CANDIDATES.filter((c) => c.entry.species === species)
+    : [];
+  const match =
+    (sameSpecies.length > 0 ? findNameMatch(text, sameSpecies) : null) ??
+    findNameMatch(text, BREED_CANDIDATES);
+  if (match) return toTaxonomyMatch(match);
+
+  const mix = MIX_SUFFIX.exec(text.trim());
+  if (!mix) return null;
+  const base = resolveBreed(mix[1]!, species);
+  return base ? { ...base, name: `${base.name} mix` } : null;
+}
+
+/**
+ * Species names for an autocomplete, e.g. "fel" → ["Cat"]
+ */
+export function suggestSpecies(query: string, limit = 6): string[] {
+  return suggestNames(query, SPECIES_CANDIDATES, limit);
+}
+
+/**
+ * Breed names for an autocomplete, limited to the species when known
+ */
+export function suggestBreeds(query: string, species?: string, limit = 6): string[] {
+  const resolved = species ? resolveSpecies(species)?.name : undefined;
+  const candidates = resolved
+    ? BREED_CANDIDATES.filter((c) => c.entry.species === resolved)
+    : BREED_CANDIDATES;
+  return suggestNames(query, candidates.length > 0 ? candidates : BREED_CANDIDATES, limit);
+}
+
+/**
+ * Resolve an extracted species and breed against the taxonomy: values
+ * become canonical names, confidence drops for misspellings, unknown
+ * values and a breed of another species, and a missing species is
+ * inferred from a known breed
+ */
+export function resolveSignalment(patient: PatientInfo): PatientInfo {
+  let species = patient.species;
+  let breed = patient.breed;
+
+  const speciesMatch = isMentioned(species) ? resolveSpecies(species.value) : null;
+  if (isMentioned(species)) {
+    species = applyNameMatch(species, speciesMatch, "Not a species in the taxonomy; check it");
+  }
+
+  if (isMentioned(breed)) {
+    const breedMatch = resolveBreed(breed.value, speciesMatch?.name);
+    breed = applyNameMatch(breed, breedMatch, "Not a known breed; check the spelling");
+
+    if (breedMatch?.species && speciesMatch && breedMatch.species !== speciesMatch.name) {
+      breed = adjustConfidence(
+        breed,
+        breed.value,
+        breed.confidence.score * MISMATCH_PENALTY,
+        `${breedMatch.name} is a ${breedMatch.species} breed, but the species is ${speciesMatch.name}`
+      );
+    } else if (breedMatch?.species && !isMentioned(species)) {
+      const score = Math.min(breed.confidence.score, INFERRED_SPECIES_SCORE);
+      species = {
+        value: breedMatch.species,
+        confidence: {
+          score,
+          level: getConfidenceLevel(score),
+          note: `Inferred from the breed (${breedMatch.name})`,
+          evidence: breed.confidence.evidence,
+        },
+      };
+    }
+  }
+
+  return { ...patient, species, breed };
+}
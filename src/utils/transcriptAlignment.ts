@@ -0,0 +1,73 @@
+import type {
+  RecordingPause,
+  Speaker,
+  TranscriptSegment,
+} from "../types/transcript";
+import { findActiveSegment, getAbsoluteTimestamp } from "../types/transcript";
+
+/**
+ * A word (or phrase) with timing relative to the start of the audio
+ */
+export interface TimedText {
+  text: string;
+  /** Start time in seconds */
+  start: number;
+}
+
+// Default speaker when no previous labels are available
+const DEFAULT_SPEAKER: Speaker = "owner";
+
+/**
+ * Rebuild transcript segments from timed words, carrying over speaker
+ * labels from the previous (live) transcript.
+ *
+ * Each word takes the speaker of the previous segment that was active
+ * at the word's start time; consecutive words with the same speaker are
+ * grouped into one segment.
+ *
+ * @param words - Timed words (or phrases) from re-transcription
+ * @param previous - Previous segments with relativeTime set
+ * @param recordingStartTime - Absolute start time of the recording (ms)
+ * @param pauses - Pauses during the recording (not present in the audio)
+ */
+export function alignTimedTextToSpeakers(
+  words: TimedText[],
+  previous: TranscriptSegment[],
+  recordingStartTime: number,
+  pauses: RecordingPause[] = []
+): TranscriptSegment[] {
+  const result: TranscriptSegment[] = [];
+
+  for (const word of words) {
+    const text = word.text.trim();
+    if (!text) continue;
+
+    const speaker = getSpeakerAt(previous, word.start);
+    const last = result[result.length - 1];
+
+    if (last && last.speaker === speaker) {
+      last.text = `${last.text} ${text}`;
+    } else {
+      result.push({
+        speaker,
+        text,
+        timestamp: getAbsoluteTimestamp(word.start, recordingStartTime, pauses),
+        relativeTime: word.start,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find which speaker was talking at a given time in the previous transcript
+ */
+function getSpeakerAt(previous: TranscriptSegment[], time: number): Speaker {
+  const index = findActiveSegment(previous, time);
+  if (index >= 0) {
+    return previous[index]?.speaker ?? DEFAULT_SPEAKER;
+  }
+  // Before the first labeled segment: use the first speaker we know about
+  return previous[0]?.speaker ?? DEFAULT_SPEAKER;
+}
@@ -0,0 +1,153 @@
+import type { Speaker, TranscriptSegment } from "../types/transcript";
+import type { TranscriptCorrection } from "../types/vocabulary";
+import { shiftCorrections } from "./vocabularyCorrection";
+
+// Speaking rate used to place a split point when there is no next segment
+const CHARS_PER_SECOND = 15;
+
+/**
+ * Replace a segment's text. Vocabulary corrections are dropped because
+ * their offsets no longer line up with hand-edited text.
+ */
+export function updateSegmentText(
+  segments: TranscriptSegment[],
+  index: number,
+  text: string
+): TranscriptSegment[] {
+  return segments.map((seg, i) => {
+    if (i !== index || seg.text === text) return seg;
+    const { corrections: _corrections, ...rest } = seg;
+    return { ...rest, text };
+  });
+}
+
+/**
+ * Assign a segment to a different participant
+ */
+export function setSegmentSpeaker(
+  segments: TranscriptSegment[],
+  index: number,
+  speaker: Speaker
+): TranscriptSegment[] {
+  return segments.map((seg, i) => (i === index ? { ...seg, speaker } : seg));
+}
+
+/**
+ * Split a segment in two at a character offset (snapped to the nearest
+ * word boundary). The second half's timestamp is interpolated between
+ * this segment and the next one so audio seeking stays roughly aligned.
+ */
+export function splitSegment(
+  segments: TranscriptSegment[],
+  index: number,
+  offset: number
+): TranscriptSegment[] {
+  const seg = segments[index];
+  if (!seg) return segments;
+
+  const splitAt = snapToWordBoundary(seg.text, offset);
+  const firstText = seg.text.slice(0, splitAt).trimEnd();
+  const secondText = seg.text.slice(splitAt).trimStart();
+  if (!firstText || !secondText) return segments;
+
+  const secondStart = seg.text.length - seg.text.slice(splitAt).trimStart().length;
+  const fraction = splitAt / seg.text.length;
+  const next = segments[index + 1];
+  const elapsedMs = next
+    ? (next.timestamp - seg.timestamp) * fraction
+    : (splitAt / CHARS_PER_SECOND) * 1000;
+
+  const first: TranscriptSegment = {
+    ...seg,
+    text: firstText,
+    corrections: splitCorrections(seg.corrections, 0, firstText.length, 0),
+  };
+  const second: TranscriptSegment = {
+    ...seg,
+    text: secondText,
+    timestamp: seg.timestamp + Math.round(elapsedMs),
+    relativeTime:
+      seg.relativeTime !== undefined
+        ? seg.relativeTime + elapsedMs / 1000
+        : undefined,
+    corrections: splitCorrections(
+      seg.corrections,
+      secondStart,
+      seg.text.length,
+      -secondStart
+    ),
+  };
+
+  return [
+    ...segments.slice(0, index),
+    withoutEmptyCorrections(first),
+    withoutEmptyCorrections(second),
+    ...segments.slice(index + 1),
+  ];
+}
+
+/**
+ * Merge a segment with the one after it. The merged segment keeps the
+ * first segment's speaker and timing.
+ */
+export function mergeWithNext(
+  segments: TranscriptSegment[],
+  index: number
+): TranscriptSegment[] {
+  const seg = segments[index];
+  const next = segments[index + 1];
+  if (!seg || !next) return segments;
+
+  const offset = seg.text.length + 1;
+  const merged: TranscriptSegment = {
+    ...seg,
+    text: `${seg.text} ${next.text}`,
+    corrections: [
+      ...(seg.corrections ?? []),
+      ...shiftCorrections(next.corrections ?? [], offset),
+    ],
+  };
+
+  return [
+    ...segments.slice(0, index),
+    withoutEmptyCorrections(merged),
+    ...segments.slice(index + 2),
+  ];
+}
+
+/**
+ * Move a split point to the closest whitespace so words stay whole
+ */
+function snapToWordBoundary(text: string, offset: number): number {
+  const clamped = Math.max(0, Math.min(text.length, offset));
+  if (clamped === 0 || clamped === text.length || /\s/.test(text[clamped] ?? "")) {
+    return clamped;
+  }
+
+  const before = text.lastIndexOf(" ", clamped);
+  const after = text.indexOf(" ", clamped);
+  if (before < 0) return after < 0 ? clamped : after;
+  if (after < 0) return before;
+  return clamped - before <= after - clamped ? before : after;
+}
+
+/**
+ * Corrections that fall inside [from, to), shifted by delta
+ */
+function splitCorrections(
+  corrections: TranscriptCorrection[] | undefined,
+  from: number,
+  to: number,
+  delta: number
+): TranscriptCorrection[] {
+  return shiftCorrections(
+    (corrections ?? []).filter((c) => c.start >= from && c.end <= to),
+    delta
+  );
+}
+
+function withoutEmptyCorrections(seg: TranscriptSegment): TranscriptSegment {
+  if (seg.corrections && seg.corrections.length > 0) return seg;
+  const { corrections: _corrections, ...rest } = seg;
+  return rest;
+}
@@ -0,0 +1,44 @@
+/**
+ * Split a transcript formatted with formatTranscriptForAnalysis into
+ * windows of at most maxChars, keeping whole segments together.
+ * Consecutive windows share the last overlapSegments segments so
+ * statements that span the boundary are seen in context.
+ */
+export function splitTranscriptIntoWindows(
+  transcript: string,
+  maxChars: number,
+  overlapSegments: number
+): string[] {
+  // A segment starts with its number, e.g. "[12] OWNER: ..."; any other
+  // line continues the segment before it
+  const segments: string[] = [];
+  for (const line of transcript.split("\n")) {
+    if (/^\[\d+\] /.test(line) || segments.length === 0) {
+      segments.push(line);
+    } else {
+      segments[segments.length - 1] += `\n${line}`;
+    }
+  }
+
+  const windows: string[] = [];
+  let start = 0;
+  while (start < segments.length) {
+    let end = start;
+    let length = 0;
+    // Always take at least one segment, even if it is longer than maxChars
+    while (
+      end < segments.length &&
+      (end === start || length + segments[end]!.length + 1 <= maxChars)
+    ) {
+      length += segments[end]!.length + 1;
+      end++;
+    }
+
+    windows.push(segments.slice(start, end).join("\n"));
+    if (end >= segments.length) break;
+    // Step back for the overlap, but always move forward
+    start = Math.max(end - overlapSegments, start + 1);
+  }
+
+  return windows;
+}
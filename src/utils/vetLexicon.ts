@@ -0,0 +1,69 @@
+import type { LexiconEntry } from "../types/vocabulary";
+import { FORMULARY } from "./formulary";
+import { BREEDS } from "./taxonomy";
+
+// Drug names and brand names come from the formulary
+const drugs = FORMULARY.flatMap((drug) => [drug.name, ...drug.aliases]).map(
+  (term) => term.toLowerCase()
+);
+
+// Breed names come from the species and breed taxonomy
+const breeds = BREEDS.map((breed) => breed.name);
+
+const conditions = [
+  "parvo",
+  "parvovirus",
+  "distemper",
+  "leptospirosis",
+  "giardia",
+  "coccidia",
+  "pancreatitis",
+  "gastroenteritis",
+  "diabetes",
+  "hypothyroidism",
+  "hyperthyroidism",
+  "Cushing's disease",
+  "Addison's disease",
+  "pyometra",
+  "cystitis",
+  "urolithiasis",
+  "otitis",
+  "dermatitis",
+  "pyoderma",
+  "conjunctivitis",
+  "glaucoma",
+  "cataracts",
+  "arthritis",
+  "osteoarthritis",
+  "hip dysplasia",
+  "luxating patella",
+  "cruciate ligament",
+  "intervertebral disc disease",
+  "epilepsy",
+  "seizures",
+  "cardiomyopathy",
+  "heart murmur",
+  "heartworm",
+  "kennel cough",
+  "bloat",
+  "gastric dilatation volvulus",
+  "anemia",
+  "lymphoma",
+  "mast cell tumor",
+  "lethargy",
+  "anorexia",
+  "diarrhea",
+  "hematochezia",
+  "melena",
+  "polyuria",
+  "polydipsia",
+];
+
+/**
+ * Built-in veterinary lexicon used until the clinic edits its own
+ */
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  ...drugs.map((term) => ({ term, category: "drug" as const })),
+  ...breeds.map((term) => ({ term, category: "breed" as const })),
+  ...conditions.map((term) => ({ term, category: "condition" as const })),
+];
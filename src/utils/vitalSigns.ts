@@ -0,0 +1,153 @@
+import type { Measurement, VitalSignKey, VitalSigns } from "../types/report";
+import { resolveSpecies } from "./taxonomy";
+
+/**
+ * Units the model may report each measured vital sign in
+ */
+export const VITAL_SIGN_UNITS = {
+  temperature: ["°C", "°F"],
+  heartRate: ["bpm"],
+  respiratoryRate: ["breaths/min"],
+  capillaryRefillTime: ["s"],
+  bodyConditionScore: ["/9", "/5"],
+} as const;
+
+type MeasuredVitalSign = keyof typeof VITAL_SIGN_UNITS;
+
+/**
+ * Mucous membrane colours the model may report; only pink is normal
+ */
+export const MUCOUS_MEMBRANE_COLOURS = [
+  "pink",
+  "pale",
+  "white",
+  "cyanotic",
+  "icteric",
+  "injected",
+  "brick red",
+] as const;
+
+type Range = [min: number, max: number];
+
+// Adult resting ranges per taxonomy species: temperature in °C, rates
+// per minute
+const REFERENCE_RANGES: Partial<
+  Record<string, { temperature: Range; heartRate: Range; respiratoryRate: Range }>
+> = {
+  Dog: { temperature: [37.5, 39.2], heartRate: [60, 140], respiratoryRate: [10, 30] },
+  Cat: { temperature: [37.8, 39.2], heartRate: [140, 220], respiratoryRate: [20, 30] },
+  Rabbit: { temperature: [38.5, 40], heartRate: [180, 300], respiratoryRate: [30, 60] },
+  Horse: { temperature: [37.5, 38.5], heartRate: [28, 44], respiratoryRate: [8, 16] },
+};
+
+// Same for every species: CRT in seconds, ideal body condition per scale
+const MAX_CAPILLARY_REFILL_TIME = 2;
+const IDEAL_BODY_CONDITION: Record<string, Range> = {
+  "/9": [4, 5],
+  "/5": [3, 3],
+};
+
+/**
+ * Result of comparing a vital sign with its reference range
+ */
+export interface VitalSignCheck {
+  status: "normal" | "low" | "high" | "abnormal";
+  /** Reference range in the value's unit, e.g. "37.5-39.2 °C" */
+  range: string;
+}
+
+function toFahrenheit(celsius: number): number {
+  return Math.round(((celsius * 9) / 5 + 32) * 10) / 10;
+}
+
+function compare(
+  value: number,
+  [min, max]: Range,
+  range: string
+): VitalSignCheck {
+  const status = value < min ? "low" : value > max ? "high" : "normal";
+  return { status, range };
+}
+
+/**
+ * Check a vital sign against the reference range for the species; null
+ * when it wasn't recorded or there is no range for the species
+ */
+export function checkVitalSign(
+  key: Exclude<VitalSignKey, "other">,
+  vitalSigns: VitalSigns,
+  species: string
+): VitalSignCheck | null {
+  if (key === "mucousMembranes") {
+    const colour = vitalSigns.mucousMembranes.value.trim().toLowerCase();
+    if (!MUCOUS_MEMBRANE_COLOURS.some((c) => c === colour)) return null;
+    return { status: colour === "pink" ? "normal" : "abnormal", range: "pink" };
+  }
+
+  const measurement = vitalSigns[key].value;
+  if (!measurement) return null;
+  const { value, unit } = measurement;
+
+  switch (key) {
+    case "capillaryRefillTime":
+      return compare(
+        value,
+        [0, MAX_CAPILLARY_REFILL_TIME],
+        `up to ${MAX_CAPILLARY_REFILL_TIME} s`
+      );
+    case "bodyConditionScore": {
+      const ideal = IDEAL_BODY_CONDITION[unit];
+      if (!ideal) return null;
+      const [min, max] = ideal;
+      const range = min === max ? `${min}${unit}` : `${min}-${max}${unit}`;
+      return compare(value, ideal, range);
+    }
+    default: {
+      const resolved = resolveSpecies(species);
+      const ranges = resolved ? REFERENCE_RANGES[resolved.name] : undefined;
+      if (!ranges) return null;
+      const [min, max] = ranges[key];
+      if (key === "temperature" && unit === "°F") {
+        const range: Range = [toFahrenheit(min), toFahrenheit(max)];
+        return compare(value, range, `${range[0]}-${range[1]} °F`);
+      }
+      return compare(value, [min, max], `${min}-${max} ${unit}`);
+    }
+  }
+}
+
+/**
+ * Display text for a measurement, e.g. "38.6 °C" or "5/9"
+ */
+export function formatMeasurement(measurement: Measurement | null): string {
+  if (!measurement) return "";
+  const { value, unit } = measurement;
+  return unit.startsWith("/") ? `${value}${unit}` : `${value} ${unit}`;
+}
+
+function normalizeUnit(unit: string): string {
+  return unit.toLowerCase().replace(/[°\s]/g, "");
+}
+
+/**
+ * Parse a measurement typed by the vet, e.g. "102.5 F"; the unit falls
+ * back to the current one when none of the allowed units is given.
+ * Returns null for empty text and undefined when there is no number.
+ */
+export function parseMeasurement(
+  text: string,
+  key: MeasuredVitalSign,
+  currentUnit?: string
+): Measurement | null | undefined {
+  if (!text.trim()) return null;
+  const number = /-?\d+(?:[.,]\d+)?/.exec(text);
+  if (!number) return undefined;
+
+  const units: readonly string[] = VITAL_SIGN_UNITS[key];
+  const rest = normalizeUnit(text.slice(number.index + number[0].length));
+  const unit =
+    units.find((u) => rest && rest.startsWith(normalizeUnit(u))) ??
+    currentUnit ??
+    units[0]!;
+  return { value: Number(number[0].replace(",", ".")), unit };
+}
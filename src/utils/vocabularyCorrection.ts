@@ -0,0 +1,294 @@
+import type { TranscriptSegment } from "../types/transcript";
+import type { LexiconEntry, TranscriptCorrection } from "../types/vocabulary";
+
+// Longest run of words that can be merged into one term ("mellow oxy cam")
+const MAX_WINDOW_WORDS = 3;
+// Terms shorter than this (in letters) are only matched exactly
+const MIN_FUZZY_TERM_LENGTH = 6;
+// Allowed length ratio between heard letters and term letters
+const MIN_LENGTH_RATIO = 0.6;
+const MAX_LENGTH_RATIO = 1.6;
+// A single heard word must sound identical and be spelled similarly
+const SINGLE_WORD_MIN_SPELLING = 0.7;
+// Several heard words must sound nearly identical to the term
+const MULTI_WORD_MIN_SOUND = 0.8;
+const MULTI_WORD_MIN_SPELLING = 0.5;
+
+// Words that never start or end a multi-word match
+const BOUNDARY_STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from",
+  "had", "has", "have", "he", "her", "his", "i", "in", "is", "it", "its",
+  "me", "my", "of", "on", "or", "our", "she", "so", "that", "the", "their",
+  "them", "they", "this", "to", "was", "we", "were", "with", "you", "your",
+]);
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface PreparedTerm {
+  entry: LexiconEntry;
+  letters: string;
+  key: string;
+}
+
+/**
+ * Lowercase letters only ("Cushing's disease" -> "cushingsdisease")
+ */
+export function toLetters(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}]/gu, "");
+}
+
+/**
+ * Rough English phonetic key: normalize consonants that sound alike,
+ * then drop vowels (speech recognition mangles those most) and
+ * collapse repeats. "meloxicam" and "mellow oxy cam" both give "mlkskm".
+ */
+function phoneticKey(letters: string): string {
+  const normalized = letters
+    .replace(/ph/g, "f")
+    .replace(/ck/g, "k")
+    .replace(/qu/g, "kw")
+    .replace(/x/g, "ks")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/c/g, "k")
+    .replace(/g(?=[eiy])/g, "j")
+    .replace(/z/g, "s")
+    .replace(/v/g, "f")
+    .replace(/d/g, "t");
+
+  let key = normalized[0] ?? "";
+  for (const ch of normalized.slice(1)) {
+    if ("aeiouyhw".includes(ch)) continue;
+    if (key[key.length - 1] === ch) continue;
+    key += ch;
+  }
+  return key;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Similarity in [0, 1] based on edit distance
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a, b) / longest;
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu), (m) => ({
+    text: m[0],
+    start: m.index ?? 0,
+    end: (m.index ?? 0) + m[0].length,
+  }));
+}
+
+/**
+ * Letters of a heard word run, with a trailing possessive dropped
+ * ("Parvo's" -> "parvo")
+ */
+function heardLetters(raw: string): string {
+  return toLetters(raw.replace(/['’]s$/i, ""));
+}
+
+function prepareLexicon(lexicon: LexiconEntry[]): PreparedTerm[] {
+  return lexicon
+    .map((entry) => {
+      const letters = toLetters(entry.term);
+      return { entry, letters, key: phoneticKey(letters) };
+    })
+    .filter((t) => t.letters.length > 0);
+}
+
+/**
+ * Find the lexicon term a run of heard words most likely meant
+ */
+function matchWindow(
+  raw: string,
+  wordCount: number,
+  terms: PreparedTerm[]
+): { term: PreparedTerm; exact: boolean } | null {
+  const letters = heardLetters(raw);
+  if (!letters) return null;
+
+  const exact = terms.find((t) => t.letters === letters);
+  if (exact) return { term: exact, exact: true };
+
+  const key = phoneticKey(letters);
+  let best: PreparedTerm | null = null;
+  let bestScore = 0;
+
+  for (const t of terms) {
+    if (t.letters.length < MIN_FUZZY_TERM_LENGTH) continue;
+    const ratio = letters.length / t.letters.length;
+    if (ratio < MIN_LENGTH_RATIO || ratio > MAX_LENGTH_RATIO) continue;
+    // Plain inflections ("seizure" vs "seizures") are not mishearings
+    if (letters + "s" === t.letters || t.letters + "s" === letters) continue;
+
+    const sound = similarity(key, t.key);
+    const spelling = similarity(letters, t.letters);
+    const accepted =
+      wordCount === 1
+        ? sound === 1 && spelling >= SINGLE_WORD_MIN_SPELLING
+        : sound >= MULTI_WORD_MIN_SOUND && spelling >= MULTI_WORD_MIN_SPELLING;
+    if (!accepted) continue;
+
+    const score = sound * 0.6 + spelling * 0.4;
+    if (score > bestScore) {
+      best = t;
+      bestScore = score;
+    }
+  }
+
+  return best ? { term: best, exact: false } : null;
+}
+
+/**
+ * Replace misrecognized veterinary terms in a piece of finalized text.
+ * Returns the corrected text and the spans that were replaced.
+ */
+export function correctText(
+  text: string,
+  lexicon: LexiconEntry[]
+): { text: string; corrections: TranscriptCorrection[] } {
+  const terms = prepareLexicon(lexicon);
+  const tokens = tokenize(text);
+  const replacements: { start: number; end: number; term: PreparedTerm }[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let matched = 0;
+
+    // Exact matches win over fuzzy ones, longer runs over shorter ones
+    for (const exactOnly of [true, false]) {
+      for (let n = Math.min(MAX_WINDOW_WORDS, tokens.length - i); n >= 1; n--) {
+        const first = tokens[i];
+        const last = tokens[i + n - 1];
+        if (!first || !last) continue;
+        if (
+          n > 1 &&
+          (BOUNDARY_STOPWORDS.has(first.text.toLowerCase()) ||
+            BOUNDARY_STOPWORDS.has(last.text.toLowerCase()))
+        ) {
+          continue;
+        }
+
+        const raw = text.slice(first.start, last.end);
+        const match = matchWindow(raw, n, terms);
+        if (!match || match.exact !== exactOnly) continue;
+
+        // Already spelled correctly: nothing to replace, but protect it
+        if (raw.toLowerCase() !== match.term.entry.term.toLowerCase()) {
+          replacements.push({ start: first.start, end: last.end, term: match.term });
+        }
+        matched = n;
+        break;
+      }
+      if (matched) break;
+    }
+
+    i += matched || 1;
+  }
+
+  if (replacements.length === 0) return { text, corrections: [] };
+
+  let corrected = "";
+  let cursor = 0;
+  const corrections: TranscriptCorrection[] = [];
+  for (const r of replacements) {
+    corrected += text.slice(cursor, r.start);
+    const start = corrected.length;
+    corrected += r.term.entry.term;
+    corrections.push({
+      start,
+      end: corrected.length,
+      original: text.slice(r.start, r.end),
+      term: r.term.entry.term,
+      category: r.term.entry.category,
+    });
+    cursor = r.end;
+  }
+  corrected += text.slice(cursor);
+
+  return { text: corrected, corrections };
+}
+
+/**
+ * Shift correction offsets (used when text is appended to a segment)
+ */
+export function shiftCorrections(
+  corrections: TranscriptCorrection[],
+  offset: number
+): TranscriptCorrection[] {
+  return corrections.map((c) => ({
+    ...c,
+    start: c.start + offset,
+    end: c.end + offset,
+  }));
+}
+
+/**
+ * Run the correction pass over whole segments that have not been
+ * corrected yet (e.g. after re-transcription)
+ */
+export function correctSegments(
+  segments: TranscriptSegment[],
+  lexicon: LexiconEntry[]
+): TranscriptSegment[] {
+  return segments.map((seg) => {
+    if (seg.corrections) return seg;
+    const result = correctText(seg.text, lexicon);
+    if (result.corrections.length === 0) return seg;
+    return { ...seg, text: result.text, corrections: result.corrections };
+  });
+}
+
+/**
+ * Undo one correction, restoring what speech recognition heard
+ */
+export function revertCorrection(
+  segment: TranscriptSegment,
+  correctionIndex: number
+): TranscriptSegment {
+  const correction = segment.corrections?.[correctionIndex];
+  if (!correction) return segment;
+
+  const delta =
+    correction.original.length - (correction.end - correction.start);
+  const text =
+    segment.text.slice(0, correction.start) +
+    correction.original +
+    segment.text.slice(correction.end);
+
+  const corrections = (segment.corrections ?? [])
+    .filter((_, i) => i !== correctionIndex)
+    .map((c) =>
+      c.start >= correction.end
+        ? { ...c, start: c.start + delta, end: c.end + delta }
+        : c
+    );
+
+  return { ...segment, text, corrections };
+}
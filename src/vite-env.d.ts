@@ -5,6 +5,17 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_GROQ_API_KEY?: string;
+  readonly VITE_TRANSCRIPTION_BASE_URL?: string;
+  readonly VITE_TRANSCRIPTION_API_KEY?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_EXTRACTION_BASE_URL?: string;
+  readonly VITE_LLM_EXTRACTION_MODEL?: string;
+  readonly VITE_LLM_EXTRACTION_API_KEY?: string;
+  readonly VITE_LLM_URGENCY_BASE_URL?: string;
+  readonly VITE_LLM_URGENCY_MODEL?: string;
+  readonly VITE_LLM_URGENCY_API_KEY?: string;
 }
 
 interface ImportMeta {